@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "WorkflowRun" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "replayOf" TEXT,
+    "fromStep" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "steps" JSONB NOT NULL DEFAULT '[]',
+
+    CONSTRAINT "WorkflowRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_workflowId_idx" ON "WorkflowRun"("workflowId");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowRun" ADD CONSTRAINT "WorkflowRun_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
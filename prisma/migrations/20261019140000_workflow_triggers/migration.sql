@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "WorkflowTrigger" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "when" JSONB,
+    "data" JSONB,
+    "dedupeKey" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "definition" JSONB NOT NULL,
+    "lastFiredAt" TIMESTAMP(3),
+    "lastWorkflowId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowTrigger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowTriggerEvent" (
+    "triggerId" TEXT NOT NULL,
+    "dedupeKey" TEXT NOT NULL,
+    "firedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowTriggerEvent_pkey" PRIMARY KEY ("triggerId","dedupeKey")
+);
+
+-- AddForeignKey
+ALTER TABLE "WorkflowTriggerEvent" ADD CONSTRAINT "WorkflowTriggerEvent_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "WorkflowTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "WorkflowApproval" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "workflowName" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "runId" TEXT,
+    "title" TEXT NOT NULL,
+    "message" TEXT,
+    "assignees" TEXT[],
+    "status" TEXT NOT NULL,
+    "onExpiry" TEXT NOT NULL,
+    "requestedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "decision" TEXT,
+    "decidedBy" TEXT,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WorkflowApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowApproval_workflowId_idx" ON "WorkflowApproval"("workflowId");
+
+-- CreateIndex
+CREATE INDEX "WorkflowApproval_status_idx" ON "WorkflowApproval"("status");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowApproval" ADD CONSTRAINT "WorkflowApproval_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
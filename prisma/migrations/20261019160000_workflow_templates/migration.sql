@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Workflow" ADD COLUMN     "outputs" JSONB,
+ADD COLUMN     "parentStepId" TEXT,
+ADD COLUMN     "parentWorkflowId" TEXT,
+ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "WorkflowTemplate" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "definition" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowTemplate_pkey" PRIMARY KEY ("id","version")
+);
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Workflow" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "WorkflowRun" ADD COLUMN     "migrations" JSONB,
+ADD COLUMN     "version" INTEGER;
+
+-- CreateTable
+CREATE TABLE "WorkflowVersion" (
+    "workflowId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "definition" JSONB NOT NULL,
+    "renamedSteps" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowVersion_pkey" PRIMARY KEY ("workflowId","version")
+);
+
+-- AddForeignKey
+ALTER TABLE "WorkflowVersion" ADD CONSTRAINT "WorkflowVersion_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,20 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// Define the agent type
-interface Agent {
-  id: string
-  type: string
-  name: string
-  description: string
-  status: string
-}
-
-// In-memory store for agents (would be replaced with database in production)
-const agents = new Map<string, Agent>()
+import { AgentStatus } from '@/lib/agents'
+import { getRepository, getWorkflowOrchestrator } from '@/lib/agents/runtime'
 
 // Define proper interface for route parameters
 interface RouteParams {
-  params: { id: string }
+  params: Promise<{ id: string }>
 }
 
 // GET /api/agents/[id] - Get a specific agent
@@ -23,13 +13,23 @@ export async function GET(
   { params }: RouteParams
 ): Promise<NextResponse> {
   try {
-    const agent = agents.get(params.id)
+    const { id } = await params
+    const agent = await getRepository().agents.get(id)
 
     if (!agent) {
       return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
     }
 
-    return NextResponse.json(agent)
+    const orchestrator = await getWorkflowOrchestrator()
+    const pool = orchestrator
+      .getAgentPools()
+      .find((p) => p.type === agent.type)
+
+    return NextResponse.json({
+      ...agent,
+      status: pool?.status ?? AgentStatus.IDLE,
+      pool,
+    })
   } catch {
     return NextResponse.json(
       { error: 'Failed to fetch agent' },
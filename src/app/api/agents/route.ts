@@ -5,15 +5,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { AGENT_CAPABILITIES, AgentStatus, AgentType } from '@/lib/agents'
+import { getRepository, getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { agentSchema } from '@/lib/db/schema'
 
-// In-memory store for agents (would be replaced with database in production)
-const agents = new Map()
-
-// GET /api/agents - List all agents
+// GET /api/agents - List all agents and the state of each agent type's pool
 export async function GET() {
   try {
-    const agentList = Array.from(agents.values())
-    return NextResponse.json({ agents: agentList })
+    const agents = await getRepository().agents.list()
+    const orchestrator = await getWorkflowOrchestrator()
+    const pools = orchestrator.getAgentPools()
+
+    // Agents report the status of the pool running their type
+    const agentList = agents.map((agent) => ({
+      ...agent,
+      status:
+        pools.find((pool) => pool.type === agent.type)?.status ??
+        AgentStatus.IDLE,
+    }))
+    return NextResponse.json({ agents: agentList, pools })
   } catch {
     return NextResponse.json(
       { error: 'Failed to fetch agents' },
@@ -26,16 +36,31 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const id = crypto.randomUUID()
-    const agent = {
-      id,
+    const now = new Date()
+    const parsed = agentSchema.safeParse({
+      id: crypto.randomUUID(),
       type: body.type,
       name: body.name,
-      description: body.description,
-      status: 'IDLE',
+      description: body.description ?? '',
+      capabilities:
+        body.capabilities ?? AGENT_CAPABILITIES[body.type as AgentType] ?? [],
+      config: body.config ?? {},
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid agent', errors: parsed.error.issues },
+        { status: 400 }
+      )
     }
-    agents.set(id, agent)
-    return NextResponse.json(agent, { status: 201 })
+
+    const agent = await getRepository().agents.create(parsed.data)
+    return NextResponse.json(
+      { ...agent, status: AgentStatus.IDLE },
+      { status: 201 }
+    )
   } catch {
     return NextResponse.json(
       { error: 'Failed to create agent' },
@@ -54,7 +79,9 @@ export async function DELETE(request: NextRequest) {
         { status: 400 }
       )
     }
-    agents.delete(id)
+    if (!(await getRepository().agents.delete(id))) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
     return NextResponse.json({ success: true })
   } catch {
     return NextResponse.json(
@@ -0,0 +1,59 @@
+/**
+ * API Route for Approval Decisions
+ *
+ * This module provides the approve and reject endpoints of an approval. The
+ * decision is taken on behalf of one of the approval's assignees, with an
+ * optional comment, and resumes the workflow waiting on it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import {
+  APPROVAL_DECISIONS,
+  ApprovalDecision,
+  ApprovalError,
+  parseApprovalDecision,
+} from '@/lib/agents/workflow/approvals'
+
+interface RouteParams {
+  params: Promise<{ id: string; decision: string }>
+}
+
+const STATUS_BY_REASON: Record<ApprovalError['reason'], number> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+}
+
+// POST /api/approvals/:id/approve|reject - Decide an approval. Body:
+// { by, comment? }
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id, decision } = await params
+  if (!APPROVAL_DECISIONS.includes(decision as ApprovalDecision)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const orchestrator = await getWorkflowOrchestrator()
+    const approval = await orchestrator.decideApproval(
+      id,
+      decision as ApprovalDecision,
+      parseApprovalDecision(body)
+    )
+
+    return NextResponse.json(approval)
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: STATUS_BY_REASON[error.reason] }
+      )
+    }
+    return NextResponse.json(
+      { error: `Failed to ${decision} approval` },
+      { status: 500 }
+    )
+  }
+}
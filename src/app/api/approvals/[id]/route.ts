@@ -0,0 +1,33 @@
+/**
+ * API Route for an Approval
+ *
+ * This module provides the endpoint for reading a single approval, with its
+ * decision once one was taken.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/approvals/:id - Get an approval
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    const approval = orchestrator.getApproval(id)
+
+    if (!approval) {
+      return NextResponse.json({ error: 'Approval not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(approval)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * API Route for Approvals
+ *
+ * This module provides the approvals inbox: the approvals requested by
+ * workflow approval steps, filtered by status, assignee or workflow.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import type { ApprovalStatus } from '@/lib/agents/workflow/approvals'
+
+// GET /api/approvals?status=pending&assignee=&workflowId= - List approvals,
+// oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const orchestrator = await getWorkflowOrchestrator()
+    const approvals = orchestrator.listApprovals({
+      status: (searchParams.get('status') as ApprovalStatus) || undefined,
+      assignee: searchParams.get('assignee') || undefined,
+      workflowId: searchParams.get('workflowId') || undefined,
+    })
+
+    return NextResponse.json({ approvals })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch approvals' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * API Route for Streaming Events
+ *
+ * This module streams agent, task and workflow events to clients as
+ * Server-Sent Events, filtered by workflow id, agent type and event pattern,
+ * and lets external systems publish domain events that triggers listen to.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { agentEventBus } from '@/lib/agents'
+import {
+  LoggedEvent,
+  createEventFilter,
+  isDomainEvent,
+} from '@/lib/agents/events'
+import {
+  getEventLog,
+  getTriggerManager,
+  getWorkflowOrchestrator,
+} from '@/lib/agents/runtime'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 15000
+const RETRY_MS = 3000
+
+// Every event is sent as a plain message, so a single `onmessage` handler
+// receives them all; the event name is part of the data
+function formatEvent(event: LoggedEvent): string {
+  const data = JSON.stringify({
+    id: event.id,
+    event: event.name,
+    data: event.data,
+    timestamp: event.timestamp,
+  })
+  return `id: ${event.id}\ndata: ${data}\n\n`
+}
+
+// GET /api/events?workflowId=&agentType=&pattern=workflow:** - Stream events.
+// Reconnecting clients send Last-Event-ID (or ?lastEventId=) to receive the
+// events they missed.
+export async function GET(request: NextRequest) {
+  try {
+    await getWorkflowOrchestrator()
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to start event stream' },
+      { status: 500 }
+    )
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const matches = createEventFilter({
+    workflowId: searchParams.get('workflowId') ?? undefined,
+    agentType: searchParams.get('agentType') ?? undefined,
+    pattern: searchParams.get('pattern') ?? undefined,
+  })
+  const lastEventId = Number(
+    request.headers.get('last-event-id') ?? searchParams.get('lastEventId')
+  )
+
+  const eventLog = getEventLog()
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+      const send = (event: LoggedEvent) => {
+        if (!matches(event)) {
+          return
+        }
+        try {
+          write(formatEvent(event))
+        } catch {
+          // Payloads that can't be serialized are left out of the stream
+        }
+      }
+
+      write(`retry: ${RETRY_MS}\n\n`)
+      // Replaying and subscribing happen in the same tick, so no event is
+      // missed or sent twice
+      if (lastEventId > 0) {
+        eventLog.since(lastEventId).forEach(send)
+      }
+      const unsubscribe = eventLog.subscribe(send)
+      const heartbeat = setInterval(
+        () => write(': heartbeat\n\n'),
+        HEARTBEAT_MS
+      )
+
+      close = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+      }
+      request.signal.addEventListener('abort', () => {
+        close()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+// POST /api/events - Publish a domain event, e.g.
+// { "event": "invoice:overdue", "data": { "invoiceId": "..." } }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (typeof body.event !== 'string' || !isDomainEvent(body.event)) {
+      return NextResponse.json(
+        { error: 'event must be a domain event name, e.g. invoice:overdue' },
+        { status: 400 }
+      )
+    }
+
+    await getTriggerManager()
+    agentEventBus.publishEvent(body.event, body.data ?? {})
+    return NextResponse.json({ event: body.event }, { status: 202 })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to publish event' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * API Routes for a Schedule
+ *
+ * This module provides API endpoints for reading, updating and deleting a
+ * single schedule.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getScheduler } from '@/lib/agents/runtime'
+import {
+  ScheduleValidationError,
+  parseScheduleInput,
+} from '@/lib/agents/scheduler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/schedules/:id - Get a schedule
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const scheduler = await getScheduler()
+    const schedule = scheduler.getSchedule(id)
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/schedules/:id - Update a schedule's timing, catch-up policy,
+// definition or whether it is enabled
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const scheduler = await getScheduler()
+    const schedule = await scheduler.updateSchedule(
+      id,
+      parseScheduleInput(body)
+    )
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    if (error instanceof ScheduleValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/schedules/:id - Delete a schedule
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const scheduler = await getScheduler()
+
+    if (!(await scheduler.deleteSchedule(id))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to delete schedule' },
+      { status: 500 }
+    )
+  }
+}
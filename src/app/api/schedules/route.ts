@@ -0,0 +1,64 @@
+/**
+ * API Routes for Schedule Management
+ *
+ * This module provides API endpoints for listing and creating the schedules
+ * that start workflows on a cron expression or at a set time.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getScheduler, getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import {
+  ScheduleInput,
+  ScheduleValidationError,
+  parseScheduleInput,
+} from '@/lib/agents/scheduler'
+import { getWorkflowDefinition } from '@/lib/agents/workflow'
+
+// GET /api/schedules - List all schedules
+export async function GET() {
+  try {
+    const scheduler = await getScheduler()
+    return NextResponse.json({ schedules: scheduler.listSchedules() })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch schedules' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/schedules - Create a schedule. The workflow to run is given as a
+// `definition`, or copied from an existing workflow with `workflowId`.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const input = parseScheduleInput(body)
+
+    if (body.workflowId) {
+      const orchestrator = await getWorkflowOrchestrator()
+      const workflow = orchestrator.getWorkflow(body.workflowId)
+      if (!workflow) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        )
+      }
+      input.definition = getWorkflowDefinition(workflow)
+    }
+
+    const scheduler = await getScheduler()
+    const schedule = await scheduler.createSchedule(input as ScheduleInput)
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    if (error instanceof ScheduleValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    )
+  }
+}
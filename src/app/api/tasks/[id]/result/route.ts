@@ -0,0 +1,45 @@
+/**
+ * API Route for Waiting on Task Results
+ *
+ * This module provides a long-poll endpoint that holds the request until a
+ * task completes or fails, or the wait times out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isTaskSettled } from '@/lib/agents/dispatcher'
+import { getTaskDispatcher } from '@/lib/agents/runtime'
+
+const DEFAULT_WAIT_MS = 30000
+const MAX_WAIT_MS = 60000
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/tasks/:id/result?timeoutMs=30000 - Wait for a task to settle.
+// Responds 200 with the settled task, or 202 with the task still running.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const requested = Number(
+      request.nextUrl.searchParams.get('timeoutMs') ?? DEFAULT_WAIT_MS
+    )
+    const timeoutMs = Number.isFinite(requested)
+      ? Math.min(Math.max(requested, 0), MAX_WAIT_MS)
+      : DEFAULT_WAIT_MS
+
+    const dispatcher = await getTaskDispatcher()
+    const task = await dispatcher.waitForTask(id, timeoutMs)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(task, { status: isTaskSettled(task) ? 200 : 202 })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to wait for task' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * API Routes for a Task
+ *
+ * This module provides API endpoints for reading, updating and deleting a
+ * single task.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { canTransitionTask } from '@/lib/agents/dispatcher'
+import { getRepository } from '@/lib/agents/runtime'
+import { taskSchema } from '@/lib/db/schema'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const TASK_STATUSES = taskSchema.shape.status.options
+
+// GET /api/tasks/:id - Get a specific task
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const task = await getRepository().tasks.get(id)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(task)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to retrieve task' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/tasks/:id - Update a task. Moving a task out of completed or
+// failed, or back to pending, returns 409.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const task = await getRepository().tasks.get(id)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    if (body.status) {
+      if (!TASK_STATUSES.includes(body.status)) {
+        return NextResponse.json(
+          { error: `Invalid task status: ${body.status}` },
+          { status: 400 }
+        )
+      }
+      if (!canTransitionTask(task.status, body.status)) {
+        return NextResponse.json(
+          {
+            error: `Cannot move task ${id} from ${task.status} to ${body.status}`,
+            status: task.status,
+          },
+          { status: 409 }
+        )
+      }
+
+      // Update timestamps based on status
+      if (body.status === 'in_progress' && !task.startedAt) {
+        task.startedAt = new Date()
+      } else if (
+        ['completed', 'failed'].includes(body.status) &&
+        !task.completedAt
+      ) {
+        task.completedAt = new Date()
+      }
+      task.status = body.status
+    }
+
+    if (body.priority) task.priority = body.priority
+    if (body.data) task.data = { ...task.data, ...body.data }
+    if (body.result) task.result = body.result
+    if (body.error) task.error = body.error
+    if (body.deadline) task.deadline = new Date(body.deadline)
+
+    const parsed = taskSchema.safeParse(task)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid task', errors: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const updated = await getRepository().tasks.update(id, parsed.data)
+
+    return NextResponse.json(updated)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to update task' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/:id - Delete a task
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    if (!(await getRepository().tasks.delete(id))) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to delete task' },
+      { status: 500 }
+    )
+  }
+}
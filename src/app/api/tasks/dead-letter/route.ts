@@ -0,0 +1,86 @@
+/**
+ * API Routes for Dead-Lettered Tasks
+ *
+ * This module provides API endpoints for inspecting, replaying and discarding
+ * tasks the task queue gave up delivering.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskQueue } from '@/lib/agents/runtime'
+
+// GET /api/tasks/dead-letter - List dead-lettered tasks
+export async function GET() {
+  try {
+    const taskQueue = getTaskQueue()
+    await taskQueue.initialize()
+    const deadLetters = await taskQueue.listDeadLetters()
+    return NextResponse.json({ deadLetters })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to retrieve dead-lettered tasks' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/dead-letter - Replay dead-lettered tasks, all of them
+// unless `taskIds` is given
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { taskIds } = body
+
+    if (
+      taskIds !== undefined &&
+      (!Array.isArray(taskIds) ||
+        !taskIds.every((id: unknown) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'taskIds must be an array of task ids' },
+        { status: 400 }
+      )
+    }
+
+    const taskQueue = getTaskQueue()
+    await taskQueue.initialize()
+    const replayed = await taskQueue.replayDeadLetters(taskIds)
+    return NextResponse.json({ replayed })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to replay dead-lettered tasks' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/dead-letter?id=:taskId - Discard a dead-lettered task
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Task id is required' },
+        { status: 400 }
+      )
+    }
+
+    const taskQueue = getTaskQueue()
+    await taskQueue.initialize()
+    const discarded = await taskQueue.discardDeadLetters([id])
+
+    if (discarded.length === 0) {
+      return NextResponse.json(
+        { error: 'Dead-lettered task not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ discarded: discarded[0] })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to discard dead-lettered task' },
+      { status: 500 }
+    )
+  }
+}
@@ -5,16 +5,22 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { agentEventBus } from '@/lib/agents'
+import { AgentType } from '@/lib/agents'
+import { TaskDispatchError } from '@/lib/agents/dispatcher'
+import { getRepository, getTaskDispatcher } from '@/lib/agents/runtime'
+import { taskSchema } from '@/lib/db/schema'
 import { v4 as uuidv4 } from 'uuid'
 
-// In-memory store for tasks (would be replaced with database in production)
-const tasks = new Map()
+const STATUS_BY_REASON: Record<TaskDispatchError['reason'], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+}
 
 // GET /api/tasks - List all tasks
 export async function GET() {
   try {
-    const taskList = Array.from(tasks.values())
+    const taskList = await getRepository().tasks.list()
     return NextResponse.json({ tasks: taskList })
   } catch (error) {
     return NextResponse.json(
@@ -29,7 +35,19 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { type, agentId, workflowId, priority, data, deadline } = body
+    const {
+      type,
+      title,
+      description,
+      agentId,
+      agentType,
+      capability,
+      workflowId,
+      assignedToId,
+      priority,
+      data,
+      deadline,
+    } = body
 
     if (!type) {
       return NextResponse.json(
@@ -38,12 +56,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Tasks go to an agent unless they are assigned to a team member only
+    const dispatcher = await getTaskDispatcher()
+    let targetType: AgentType | null = null
+    if (agentId || agentType || capability || !assignedToId) {
+      try {
+        targetType = await dispatcher.resolveAgentType({
+          agentId,
+          agentType,
+          capability,
+          type,
+        })
+      } catch (error) {
+        if (error instanceof TaskDispatchError) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: STATUS_BY_REASON[error.reason] }
+          )
+        }
+        throw error
+      }
+    }
+
     const id = uuidv4()
-    const task = {
+    const parsed = taskSchema.safeParse({
       id,
       type,
+      title: title || null,
+      description: description || null,
       agentId: agentId || null,
       workflowId: workflowId || null,
+      assignedToId: assignedToId || null,
       status: 'pending',
       priority: priority || 1,
       data: data || {},
@@ -53,13 +96,19 @@ export async function POST(request: NextRequest) {
       startedAt: null,
       completedAt: null,
       deadline: deadline ? new Date(deadline) : null,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid task', errors: parsed.error.issues },
+        { status: 400 }
+      )
     }
 
-    tasks.set(id, task)
+    const task = await getRepository().tasks.create(parsed.data)
 
-    // If an agent is specified, publish the task to that agent
-    if (agentId) {
-      agentEventBus.publishEvent(`task:${agentId}`, task)
+    if (targetType) {
+      dispatcher.dispatch(task, targetType)
     }
 
     return NextResponse.json(task, { status: 201 })
@@ -71,96 +120,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-// GET /api/tasks/:id - Get a specific task
-export async function GET_TASK(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const task = tasks.get(params.id)
-
-    if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
-    }
-
-    return NextResponse.json(task)
-  } catch (error) {
-    return NextResponse.json(
-      { error: error },
-      // { error: 'Failed to retrieve task' },
-      { status: 500 }
-    )
-  }
-}
-
-// PUT /api/tasks/:id - Update a task
-export async function PUT(request: NextRequest) {
-  try {
-    const url = new URL(request.url)
-    const id = url.pathname.split('/').pop()
-    const body = await request.json()
-
-    if (!id || !tasks.has(id)) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
-    }
-
-    const task = tasks.get(id)
-
-    // Update task properties
-    if (
-      body.status &&
-      ['pending', 'in_progress', 'completed', 'failed'].includes(body.status)
-    ) {
-      task.status = body.status
-
-      // Update timestamps based on status
-      if (body.status === 'in_progress' && !task.startedAt) {
-        task.startedAt = new Date()
-      } else if (
-        ['completed', 'failed'].includes(body.status) &&
-        !task.completedAt
-      ) {
-        task.completedAt = new Date()
-      }
-    }
-
-    if (body.priority) task.priority = body.priority
-    if (body.data) task.data = { ...task.data, ...body.data }
-    if (body.result) task.result = body.result
-    if (body.error) task.error = body.error
-    if (body.deadline) task.deadline = new Date(body.deadline)
-
-    tasks.set(id, task)
-
-    return NextResponse.json(task)
-  } catch (error) {
-    return NextResponse.json(
-      { error: error },
-      // { error: 'Failed to update task' },
-      { status: 500 }
-    )
-  }
-}
-
-// DELETE /api/tasks/:id - Delete a task
-export async function DELETE(request: NextRequest) {
-  try {
-    const url = new URL(request.url)
-    const id = url.pathname.split('/').pop()
-
-    if (!id || !tasks.has(id)) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
-    }
-
-    tasks.delete(id)
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    return NextResponse.json(
-      { error: error },
-      // { error: 'Failed to delete task' },
-      { status: 500 }
-    )
-  }
-}
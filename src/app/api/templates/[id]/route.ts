@@ -0,0 +1,44 @@
+/**
+ * API Route for a Workflow Template
+ *
+ * This module provides the endpoint for reading a version of a template,
+ * along with the versions available.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getTemplateRegistry } from '@/lib/agents/runtime'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/templates/:id?version=2 - Get a template, by default its latest
+// version
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const version = request.nextUrl.searchParams.get('version')
+    const registry = await getTemplateRegistry()
+    const template = registry.getTemplate(
+      id,
+      version ? Number(version) : undefined
+    )
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      ...template,
+      versions: registry.listVersions(id),
+    })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch template' },
+      { status: 500 }
+    )
+  }
+}
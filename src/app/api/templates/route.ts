@@ -0,0 +1,56 @@
+/**
+ * API Routes for Workflow Templates
+ *
+ * This module provides API endpoints for listing workflow templates and
+ * saving new ones. Saving a template under an existing id adds a version;
+ * built-in templates can't be changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getTemplateRegistry } from '@/lib/agents/runtime'
+import {
+  TemplateError,
+  parseTemplateInput,
+} from '@/lib/agents/workflow/templates'
+import { WorkflowValidationError } from '@/lib/agents/workflow/validation'
+
+// GET /api/templates - List the latest version of every template
+export async function GET() {
+  try {
+    const registry = await getTemplateRegistry()
+    return NextResponse.json({ templates: registry.listTemplates() })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch templates' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/templates - Save a template. Body: { id, name, description?,
+// parameters, definition }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const registry = await getTemplateRegistry()
+    const template = await registry.createTemplate(parseTemplateInput(body))
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: error.reason === 'conflict' ? 409 : 400 }
+      )
+    }
+    if (error instanceof WorkflowValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid workflow definition', errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to save template' },
+      { status: 500 }
+    )
+  }
+}
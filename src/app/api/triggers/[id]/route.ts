@@ -0,0 +1,84 @@
+/**
+ * API Routes for a Workflow Trigger
+ *
+ * This module provides API endpoints for reading, updating and deleting a
+ * single trigger.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getTriggerManager } from '@/lib/agents/runtime'
+import {
+  TriggerValidationError,
+  parseTriggerInput,
+} from '@/lib/agents/workflow/triggers'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/triggers/:id - Get a trigger
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const manager = await getTriggerManager()
+    const trigger = manager.getTrigger(id)
+
+    if (!trigger) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(trigger)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch trigger' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/triggers/:id - Update a trigger's event, condition, data mapping,
+// deduplication key, definition or whether it is enabled
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const manager = await getTriggerManager()
+    const trigger = await manager.updateTrigger(id, parseTriggerInput(body))
+
+    if (!trigger) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(trigger)
+  } catch (error) {
+    if (error instanceof TriggerValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to update trigger' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/triggers/:id - Delete a trigger
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const manager = await getTriggerManager()
+
+    if (!(await manager.deleteTrigger(id))) {
+      return NextResponse.json({ error: 'Trigger not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to delete trigger' },
+      { status: 500 }
+    )
+  }
+}
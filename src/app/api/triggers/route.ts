@@ -0,0 +1,67 @@
+/**
+ * API Routes for Workflow Triggers
+ *
+ * This module provides API endpoints for listing and creating the triggers
+ * that start a workflow when a matching event is published.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getTriggerManager,
+  getWorkflowOrchestrator,
+} from '@/lib/agents/runtime'
+import { getWorkflowDefinition } from '@/lib/agents/workflow'
+import {
+  TriggerInput,
+  TriggerValidationError,
+  parseTriggerInput,
+} from '@/lib/agents/workflow/triggers'
+
+// GET /api/triggers - List all triggers
+export async function GET() {
+  try {
+    const manager = await getTriggerManager()
+    return NextResponse.json({ triggers: manager.listTriggers() })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch triggers' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/triggers - Create a trigger. The workflow to start is given as a
+// `definition`, or copied from an existing workflow with `workflowId`.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const input = parseTriggerInput(body)
+
+    if (body.workflowId) {
+      const orchestrator = await getWorkflowOrchestrator()
+      const workflow = orchestrator.getWorkflow(body.workflowId)
+      if (!workflow) {
+        return NextResponse.json(
+          { error: 'Workflow not found' },
+          { status: 404 }
+        )
+      }
+      input.definition = getWorkflowDefinition(workflow)
+    }
+
+    const manager = await getTriggerManager()
+    const trigger = await manager.createTrigger(input as TriggerInput)
+    return NextResponse.json(trigger, { status: 201 })
+  } catch (error) {
+    if (error instanceof TriggerValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to create trigger' },
+      { status: 500 }
+    )
+  }
+}
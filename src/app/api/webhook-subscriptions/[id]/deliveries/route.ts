@@ -0,0 +1,38 @@
+/**
+ * API Route for Webhook Subscription Deliveries
+ *
+ * This module provides the delivery log of a webhook subscription: every
+ * event sent to it, with the response code and error of each attempt.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookPublisher } from '@/lib/agents/runtime'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/webhook-subscriptions/:id/deliveries?limit=50 - List a
+// subscription's deliveries, most recent first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const publisher = await getWebhookPublisher()
+
+    if (!publisher.getSubscription(id)) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || 50
+    const deliveries = await publisher.listDeliveries(id, limit)
+    return NextResponse.json({ deliveries })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * API Routes for a Webhook Subscription
+ *
+ * This module provides API endpoints for reading, updating and deleting a
+ * single webhook subscription.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookPublisher } from '@/lib/agents/runtime'
+import {
+  SubscriptionValidationError,
+  parseSubscriptionInput,
+  redactSubscription,
+} from '@/lib/agents/webhooks/subscriptions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/webhook-subscriptions/:id - Get a subscription
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const publisher = await getWebhookPublisher()
+    const subscription = publisher.getSubscription(id)
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(redactSubscription(subscription))
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/webhook-subscriptions/:id - Update a subscription's URL, secret,
+// events or description, or enable it again after it was disabled
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const publisher = await getWebhookPublisher()
+    const subscription = await publisher.updateSubscription(
+      id,
+      parseSubscriptionInput(body)
+    )
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(redactSubscription(subscription))
+  } catch (error) {
+    if (error instanceof SubscriptionValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to update webhook subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/webhook-subscriptions/:id - Delete a subscription and its
+// delivery log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const publisher = await getWebhookPublisher()
+
+    if (!(await publisher.deleteSubscription(id))) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to delete webhook subscription' },
+      { status: 500 }
+    )
+  }
+}
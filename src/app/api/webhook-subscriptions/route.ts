@@ -0,0 +1,52 @@
+/**
+ * API Routes for Webhook Subscriptions
+ *
+ * This module provides API endpoints for listing and registering the URLs
+ * that bus events are delivered to.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookPublisher } from '@/lib/agents/runtime'
+import {
+  SubscriptionInput,
+  SubscriptionValidationError,
+  parseSubscriptionInput,
+  redactSubscription,
+} from '@/lib/agents/webhooks/subscriptions'
+
+// GET /api/webhook-subscriptions - List all subscriptions
+export async function GET() {
+  try {
+    const publisher = await getWebhookPublisher()
+    return NextResponse.json({
+      subscriptions: publisher.listSubscriptions().map(redactSubscription),
+    })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook subscriptions' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/webhook-subscriptions - Register a URL for events matching a
+// list of names or patterns. The response is the only one that includes the
+// signing secret, generated when none is given.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const publisher = await getWebhookPublisher()
+    const subscription = await publisher.createSubscription(
+      parseSubscriptionInput(body) as SubscriptionInput
+    )
+    return NextResponse.json(subscription, { status: 201 })
+  } catch (error) {
+    if (error instanceof SubscriptionValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to create webhook subscription' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * API Routes for Inbound Webhooks
+ *
+ * This module receives webhooks from external systems, such as payments,
+ * bookings and message replies, and lists the recorded deliveries of a
+ * source for debugging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getTriggerManager, getWebhookReceiver } from '@/lib/agents/runtime'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ source: string }>
+}
+
+// GET /api/webhooks/:source?limit=50 - List a source's deliveries, most
+// recent first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { source } = await params
+    const receiver = getWebhookReceiver()
+
+    if (!receiver.hasSource(source)) {
+      return NextResponse.json(
+        { error: 'Unknown webhook source' },
+        { status: 404 }
+      )
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || 50
+    const deliveries = await receiver.listDeliveries(source, limit)
+    return NextResponse.json({ deliveries })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/webhooks/:source - Receive a signed delivery. The signature
+// covers the raw body, so it is read as text.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { source } = await params
+    const body = await request.text()
+    // Triggers must be listening before the event is published
+    await getTriggerManager()
+    const response = await getWebhookReceiver().receive(
+      source,
+      request.headers,
+      body
+    )
+    return NextResponse.json(response.body, { status: response.statusCode })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to receive webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route for Workflow Control
+ *
+ * This module provides the start, pause, resume and cancel endpoints of a
+ * workflow. Each responds with the workflow as the orchestrator holds it after
+ * the action, or 409 when the workflow's state doesn't allow the action.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import {
+  WORKFLOW_ACTIONS,
+  WorkflowAction,
+  WorkflowTransitionError,
+} from '@/lib/agents/workflow/transitions'
+
+interface RouteParams {
+  params: Promise<{ id: string; action: string }>
+}
+
+// POST /api/workflows/:id/start|pause|resume|cancel - Control a workflow
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id, action } = await params
+  if (!WORKFLOW_ACTIONS.includes(action as WorkflowAction)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = await orchestrator.controlWorkflow(
+      id,
+      action as WorkflowAction
+    )
+
+    return NextResponse.json(workflow)
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: error.message, state: error.state },
+        { status: error.reason === 'not_found' ? 404 : 409 }
+      )
+    }
+    return NextResponse.json(
+      { error: `Failed to ${action} workflow` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * API Route for Exporting Workflows
+ *
+ * This module downloads a version of a workflow's definition as a YAML or
+ * JSON workflow file that can be imported again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { stringifyWorkflowFile } from '@/lib/agents/workflow/files'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowVersionError } from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const CONTENT_TYPES = {
+  yaml: 'application/yaml',
+  json: 'application/json',
+}
+
+// GET /api/workflows/:id/export?format=yaml&version=2 - Download a workflow
+// file, as YAML unless `format` is json, of the version the workflow runs
+// unless another is given
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get('format') ?? 'yaml'
+    const version = searchParams.get('version')
+
+    if (format !== 'yaml' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be yaml or json' },
+        { status: 400 }
+      )
+    }
+    if (version !== null && !Number.isInteger(Number(version))) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = orchestrator.getWorkflow(id)
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+    const { definition } = orchestrator.getVersion(
+      id,
+      version !== null ? Number(version) : workflow.version
+    )
+
+    return new Response(stringifyWorkflowFile(definition, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${getFileName(
+          definition.name
+        )}.${format}"`,
+      },
+    })
+  } catch (error) {
+    if (
+      error instanceof WorkflowTransitionError ||
+      error instanceof WorkflowVersionError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to export workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+// File name made of the workflow's name, e.g. lead-qualification
+function getFileName(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'workflow'
+  )
+}
@@ -0,0 +1,58 @@
+/**
+ * API Route for Migrating Workflows
+ *
+ * This module moves a paused workflow, and its current run, to a newer
+ * version of the workflow's definition.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowVersionError } from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const STATUS_BY_REASON = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+}
+
+// POST /api/workflows/:id/migrate - Migrate a paused workflow to `version`,
+// by default the latest. Responds 409 with the reasons when the version
+// doesn't fit the steps that already ran; the workflow stays paused either
+// way.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+
+    if (body.version !== undefined && !Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = await orchestrator.migrateWorkflow(id, body.version)
+
+    return NextResponse.json(workflow)
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof WorkflowVersionError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: STATUS_BY_REASON[error.reason] }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to migrate workflow' },
+      { status: 500 }
+    )
+  }
+}
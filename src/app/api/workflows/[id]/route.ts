@@ -0,0 +1,110 @@
+/**
+ * API Routes for a Workflow
+ *
+ * This module provides API endpoints for reading, updating and deleting a
+ * single workflow through the workflow orchestrator. Updates record a new
+ * version of the workflow's definition.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowValidationError } from '@/lib/agents/workflow/validation'
+import {
+  WorkflowVersionError,
+  parseWorkflowVersionInput,
+} from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/workflows/:id - Get a workflow and its lifecycle state
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = orchestrator.getWorkflow(id)
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(workflow)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/workflows/:id - Edit a workflow's name, description, steps, data
+// or outputs, recording the next version of its definition. Steps given a new
+// id are listed in `renamedSteps`, from old id to new id. A workflow that
+// hasn't started runs the new version right away; others keep their version
+// until they are migrated.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    if (body.status) {
+      return NextResponse.json(
+        {
+          error:
+            'Workflow status is changed through the start, pause, resume ' +
+            'and cancel routes',
+        },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = await orchestrator.updateWorkflow(
+      id,
+      parseWorkflowVersionInput(body)
+    )
+
+    return NextResponse.json(workflow)
+  } catch (error) {
+    if (
+      error instanceof WorkflowValidationError ||
+      error instanceof WorkflowVersionError
+    ) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 400 }
+      )
+    }
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to update workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/workflows/:id - Delete a workflow that isn't running
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    await orchestrator.deleteWorkflow(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: error.message, state: error.state },
+        { status: error.reason === 'not_found' ? 404 : 409 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route for Replaying Workflow Runs
+ *
+ * This module re-executes a finished run of a workflow from one of its steps,
+ * reusing the results of the steps that don't depend on it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowReplayError } from '@/lib/agents/workflow/runs'
+
+interface RouteParams {
+  params: Promise<{ id: string; runId: string }>
+}
+
+const STATUS_BY_REASON = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+}
+
+// POST /api/workflows/:id/runs/:runId/replay?fromStep=<stepId> - Replay a
+// run from a step, by default its first failed step. Responds 202 with the
+// new run.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, runId } = await params
+    const fromStep = request.nextUrl.searchParams.get('fromStep') ?? undefined
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const run = await orchestrator.replayRun(id, runId, fromStep)
+
+    return NextResponse.json(run, { status: 202 })
+  } catch (error) {
+    if (error instanceof WorkflowReplayError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: STATUS_BY_REASON[error.reason] }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to replay workflow run' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * API Route for a Workflow Run
+ *
+ * This module returns a single run of a workflow with its step timeline.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+
+interface RouteParams {
+  params: Promise<{ id: string; runId: string }>
+}
+
+// GET /api/workflows/:id/runs/:runId - Get a run of a workflow
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, runId } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    const run = (await orchestrator.listRuns(id)).find((r) => r.id === runId)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(run)
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow run' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * API Route for Workflow Runs
+ *
+ * This module lists the runs of a workflow with the timeline of their steps.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/workflows/:id/runs - List the runs of a workflow, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    const runs = await orchestrator.listRuns(id)
+    return NextResponse.json({ runs: runs.reverse() })
+  } catch {
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow runs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API Route for Simulating Workflows
+ *
+ * This module dry-runs a version of a workflow's definition against stub
+ * agents on a virtual clock, and returns its runs and the events published
+ * along the way. The workflow itself is left as it is.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  getTemplateRegistry,
+  getWorkflowOrchestrator,
+} from '@/lib/agents/runtime'
+import {
+  simulateWorkflow,
+  simulationOptionsSchema,
+} from '@/lib/agents/workflow/simulation'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowVersionError } from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const simulationRequestSchema = simulationOptionsSchema.extend({
+  version: z.number().int().positive().optional(),
+})
+
+// POST /api/workflows/:id/simulate - Simulate a workflow, of the version it
+// runs unless another is given
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const parsed = simulationRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid simulation', errors: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = orchestrator.getWorkflow(id)
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+    const { version, ...options } = parsed.data
+    const { definition } = orchestrator.getVersion(
+      id,
+      version ?? workflow.version
+    )
+
+    const simulation = await simulateWorkflow(definition, {
+      ...options,
+      templates: await getTemplateRegistry(),
+    })
+    return NextResponse.json(simulation)
+  } catch (error) {
+    if (
+      error instanceof WorkflowTransitionError ||
+      error instanceof WorkflowVersionError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to simulate workflow' },
+      { status: 500 }
+    )
+  }
+}
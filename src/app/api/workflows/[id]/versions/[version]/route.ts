@@ -0,0 +1,37 @@
+/**
+ * API Route for a Workflow Version
+ *
+ * This module provides the endpoint for reading one version of a workflow's
+ * definition.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowVersionError } from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>
+}
+
+// GET /api/workflows/:id/versions/:version - Get a version of a workflow's
+// definition
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, version } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+
+    return NextResponse.json(orchestrator.getVersion(id, Number(version)))
+  } catch (error) {
+    if (
+      error instanceof WorkflowTransitionError ||
+      error instanceof WorkflowVersionError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow version' },
+      { status: 500 }
+    )
+  }
+}
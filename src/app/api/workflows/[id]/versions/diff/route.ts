@@ -0,0 +1,58 @@
+/**
+ * API Route for Diffing Workflow Versions
+ *
+ * This module compares two versions of a workflow's definition, matching
+ * steps up across the versions that renamed them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+import { WorkflowVersionError } from '@/lib/agents/workflow/versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const STATUS_BY_REASON = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+}
+
+// GET /api/workflows/:id/versions/diff?from=1&to=2 - Diff two versions of a
+// workflow's definition, by default the latest and the one before it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const searchParams = request.nextUrl.searchParams
+    const [from, to] = ['from', 'to'].map((name) => {
+      const value = searchParams.get(name)
+      return value === null ? undefined : Number(value)
+    })
+
+    if ([from, to].some((v) => v !== undefined && !Number.isInteger(v))) {
+      return NextResponse.json(
+        { error: 'from and to must be version numbers' },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    return NextResponse.json(orchestrator.diffVersions(id, from, to))
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof WorkflowVersionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: STATUS_BY_REASON[error.reason] }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to diff workflow versions' },
+      { status: 500 }
+    )
+  }
+}
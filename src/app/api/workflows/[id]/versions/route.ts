@@ -0,0 +1,37 @@
+/**
+ * API Route for Workflow Versions
+ *
+ * This module lists the numbered versions of a workflow's definition.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { WorkflowTransitionError } from '@/lib/agents/workflow/transitions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/workflows/:id/versions - List the versions of a workflow's
+// definition, newest first, with the version the workflow runs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const orchestrator = await getWorkflowOrchestrator()
+    const versions = orchestrator.listVersions(id)
+    const workflow = orchestrator.getWorkflow(id)
+
+    return NextResponse.json({
+      version: workflow?.version,
+      versions: versions.reverse(),
+    })
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow versions' },
+      { status: 500 }
+    )
+  }
+}
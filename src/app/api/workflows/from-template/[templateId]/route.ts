@@ -0,0 +1,83 @@
+/**
+ * API Route for Creating Workflows from Templates
+ *
+ * This module provides the endpoint that instantiates a workflow template:
+ * the parameters are checked against the template's parameters and
+ * substituted into its definition, and the resulting workflow is created and
+ * optionally started.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import { TemplateError } from '@/lib/agents/workflow/templates'
+import { WorkflowValidationError } from '@/lib/agents/workflow/validation'
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>
+}
+
+const STATUS_BY_REASON: Record<TemplateError['reason'], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+}
+
+// POST /api/workflows/from-template/:templateId - Create a workflow from a
+// template. Body: { params?, version?, start? }; the latest version is used
+// unless one is given, and the workflow is started when `start` is true.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { templateId } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (
+      body.params !== undefined &&
+      (body.params === null ||
+        typeof body.params !== 'object' ||
+        Array.isArray(body.params))
+    ) {
+      return NextResponse.json(
+        { error: 'params must be an object' },
+        { status: 400 }
+      )
+    }
+    if (
+      body.version !== undefined &&
+      (!Number.isInteger(body.version) || body.version < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const orchestrator = await getWorkflowOrchestrator()
+    let workflow = await orchestrator.createWorkflowFromTemplate(
+      templateId,
+      body.params ?? {},
+      { version: body.version }
+    )
+    if (body.start === true) {
+      workflow = await orchestrator.controlWorkflow(workflow.id, 'start')
+    }
+
+    return NextResponse.json(workflow, { status: 201 })
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: STATUS_BY_REASON[error.reason] }
+      )
+    }
+    if (error instanceof WorkflowValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid workflow definition', errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to create workflow from template' },
+      { status: 500 }
+    )
+  }
+}
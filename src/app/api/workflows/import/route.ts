@@ -0,0 +1,38 @@
+/**
+ * API Route for Importing Workflows
+ *
+ * This module creates a workflow from a YAML or JSON workflow file, such as
+ * one kept in git next to the code or downloaded from the workflow editor.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowOrchestrator } from '@/lib/agents/runtime'
+import {
+  WorkflowFileError,
+  parseWorkflowFile,
+} from '@/lib/agents/workflow/files'
+
+// POST /api/workflows/import - Create a workflow from the workflow file sent
+// as the request body. Responds 400 with line-numbered `errors` when the file
+// isn't a valid workflow.
+export async function POST(request: NextRequest) {
+  try {
+    const definition = parseWorkflowFile(await request.text())
+
+    const orchestrator = await getWorkflowOrchestrator()
+    const workflow = await orchestrator.createWorkflow(definition)
+
+    return NextResponse.json(workflow, { status: 201 })
+  } catch (error) {
+    if (error instanceof WorkflowFileError) {
+      return NextResponse.json(
+        { error: 'Invalid workflow file', errors: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to import workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -9,6 +9,173 @@
 import { useState, useEffect } from 'react'
 // import Image from 'next/image'
 import { AgentType, AgentStatus } from '@/lib/agents'
+import type { AgentPoolStatus } from '@/lib/agents/pool'
+
+// Workflow as listed by the API
+interface WorkflowSummary {
+  id: string
+  name: string
+  status: string
+  steps: Array<{
+    id: string
+    name: string
+    agentType: string
+    status: string
+  }>
+}
+
+// Event as streamed by /api/events
+interface StreamedEvent {
+  id: number
+  event: string
+  data: Record<string, unknown>
+  timestamp: string
+}
+
+// Run of a workflow with its step timeline, as returned by the API
+interface RunSummary {
+  id: string
+  status: string
+  replayOf?: string
+  fromStep?: string
+  startedAt: string
+  completedAt?: string
+  steps: Array<{
+    stepId: string
+    name: string
+    status: string
+    queuedAt?: string
+    startedAt?: string
+    finishedAt?: string
+    reused?: boolean
+    approval?: {
+      status: string
+      decidedBy?: string
+      comment?: string
+    }
+    map?: { total: number; completed: number; failed: number }
+    compensation?: {
+      status: string
+      action: string
+      result?: { error?: string }
+    }
+  }>
+}
+
+// Approval requested by an approval step, as listed by the API
+interface ApprovalSummary {
+  id: string
+  workflowId: string
+  workflowName: string
+  stepId: string
+  title: string
+  message?: string
+  assignees: string[]
+  status: string
+  requestedAt: string
+  expiresAt?: string
+}
+
+// Number of events kept in the activity log
+const ACTIVITY_LIMIT = 50
+
+const STEP_BAR_COLORS: Record<string, string> = {
+  in_progress: 'bg-blue-500',
+  waiting: 'bg-yellow-500',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+}
+
+// Gantt chart of a run: each step's bar spans from being queued to
+// finishing, with the time spent waiting for an agent drawn lighter
+function RunTimeline({ run }: { run: RunSummary }) {
+  const start = new Date(run.startedAt).getTime()
+  const end = run.completedAt
+    ? new Date(run.completedAt).getTime()
+    : Date.now()
+  const span = Math.max(end - start, 1)
+  const offset = (time: number) =>
+    `${Math.min(Math.max(((time - start) / span) * 100, 0), 100)}%`
+
+  return (
+    <ul className='text-sm'>
+      {run.steps.map((step) => {
+        const queued = step.queuedAt
+          ? new Date(step.queuedAt).getTime()
+          : undefined
+        const started = step.startedAt
+          ? new Date(step.startedAt).getTime()
+          : undefined
+        const finished = step.finishedAt
+          ? new Date(step.finishedAt).getTime()
+          : end
+        return (
+          <li key={step.stepId} className='flex items-center py-1'>
+            <span className='w-40 truncate'>{step.name || step.stepId}</span>
+            <div className='relative flex-1 h-4 bg-gray-100 rounded'>
+              {step.reused ? (
+                <span className='absolute left-1 text-xs text-gray-600'>
+                  reused ({step.status})
+                </span>
+              ) : queued ? (
+                <>
+                  <div
+                    className={`absolute h-4 rounded opacity-40 ${
+                      STEP_BAR_COLORS[step.status] ?? 'bg-gray-400'
+                    }`}
+                    style={{
+                      left: offset(queued),
+                      right: `calc(100% - ${offset(finished)})`,
+                    }}
+                  />
+                  {started && (
+                    <div
+                      className={`absolute h-4 rounded ${
+                        STEP_BAR_COLORS[step.status] ?? 'bg-gray-400'
+                      }`}
+                      style={{
+                        left: offset(started),
+                        right: `calc(100% - ${offset(finished)})`,
+                      }}
+                    />
+                  )}
+                </>
+              ) : (
+                <span className='absolute left-1 text-xs text-gray-600'>
+                  {step.status}
+                </span>
+              )}
+            </div>
+            {step.approval && (
+              <span
+                className='w-40 ml-2 truncate text-xs text-gray-600'
+                title={step.approval.comment}
+              >
+                {step.approval.status}
+                {step.approval.decidedBy && ` by ${step.approval.decidedBy}`}
+              </span>
+            )}
+            {step.map && (
+              <span className='w-40 ml-2 truncate text-xs text-gray-600'>
+                {step.map.completed}/{step.map.total} items
+                {step.map.failed > 0 && `, ${step.map.failed} failed`}
+              </span>
+            )}
+            {step.compensation && (
+              <span
+                className='w-40 ml-2 truncate text-xs text-gray-600'
+                title={step.compensation.result?.error}
+              >
+                {step.compensation.action}:{' '}
+                {step.compensation.status.replace('_', ' ')}
+              </span>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
 
 // Dashboard component
 export default function Dashboard() {
@@ -22,13 +189,17 @@ export default function Dashboard() {
       capabilities?: string[]
     }>
   >([])
-  const [workflows] = useState<
-    Array<{
-      id: string
-      name: string
-      status: string
-    }>
-  >([])
+  const [pools, setPools] = useState<AgentPoolStatus[]>([])
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([])
+  const [activity, setActivity] = useState<StreamedEvent[]>([])
+  const [selectedWorkflow, setSelectedWorkflow] = useState<string | null>(null)
+  const [runs, setRuns] = useState<RunSummary[]>([])
+  // Bumped by run progress events to reload the selected workflow's runs
+  const [runsVersion, setRunsVersion] = useState(0)
+  const [approvals, setApprovals] = useState<ApprovalSummary[]>([])
+  // Assignee the inbox decides as, and the comment typed for each approval
+  const [approver, setApprover] = useState('')
+  const [comments, setComments] = useState<Record<string, string>>({})
   const [activeTab, setActiveTab] = useState('agents')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -42,6 +213,7 @@ export default function Dashboard() {
         if (!response.ok) throw new Error('Failed to fetch agents')
         const data = await response.json()
         setAgents(data.agents || [])
+        setPools(data.pools || [])
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred')
       } finally {
@@ -52,6 +224,166 @@ export default function Dashboard() {
     fetchAgents()
   }, [])
 
+  // Follow step progress and agent activity from the event stream
+  useEffect(() => {
+    const fetchWorkflows = async () => {
+      try {
+        const response = await fetch('/api/workflows')
+        if (!response.ok) throw new Error('Failed to fetch workflows')
+        const data = await response.json()
+        setWorkflows(data.workflows || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    }
+
+    const fetchApprovals = async () => {
+      try {
+        const response = await fetch('/api/approvals?status=pending')
+        if (!response.ok) throw new Error('Failed to fetch approvals')
+        const data = await response.json()
+        setApprovals(data.approvals || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    }
+
+    const fetchPools = async () => {
+      const response = await fetch('/api/agents')
+      if (response.ok) {
+        const data = await response.json()
+        setPools(data.pools || [])
+      }
+    }
+
+    const setStepStatus = (event: StreamedEvent, status: string) => {
+      setWorkflows((current) =>
+        current.map((workflow) =>
+          workflow.id !== event.data.workflowId
+            ? workflow
+            : {
+                ...workflow,
+                steps: workflow.steps.map((step) =>
+                  step.id === event.data.stepId ? { ...step, status } : step
+                ),
+              }
+        )
+      )
+    }
+
+    fetchWorkflows()
+    fetchApprovals()
+
+    // The browser reconnects with Last-Event-ID, so no events are lost
+    const source = new EventSource('/api/events')
+    source.onmessage = (message) => {
+      const event: StreamedEvent = JSON.parse(message.data)
+      setActivity((current) => [event, ...current].slice(0, ACTIVITY_LIMIT))
+
+      if (
+        event.event.startsWith('workflow:') ||
+        event.event.startsWith('approval:')
+      ) {
+        setRunsVersion((version) => version + 1)
+      }
+
+      switch (event.event) {
+        case 'workflow:step_started':
+          setStepStatus(event, 'in_progress')
+          break
+        case 'workflow:step_completed':
+          setStepStatus(event, event.data.success ? 'completed' : 'failed')
+          break
+        case 'workflow:step_skipped':
+          setStepStatus(event, 'skipped')
+          break
+        case 'approval:requested':
+          setStepStatus(event, 'waiting')
+          fetchApprovals()
+          break
+        case 'approval:decided':
+        case 'approval:expired':
+          fetchApprovals()
+          break
+        case 'workflow:created':
+        case 'workflow:completed':
+        case 'workflow:cancelled':
+        case 'workflow:compensating':
+        case 'workflow:compensated':
+        case 'workflow:recovered':
+          fetchWorkflows()
+          break
+        case 'agent:task_started':
+        case 'dispatch:settled':
+          fetchPools()
+          break
+      }
+    }
+
+    return () => source.close()
+  }, [])
+
+  // Load the runs of the selected workflow
+  useEffect(() => {
+    if (!selectedWorkflow) {
+      setRuns([])
+      return
+    }
+
+    const fetchRuns = async () => {
+      try {
+        const response = await fetch(`/api/workflows/${selectedWorkflow}/runs`)
+        if (!response.ok) throw new Error('Failed to fetch workflow runs')
+        const data = await response.json()
+        setRuns(data.runs || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    }
+
+    fetchRuns()
+  }, [selectedWorkflow, runsVersion])
+
+  // Replay a run from its first failed step
+  const replayRun = async (workflowId: string, runId: string) => {
+    try {
+      const response = await fetch(
+        `/api/workflows/${workflowId}/runs/${runId}/replay`,
+        { method: 'POST' }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to replay run')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  // Approve or reject an approval as the selected assignee
+  const decideApproval = async (
+    approvalId: string,
+    decision: 'approve' | 'reject'
+  ) => {
+    try {
+      const response = await fetch(`/api/approvals/${approvalId}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          by: approver,
+          comment: comments[approvalId] || undefined,
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || `Failed to ${decision} approval`)
+      }
+      setApprovals((current) => current.filter((a) => a.id !== approvalId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
   // Create a new agent
   const createAgent = async (type: string) => {
     try {
@@ -112,6 +444,18 @@ export default function Dashboard() {
                   Workflows
                 </button>
               </li>
+              <li>
+                <button
+                  onClick={() => setActiveTab('approvals')}
+                  className={`px-3 py-2 rounded-md ${
+                    activeTab === 'approvals'
+                      ? 'bg-background text-foreground'
+                      : ''
+                  }`}
+                >
+                  Approvals{approvals.length > 0 && ` (${approvals.length})`}
+                </button>
+              </li>
               <li>
                 <button
                   onClick={() => setActiveTab('monitoring')}
@@ -227,8 +571,171 @@ export default function Dashboard() {
               </p>
             ) : (
               <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
-                {/* Workflow cards would be rendered here */}
-                <p>Workflow list would be displayed here</p>
+                {workflows.map((workflow) => (
+                  <div
+                    key={workflow.id}
+                    className='border rounded-lg p-4 shadow-sm'
+                  >
+                    <div className='flex justify-between items-start'>
+                      <h3 className='font-medium text-lg'>{workflow.name}</h3>
+                      <span className='px-2 py-1 text-xs rounded-full bg-gray-200 text-gray-800'>
+                        {workflow.status}
+                      </span>
+                    </div>
+                    <p className='mt-1 text-sm text-gray-600 dark:text-gray-400'>
+                      {
+                        workflow.steps.filter(
+                          (step) =>
+                            step.status === 'completed' ||
+                            step.status === 'skipped'
+                        ).length
+                      }{' '}
+                      of {workflow.steps.length} steps done
+                    </p>
+                    <ul className='mt-3 text-sm'>
+                      {workflow.steps.map((step) => (
+                        <li key={step.id} className='flex justify-between'>
+                          <span>
+                            {step.name}{' '}
+                            <span className='text-gray-600 dark:text-gray-400'>
+                              ({step.agentType})
+                            </span>
+                          </span>
+                          <span
+                            className={
+                              step.status === 'in_progress'
+                                ? 'text-blue-700'
+                                : step.status === 'waiting'
+                                ? 'text-yellow-700'
+                                : step.status === 'completed'
+                                ? 'text-green-700'
+                                : step.status === 'failed'
+                                ? 'text-red-700'
+                                : 'text-gray-600'
+                            }
+                          >
+                            {step.status.replace('_', ' ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={() =>
+                        setSelectedWorkflow(
+                          selectedWorkflow === workflow.id ? null : workflow.id
+                        )
+                      }
+                      className='mt-3 text-sm underline'
+                    >
+                      {selectedWorkflow === workflow.id
+                        ? 'Hide runs'
+                        : 'Show runs'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selectedWorkflow && (
+              <div className='mt-6 border rounded-lg p-4 shadow-sm'>
+                <h3 className='font-medium mb-4'>Runs</h3>
+                {runs.length === 0 ? (
+                  <p>This workflow hasn&apos;t run yet</p>
+                ) : (
+                  runs.map((run) => (
+                    <div key={run.id} className='mb-6'>
+                      <div className='flex justify-between items-center mb-2'>
+                        <p className='text-sm'>
+                          {new Date(run.startedAt).toLocaleString()} -{' '}
+                          {run.status}
+                          {run.replayOf && ` (replayed from ${run.fromStep})`}
+                        </p>
+                        {run.status === 'failed' && (
+                          <button
+                            onClick={() => replayRun(selectedWorkflow, run.id)}
+                            className='px-2 py-1 text-sm bg-foreground text-background rounded-md'
+                          >
+                            Replay from failed step
+                          </button>
+                        )}
+                      </div>
+                      <RunTimeline run={run} />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'approvals' && (
+          <div>
+            <div className='flex justify-between items-center mb-6'>
+              <h2 className='text-xl font-semibold'>Approvals Inbox</h2>
+              <input
+                value={approver}
+                onChange={(e) => setApprover(e.target.value)}
+                placeholder='Deciding as (assignee)'
+                className='px-3 py-2 border rounded-md text-sm'
+              />
+            </div>
+
+            {approvals.length === 0 ? (
+              <p>No approvals are waiting for a decision</p>
+            ) : (
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                {approvals.map((approval) => (
+                  <div
+                    key={approval.id}
+                    className='border rounded-lg p-4 shadow-sm'
+                  >
+                    <h3 className='font-medium text-lg'>{approval.title}</h3>
+                    <p className='text-sm text-gray-600 dark:text-gray-400'>
+                      {approval.workflowName} - step {approval.stepId}
+                    </p>
+                    {approval.message && (
+                      <p className='mt-2 text-sm'>{approval.message}</p>
+                    )}
+                    <p className='mt-2 text-sm text-gray-600 dark:text-gray-400'>
+                      Assignees: {approval.assignees.join(', ')}
+                    </p>
+                    <p className='text-sm text-gray-600 dark:text-gray-400'>
+                      Requested{' '}
+                      {new Date(approval.requestedAt).toLocaleString()}
+                      {approval.expiresAt &&
+                        `, expires ${new Date(
+                          approval.expiresAt
+                        ).toLocaleString()}`}
+                    </p>
+                    <textarea
+                      value={comments[approval.id] ?? ''}
+                      onChange={(e) =>
+                        setComments((current) => ({
+                          ...current,
+                          [approval.id]: e.target.value,
+                        }))
+                      }
+                      placeholder='Comment'
+                      className='mt-3 w-full px-2 py-1 border rounded-md text-sm'
+                    />
+                    <div className='mt-2 flex space-x-2'>
+                      <button
+                        onClick={() => decideApproval(approval.id, 'approve')}
+                        disabled={!approval.assignees.includes(approver)}
+                        className='px-3 py-1 text-sm bg-green-600 text-white rounded-md disabled:opacity-50'
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => decideApproval(approval.id, 'reject')}
+                        disabled={!approval.assignees.includes(approver)}
+                        className='px-3 py-1 text-sm bg-red-600 text-white rounded-md disabled:opacity-50'
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -244,16 +751,69 @@ export default function Dashboard() {
               </div>
               <div className='border rounded-lg p-4 shadow-sm'>
                 <h3 className='font-medium'>Active Workflows</h3>
-                <p className='text-3xl font-bold mt-2'>{workflows.length}</p>
+                <p className='text-3xl font-bold mt-2'>
+                  {
+                    workflows.filter((workflow) => workflow.status === 'active')
+                      .length
+                  }
+                </p>
               </div>
               <div className='border rounded-lg p-4 shadow-sm'>
                 <h3 className='font-medium'>Tasks Completed</h3>
-                <p className='text-3xl font-bold mt-2'>0</p>
+                <p className='text-3xl font-bold mt-2'>
+                  {pools.reduce((total, pool) => total + pool.completed, 0)}
+                </p>
               </div>
             </div>
+            <div className='mt-6 border rounded-lg p-4 shadow-sm'>
+              <h3 className='font-medium mb-4'>Agent Pools</h3>
+              {pools.length === 0 ? (
+                <p>No agent pools running</p>
+              ) : (
+                <table className='w-full text-sm'>
+                  <thead>
+                    <tr className='text-left'>
+                      <th className='py-1'>Agent Type</th>
+                      <th className='py-1'>Status</th>
+                      <th className='py-1'>In Flight</th>
+                      <th className='py-1'>Queued</th>
+                      <th className='py-1'>Completed</th>
+                      <th className='py-1'>Failed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pools.map((pool) => (
+                      <tr key={pool.type} className='border-t'>
+                        <td className='py-1'>{pool.type.replace('_', ' ')}</td>
+                        <td className='py-1'>{pool.status}</td>
+                        <td className='py-1'>
+                          {pool.inFlight} / {pool.concurrency}
+                        </td>
+                        <td className='py-1'>{pool.queued}</td>
+                        <td className='py-1'>{pool.completed}</td>
+                        <td className='py-1'>{pool.failed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
             <div className='mt-6 border rounded-lg p-4 shadow-sm'>
               <h3 className='font-medium mb-4'>System Activity</h3>
-              <p>Activity logs would be displayed here</p>
+              {activity.length === 0 ? (
+                <p>No activity yet</p>
+              ) : (
+                <ul className='text-sm font-mono'>
+                  {activity.map((event) => (
+                    <li key={event.id} className='py-1 border-t'>
+                      {new Date(event.timestamp).toLocaleTimeString()}{' '}
+                      {event.event}
+                      {typeof event.data.workflowId === 'string' &&
+                        ` (workflow ${event.data.workflowId})`}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         )}
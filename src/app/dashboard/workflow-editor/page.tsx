@@ -2,14 +2,32 @@
  * Workflow Editor Component
  *
  * This component provides a visual interface for creating and editing workflows
- * in the AI-powered service business automation platform.
+ * in the AI-powered service business automation platform. Workflows can be
+ * downloaded as YAML files and uploaded again, to keep them in git.
  */
 
 'use client'
 
-import { useState, useEffect, SetStateAction } from 'react'
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  ChangeEvent,
+  SetStateAction,
+} from 'react'
 import { useRouter } from 'next/navigation'
 import { AgentType } from '@/lib/agents'
+import {
+  validateWorkflowDefinition,
+  WorkflowValidationIssue,
+} from '@/lib/agents/workflow/validation'
+import {
+  parseWorkflowFile,
+  stringifyWorkflowFile,
+  WorkflowFileError,
+  WorkflowFileIssue,
+} from '@/lib/agents/workflow/files'
 
 export default function WorkflowEditor() {
   const router = useRouter()
@@ -41,6 +59,33 @@ export default function WorkflowEditor() {
   } | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<Error | null>(null)
+  const [showValidation, setShowValidation] = useState(false)
+  const [serverErrors, setServerErrors] = useState<WorkflowValidationIssue[]>(
+    []
+  )
+  const [fileErrors, setFileErrors] = useState<WorkflowFileIssue[]>([])
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  // Validate the workflow as it is edited; errors are shown once the user
+  // has tried to save
+  const validation = useMemo(
+    () => validateWorkflowDefinition(workflow),
+    [workflow]
+  )
+  const validationErrors = showValidation
+    ? serverErrors.length > 0
+      ? serverErrors
+      : validation.errors
+    : []
+  const workflowErrors = validationErrors.filter((issue) => !issue.stepId)
+  const getStepErrors = (stepId: string) =>
+    validationErrors.filter((issue) => issue.stepId === stepId)
+
+  // Server and file errors describe the last saved or uploaded version only
+  useEffect(() => {
+    setServerErrors([])
+    setFileErrors([])
+  }, [workflow])
 
   // Fetch available agents on component mount
   useEffect(() => {
@@ -132,6 +177,48 @@ export default function WorkflowEditor() {
     }
   }
 
+  // Download the workflow as a YAML workflow file
+  const downloadWorkflow = () => {
+    const file = new Blob(
+      [
+        stringifyWorkflowFile({
+          ...workflow,
+          description: workflow.description || 'Automated business workflow',
+        }),
+      ],
+      { type: 'application/yaml' }
+    )
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(file)
+    link.download = `${
+      workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'workflow'
+    }.yaml`
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  // Load a YAML or JSON workflow file into the editor
+  const uploadWorkflow = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const definition = parseWorkflowFile(await file.text())
+      setWorkflow(definition as typeof workflow)
+      setCurrentStep(null)
+      setShowValidation(false)
+      setError(null)
+    } catch (err) {
+      if (err instanceof WorkflowFileError) {
+        setFileErrors(err.errors)
+        setError(new Error(`${file.name} is not a valid workflow file`))
+        return
+      }
+      setError(new Error(`Failed to read ${file.name}`))
+    }
+  }
+
   // Save the workflow
   const saveWorkflow = async () => {
     if (!workflow.name) {
@@ -144,6 +231,12 @@ export default function WorkflowEditor() {
       return
     }
 
+    setShowValidation(true)
+    if (!validation.valid) {
+      setError(new Error('Fix the highlighted steps before saving'))
+      return
+    }
+
     try {
       setLoading(true)
       const response = await fetch('/api/workflows', {
@@ -152,6 +245,11 @@ export default function WorkflowEditor() {
         body: JSON.stringify(workflow),
       })
 
+      if (response.status === 400) {
+        const body = await response.json()
+        setServerErrors(body.errors || [])
+        throw new Error(body.error || 'Invalid workflow definition')
+      }
       if (!response.ok) throw new Error('Failed to save workflow')
 
       await response.json()
@@ -177,6 +275,26 @@ export default function WorkflowEditor() {
             >
               Cancel
             </button>
+            <input
+              ref={fileInput}
+              type='file'
+              accept='.yaml,.yml,.json'
+              onChange={uploadWorkflow}
+              className='hidden'
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className='px-3 py-2 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-800'
+            >
+              Upload
+            </button>
+            <button
+              onClick={downloadWorkflow}
+              disabled={workflow.steps.length === 0}
+              className='px-3 py-2 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50'
+            >
+              Download
+            </button>
             <button
               onClick={saveWorkflow}
               disabled={loading}
@@ -190,6 +308,13 @@ export default function WorkflowEditor() {
         {error && (
           <div className='bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4'>
             {error.message}
+            {[...fileErrors, ...workflowErrors].length > 0 && (
+              <ul className='mt-2 list-disc list-inside text-sm'>
+                {[...fileErrors, ...workflowErrors].map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -249,7 +374,15 @@ export default function WorkflowEditor() {
                       }`}
                       onClick={() => setCurrentStep(step)}
                     >
-                      <span>{step.name}</span>
+                      <span>
+                        {step.name}
+                        {getStepErrors(step.id).length > 0 && (
+                          <span className='block text-xs text-red-600'>
+                            {getStepErrors(step.id).length} error
+                            {getStepErrors(step.id).length > 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </span>
                       <button
                         onClick={(e) => {
                           e.stopPropagation()
@@ -273,6 +406,13 @@ export default function WorkflowEditor() {
                 <h2 className='text-xl font-semibold mb-4'>
                   Edit Step: {currentStep.name}
                 </h2>
+                {getStepErrors(currentStep.id).length > 0 && (
+                  <ul className='bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 text-sm list-disc list-inside'>
+                    {getStepErrors(currentStep.id).map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
                 <div className='space-y-4'>
                   <div>
                     <label className='block text-sm font-medium mb-1'>
@@ -0,0 +1,20 @@
+/**
+ * Server Instrumentation
+ *
+ * Next.js calls `register` once when the server starts. The workflow
+ * scheduler, trigger manager and webhook publisher are started here so
+ * schedules fire, missed runs are caught up, triggers listen for events and
+ * webhook subscriptions receive them without waiting for a request.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getScheduler, getTriggerManager, getWebhookPublisher } =
+      await import('./lib/agents/runtime')
+    await Promise.all([
+      getScheduler(),
+      getTriggerManager(),
+      getWebhookPublisher(),
+    ])
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Clock
+ *
+ * This module defines the clock that time-driven parts of the platform, such
+ * as the workflow scheduler, read the time and set timers through. The system
+ * clock uses real time; the virtual clock only moves when it is advanced, so
+ * schedules can be exercised without waiting.
+ */
+
+// Handle returned by Clock.setTimeout
+export type ClockTimer = { readonly id: number }
+
+// Clock Interface
+export interface Clock {
+  now(): Date
+  setTimeout(callback: () => void, delayMs: number): ClockTimer
+  clearTimeout(timer: ClockTimer): void
+}
+
+// Longest delay Node.js timers accept
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+export class SystemClock implements Clock {
+  private timers: Map<number, NodeJS.Timeout> = new Map()
+  private nextId = 1
+
+  now(): Date {
+    return new Date()
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    const timer = { id: this.nextId++ }
+    this.timers.set(
+      timer.id,
+      setTimeout(
+        () => {
+          this.timers.delete(timer.id)
+          callback()
+        },
+        Math.min(Math.max(delayMs, 0), MAX_TIMER_DELAY_MS)
+      )
+    )
+    return timer
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    clearTimeout(this.timers.get(timer.id))
+    this.timers.delete(timer.id)
+  }
+}
+
+export const systemClock: Clock = new SystemClock()
+
+// Clock whose time only changes through advance() and advanceTo(). Timers
+// fire in order of their due time as the clock passes it.
+export class VirtualClock implements Clock {
+  private time: number
+  private timers: Array<{ id: number; dueAt: number; callback: () => void }> =
+    []
+  private nextId = 1
+
+  constructor(start: Date = new Date()) {
+    this.time = start.getTime()
+  }
+
+  now(): Date {
+    return new Date(this.time)
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    const timer = { id: this.nextId++ }
+    this.timers.push({
+      id: timer.id,
+      dueAt: this.time + Math.max(delayMs, 0),
+      callback,
+    })
+    return timer
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter((t) => t.id !== timer.id)
+  }
+
+  // Due time of the next timer, or undefined when none is set
+  nextTimerAt(): Date | undefined {
+    if (this.timers.length === 0) {
+      return undefined
+    }
+    return new Date(Math.min(...this.timers.map((t) => t.dueAt)))
+  }
+
+  // Move the clock forward, firing the timers that come due. Callbacks run
+  // with the clock set to their due time, and the promise callbacks they
+  // queue run before the next timer fires.
+  async advance(delayMs: number): Promise<void> {
+    await this.advanceTo(new Date(this.time + delayMs))
+  }
+
+  async advanceTo(target: Date): Promise<void> {
+    const targetTime = target.getTime()
+
+    for (;;) {
+      const next = this.timers
+        .filter((t) => t.dueAt <= targetTime)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0]
+      if (!next) {
+        break
+      }
+      this.timers = this.timers.filter((t) => t.id !== next.id)
+      this.time = Math.max(this.time, next.dueAt)
+      next.callback()
+      await settle()
+    }
+
+    this.time = Math.max(this.time, targetTime)
+  }
+}
+
+// Let pending promise callbacks and I/O run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
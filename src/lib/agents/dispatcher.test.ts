@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { AgentType, BaseAgent } from './index'
+import { MemoryEntityRepository } from '../db/repository'
+import type { Agent, Task } from '../db/schema'
+import { TaskDispatchError, TaskDispatcher } from './dispatcher'
+
+const billingAgent = {
+  id: 'agent-billing',
+  type: AgentType.BILLING,
+} as BaseAgent
+
+describe('TaskDispatcher.resolveAgentType', () => {
+  let agents: MemoryEntityRepository<Agent>
+  let dispatcher: TaskDispatcher
+
+  beforeEach(() => {
+    agents = new MemoryEntityRepository<Agent>()
+    dispatcher = new TaskDispatcher(
+      new MemoryEntityRepository<Task>(),
+      agents,
+      (agentId) => (agentId === billingAgent.id ? billingAgent : undefined)
+    )
+  })
+
+  function resolveAgentId(agentId: string): Promise<AgentType> {
+    return dispatcher.resolveAgentType({ agentId, type: 'invoice_generation' })
+  }
+
+  it('routes an agent id to the running agent with that id', async () => {
+    await expect(resolveAgentId(billingAgent.id)).resolves.toBe(
+      AgentType.BILLING
+    )
+  })
+
+  it('rejects an agent that was created but is not running', async () => {
+    const now = new Date()
+    await agents.create({
+      id: 'agent-saved',
+      type: AgentType.BILLING,
+      name: 'Billing',
+      description: '',
+      capabilities: [],
+      config: {},
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    const rejected = expect(resolveAgentId('agent-saved')).rejects
+    await rejected.toBeInstanceOf(TaskDispatchError)
+    await rejected.toMatchObject({ reason: 'conflict' })
+  })
+
+  it('rejects an agent id nobody has', async () => {
+    await expect(resolveAgentId('agent-missing')).rejects.toMatchObject({
+      reason: 'not_found',
+    })
+  })
+
+  it('falls back to the pool whose capability matches the type', async () => {
+    await expect(
+      dispatcher.resolveAgentType({ type: 'invoice_generation' })
+    ).resolves.toBe(AgentType.BILLING)
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Task Dispatcher
+ *
+ * This module routes tasks created through the API to a running agent pool,
+ * chosen by agent id, agent type or required capability, and keeps the task
+ * record up to date as the task moves from pending to in progress to
+ * completed or failed.
+ */
+
+import {
+  AGENT_CAPABILITIES,
+  AgentTaskResult,
+  AgentType,
+  BaseAgent,
+  Unsubscribe,
+  agentEventBus,
+} from './index'
+import type { Agent, Task } from '../db/schema'
+import type { EntityRepository } from '../db/repository'
+
+// How a task names the agent that should run it
+export interface TaskTarget {
+  agentId?: string | null
+  agentType?: string | null
+  capability?: string | null
+  // Task type, used as the capability when nothing else is given
+  type: string
+}
+
+// Error raised when no running agent can take a task: the agent named
+// doesn't exist, isn't running, or nothing running handles the task
+export class TaskDispatchError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'conflict' | 'invalid'
+  ) {
+    super(message)
+    this.name = 'TaskDispatchError'
+  }
+}
+
+export function isTaskSettled(task: Task): boolean {
+  return task.status === 'completed' || task.status === 'failed'
+}
+
+// Statuses a task can move to from each status; settled tasks stay settled
+const TASK_TRANSITIONS: Record<Task['status'], Task['status'][]> = {
+  pending: ['in_progress', 'completed', 'failed'],
+  in_progress: ['completed', 'failed'],
+  completed: [],
+  failed: [],
+}
+
+export function canTransitionTask(
+  from: Task['status'],
+  to: Task['status']
+): boolean {
+  return from === to || TASK_TRANSITIONS[from].includes(to)
+}
+
+// Agent type whose pool supports a capability
+export function findAgentTypeForCapability(
+  capability: string
+): AgentType | undefined {
+  return (Object.keys(AGENT_CAPABILITIES) as AgentType[]).find(
+    (type) =>
+      type !== AgentType.WORKFLOW &&
+      AGENT_CAPABILITIES[type].includes(capability)
+  )
+}
+
+export class TaskDispatcher {
+  private unsubscribers: Unsubscribe[] = []
+
+  constructor(
+    private tasks: EntityRepository<Task>,
+    private agents: EntityRepository<Agent>,
+    // Running agent instance with an id
+    private findRunningAgent: (agentId: string) => BaseAgent | undefined
+  ) {}
+
+  initialize(): void {
+    if (this.unsubscribers.length > 0) {
+      return
+    }
+    this.unsubscribers.push(
+      agentEventBus.subscribeToEvent('agent:task_started', (event) => {
+        this.report(event.taskId, this.handleTaskStarted(event.taskId))
+      }),
+      agentEventBus.subscribeToEvent('result:*', (result) => {
+        this.report(result.taskId, this.handleTaskResult(result))
+      })
+    )
+  }
+
+  // Resolve the agent type whose pool runs a task. A task naming an agent id
+  // goes to the running agent with that id, which consumes its type's tasks.
+  async resolveAgentType(target: TaskTarget): Promise<AgentType> {
+    if (target.agentId) {
+      const running = this.findRunningAgent(target.agentId)
+      if (running) {
+        return running.type
+      }
+      if (await this.agents.get(target.agentId)) {
+        throw new TaskDispatchError(
+          `Agent ${target.agentId} is not running`,
+          'conflict'
+        )
+      }
+      throw new TaskDispatchError(
+        `Agent not found: ${target.agentId}`,
+        'not_found'
+      )
+    }
+
+    if (target.agentType) {
+      if (
+        !Object.values(AgentType).includes(target.agentType as AgentType) ||
+        target.agentType === AgentType.WORKFLOW
+      ) {
+        throw new TaskDispatchError(
+          `No agents of type ${target.agentType} are running`,
+          'invalid'
+        )
+      }
+      return target.agentType as AgentType
+    }
+
+    const capability = target.capability || target.type
+    const agentType = findAgentTypeForCapability(capability)
+    if (!agentType) {
+      throw new TaskDispatchError(
+        `No running agent has the capability ${capability}`,
+        'invalid'
+      )
+    }
+    return agentType
+  }
+
+  // Queue a saved task for the pool of an agent type
+  dispatch(task: Task, agentType: AgentType): void {
+    agentEventBus.publishEvent(`task:${agentType}`, {
+      id: task.id,
+      type: task.type,
+      priority: task.priority,
+      data: task.data,
+      createdAt: task.createdAt,
+      deadline: task.deadline ?? undefined,
+    })
+  }
+
+  // Wait until a task completes or fails. Resolves with the task as it is
+  // when it settles or the timeout passes, or null when it doesn't exist.
+  async waitForTask(taskId: string, timeoutMs: number): Promise<Task | null> {
+    let unsubscribe: Unsubscribe = () => {}
+    let timer: NodeJS.Timeout | undefined
+    const settled = new Promise<void>((resolve) => {
+      unsubscribe = agentEventBus.subscribeToEvent(
+        'dispatch:settled',
+        (event) => {
+          if (event.taskId === taskId) {
+            resolve()
+          }
+        }
+      )
+      timer = setTimeout(resolve, timeoutMs)
+    })
+
+    try {
+      // Subscribed before reading, so a result can't slip in between
+      const task = await this.tasks.get(taskId)
+      if (!task || isTaskSettled(task)) {
+        return task
+      }
+      await settled
+      return await this.tasks.get(taskId)
+    } finally {
+      unsubscribe()
+      clearTimeout(timer)
+    }
+  }
+
+  // Task updates started by a bus event have no caller to answer, so their
+  // failures are reported as an event
+  private report(taskId: string, work: Promise<void>): void {
+    work.catch((error) => {
+      agentEventBus.publishEvent('dispatch:failed', {
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+  }
+
+  private async handleTaskStarted(taskId: string): Promise<void> {
+    const task = await this.tasks.get(taskId)
+    if (!task || task.status !== 'pending') {
+      return
+    }
+    await this.tasks.update(taskId, {
+      status: 'in_progress',
+      startedAt: new Date(),
+    })
+  }
+
+  private async handleTaskResult(result: AgentTaskResult): Promise<void> {
+    const task = await this.tasks.get(result.taskId)
+    if (!task || isTaskSettled(task)) {
+      return
+    }
+
+    const status = result.success ? 'completed' : 'failed'
+    await this.tasks.update(task.id, {
+      status,
+      result: { ...result },
+      error: result.error ?? null,
+      startedAt: task.startedAt ?? result.completedAt,
+      completedAt: result.completedAt,
+    })
+    agentEventBus.publishEvent('dispatch:settled', {
+      taskId: task.id,
+      status,
+    })
+  }
+}
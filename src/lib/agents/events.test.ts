@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { isDomainEvent } from './events'
+
+describe('isDomainEvent', () => {
+  it('accepts events outside the reserved namespaces', () => {
+    expect(isDomainEvent('invoice:overdue')).toBe(true)
+    expect(isDomainEvent('lead:score:updated')).toBe(true)
+  })
+
+  it('rejects the platform namespaces', () => {
+    expect(isDomainEvent('workflow:create')).toBe(false)
+    expect(isDomainEvent('task:customer_service')).toBe(false)
+  })
+
+  it('rejects the webhook namespaces', () => {
+    expect(isDomainEvent('payment:succeeded')).toBe(false)
+    expect(isDomainEvent('booking:created')).toBe(false)
+    expect(isDomainEvent('message:received')).toBe(false)
+  })
+
+  it('rejects names without a namespace', () => {
+    expect(isDomainEvent('overdue')).toBe(false)
+  })
+})
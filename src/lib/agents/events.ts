@@ -0,0 +1,163 @@
+/**
+ * Event Log
+ *
+ * This module records the traffic on the agent event bus with sequential ids
+ * so that clients streaming events can filter them by workflow, agent type
+ * or event pattern, and resume after a reconnect from the last id they saw.
+ * Only the most recent events are kept.
+ */
+
+import { Unsubscribe, agentEventBus, compileEventPattern } from './index'
+import { WEBHOOK_SOURCES } from './webhooks/sources'
+
+// Event as recorded in the log
+export interface LoggedEvent {
+  id: number
+  name: string
+  data: unknown
+  timestamp: Date
+}
+
+// Which events a client wants to receive
+export interface EventFilter {
+  workflowId?: string
+  agentType?: string
+  // Event name or pattern, as accepted by subscribeToEvent
+  pattern?: string
+}
+
+const DEFAULT_CAPACITY = 1000
+
+// Namespaces of the platform's own events. Clients can't publish into them,
+// so a forged task or workflow command never reaches an agent, and triggers
+// can't listen to them, so a workflow never starts another in a loop.
+export const PLATFORM_NAMESPACES = [
+  'task',
+  'result',
+  'workflow',
+  'agent',
+  'dispatch',
+  'queue',
+  'schedule',
+  'trigger',
+  'webhook',
+  'approval',
+]
+
+// Namespaces of the events webhook sources publish, e.g. `payment`. Only a
+// signed delivery to /api/webhooks can publish into them.
+const WEBHOOK_NAMESPACES = [
+  ...new Set(
+    Object.values(WEBHOOK_SOURCES).flatMap((source) =>
+      Object.values(source.events).map(({ event }) => event.split(':')[0])
+    )
+  ),
+]
+
+const RESERVED_NAMESPACES = [...PLATFORM_NAMESPACES, ...WEBHOOK_NAMESPACES]
+
+const DOMAIN_EVENT_PATTERN = /^[\w-]+(:[\w-]+)+$/
+
+// Whether a client may publish an event, e.g. `invoice:overdue`: a name of
+// two or more segments outside the reserved namespaces
+export function isDomainEvent(name: string): boolean {
+  return (
+    DOMAIN_EVENT_PATTERN.test(name) &&
+    !RESERVED_NAMESPACES.includes(name.split(':')[0])
+  )
+}
+
+function field(data: unknown, key: string): unknown {
+  return data && typeof data === 'object'
+    ? (data as Record<string, unknown>)[key]
+    : undefined
+}
+
+// Workflow an event belongs to. Tasks carry it in their data.
+function eventWorkflowId(event: LoggedEvent): unknown {
+  return (
+    field(event.data, 'workflowId') ??
+    field(field(event.data, 'data'), 'workflowId')
+  )
+}
+
+// Agent type an event belongs to, from its payload or its task topic
+function eventAgentType(event: LoggedEvent): unknown {
+  const topic = event.name.startsWith('task:')
+    ? event.name
+    : field(event.data, 'topic')
+  if (typeof topic === 'string' && topic.startsWith('task:')) {
+    return topic.slice('task:'.length)
+  }
+  return field(event.data, 'agentType')
+}
+
+export function createEventFilter(
+  filter: EventFilter
+): (event: LoggedEvent) => boolean {
+  const pattern = filter.pattern ? compileEventPattern(filter.pattern) : null
+  return (event) =>
+    (!pattern || pattern.test(event.name)) &&
+    (!filter.workflowId || eventWorkflowId(event) === filter.workflowId) &&
+    (!filter.agentType || eventAgentType(event) === filter.agentType)
+}
+
+export class EventLog {
+  private events: LoggedEvent[] = []
+  private nextId = 1
+  private listeners: Set<(event: LoggedEvent) => void> = new Set()
+  private unsubscribe?: Unsubscribe
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  initialize(): void {
+    if (this.unsubscribe) {
+      return
+    }
+    this.unsubscribe = agentEventBus.subscribeToEvent('**', (data, name) => {
+      this.record(name, data)
+    })
+  }
+
+  // Events recorded after `lastEventId` that are still in the log. An id
+  // from before a restart returns everything kept.
+  since(lastEventId: number): LoggedEvent[] {
+    if (lastEventId >= this.nextId) {
+      return [...this.events]
+    }
+    return this.events.filter((event) => event.id > lastEventId)
+  }
+
+  // Listen to events as they are recorded
+  subscribe(listener: (event: LoggedEvent) => void): Unsubscribe {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private record(name: string, data: unknown): void {
+    const event: LoggedEvent = {
+      id: this.nextId++,
+      name,
+      data,
+      timestamp: new Date(),
+    }
+    this.events.push(event)
+    if (this.events.length > this.capacity) {
+      this.events.shift()
+    }
+
+    for (const listener of [...this.listeners]) {
+      listener(event)
+    }
+  }
+}
+
+// Create the event log sized by `EVENT_LOG_SIZE`
+export function createEventLog(
+  config: Record<string, string | undefined> = process.env
+): EventLog {
+  const capacity = Number(config.EVENT_LOG_SIZE)
+  return new EventLog(capacity > 0 ? capacity : DEFAULT_CAPACITY)
+}
@@ -7,6 +7,19 @@
  */
 
 import { EventEmitter } from 'events'
+import type { WorkflowValidationIssue } from './workflow/validation'
+import type { WorkflowAction } from './workflow/transitions'
+import type { ApprovalDecision } from './workflow/approvals'
+import type { CompensationReason } from './workflow/compensation'
+import type { CatchUpPolicy } from './scheduler/store'
+import type { DeadLetterReason } from './queue/store'
+import type { AgentPoolStatus } from './pool'
+import type { BANTScore } from '../leadScraper'
+import type {
+  BookingEvent,
+  MessageEvent,
+  PaymentEvent,
+} from './webhooks/sources'
 
 // Agent Types
 export enum AgentType {
@@ -17,6 +30,53 @@ export enum AgentType {
   WORKFLOW = 'workflow',
 }
 
+// Capabilities supported by each agent type. Workflow step actions and their
+// compensating actions must be one of the capabilities of the step's agent
+// type.
+export const AGENT_CAPABILITIES: Record<AgentType, string[]> = {
+  [AgentType.CUSTOMER_SERVICE]: [
+    'customer_inquiry_handling',
+    'complaint_resolution',
+    'feedback_collection',
+    'customer_communication',
+    'lead_scraping',
+    'lead_scoring',
+    'cold_email_generation',
+    'client_onboarding',
+    'feedback_analysis',
+    'onboarding_rollback',
+  ],
+  [AgentType.SCHEDULING]: [
+    'appointment_scheduling',
+    'calendar_management',
+    'availability_checking',
+    'reminder_sending',
+    'appointment_cancellation',
+  ],
+  [AgentType.BILLING]: [
+    'invoice_generation',
+    'payment_processing',
+    'expense_tracking',
+    'financial_reporting',
+    'invoice_voiding',
+    'payment_refund',
+  ],
+  [AgentType.DOCUMENT]: [
+    'document_generation',
+    'document_analysis',
+    'template_management',
+    'document_storage',
+    'proposal_generation',
+    'document_deletion',
+  ],
+  [AgentType.WORKFLOW]: [
+    'workflow_orchestration',
+    'process_automation',
+    'task_coordination',
+    'business_logic_execution',
+  ],
+}
+
 // Agent Status
 export enum AgentStatus {
   IDLE = 'idle',
@@ -29,13 +89,13 @@ export enum AgentStatus {
 export interface BaseAgent {
   id: string
   type: AgentType
-  status: AgentStatus
+  readonly status: AgentStatus
   name: string
   description: string
   capabilities: string[]
   initialize(): Promise<void>
   execute(task: AgentTask): Promise<AgentResult>
-  getStatus(): AgentStatus
+  getStatus(): AgentPoolStatus
 }
 
 // Agent Task Interface
@@ -57,6 +117,290 @@ export interface AgentResult {
   completedAt: Date
 }
 
+// Result published on `result:<taskId>`, carrying the workflow step the task
+// was dispatched for
+export interface AgentTaskResult extends AgentResult {
+  workflowId?: string
+  stepId?: string
+}
+
+// Payloads of the events published on the event bus
+interface WorkflowEvent {
+  workflowId: string
+}
+
+interface WorkflowStepEvent extends WorkflowEvent {
+  stepId: string
+}
+
+// Domain events normalized from inbound webhooks
+interface WebhookEvent {
+  source: string
+  deliveryId: string
+}
+
+export interface AgentEventMap {
+  [taskEvent: `task:${string}`]: AgentTask
+  [resultEvent: `result:${string}`]: AgentTaskResult
+  'workflow:create': Record<string, unknown>
+  'workflow:created': WorkflowEvent
+  'workflow:version_created': WorkflowEvent & {
+    version: number
+    // Whether the workflow hadn't started and now runs the new version
+    applied: boolean
+  }
+  'workflow:migrated': WorkflowEvent & {
+    fromVersion: number
+    toVersion: number
+    renamedSteps: Record<string, string>
+  }
+  'workflow:invalid': {
+    workflowId?: string
+    errors: WorkflowValidationIssue[]
+  }
+  // A workflow:create event whose workflow couldn't be created, such as one
+  // reusing the id of an existing workflow
+  'workflow:create_failed': {
+    workflowId?: string
+    error: string
+  }
+  'workflow:start': WorkflowEvent
+  'workflow:pause': WorkflowEvent
+  'workflow:resume': WorkflowEvent
+  'workflow:cancel': WorkflowEvent
+  'workflow:cancelled': WorkflowEvent
+  'workflow:rejected': WorkflowEvent & {
+    action: WorkflowAction
+    error: string
+  }
+  'workflow:completed': WorkflowEvent & { success: boolean }
+  'workflow:recovered': WorkflowEvent & { redispatchedStepIds: string[] }
+  // Work the orchestrator does on its own, such as handling a task result,
+  // that failed, usually because the store couldn't save
+  'workflow:error': {
+    workflowId?: string
+    stepId?: string
+    error: string
+  }
+  'workflow:run_started': WorkflowEvent & {
+    runId: string
+    replayOf?: string
+    fromStep?: string
+  }
+  'workflow:step_started': WorkflowStepEvent & {
+    agentType: AgentType
+    attempt: number
+    taskId: string
+    // Map item the attempt is for
+    item?: number
+  }
+  'workflow:step_completed': WorkflowStepEvent & {
+    agentType: AgentType
+    success: boolean
+    error?: string
+  }
+  'workflow:step_retry': WorkflowStepEvent & {
+    attempt: number
+    nextAttempt: number
+    delayMs: number
+    error?: string
+    item?: number
+  }
+  'workflow:step_timeout': WorkflowStepEvent & {
+    attempt: number
+    timeoutMs: number
+    item?: number
+  }
+  'workflow:step_skipped': WorkflowStepEvent & {
+    reason: 'condition' | 'dependency'
+  }
+  'workflow:step_failure_routed': WorkflowStepEvent & {
+    handlerStepId: string
+    error?: string
+  }
+  'workflow:compensating': WorkflowEvent & {
+    reason: CompensationReason
+    // Steps to undo, in order
+    stepIds: string[]
+  }
+  'workflow:step_compensating': WorkflowStepEvent & {
+    agentType: AgentType
+    action: string
+    taskId: string
+  }
+  'workflow:step_compensated': WorkflowStepEvent & {
+    success: boolean
+    error?: string
+  }
+  'workflow:compensated': WorkflowEvent & {
+    reason: CompensationReason
+    // False when a compensation failed and the workflow ended failed
+    success: boolean
+    failedStepIds: string[]
+  }
+  'workflow:sub_workflow_started': WorkflowStepEvent & {
+    childWorkflowId: string
+    templateId: string
+    templateVersion: number
+  }
+  'workflow:map_started': WorkflowStepEvent & {
+    items: number
+    concurrency: number
+  }
+  'workflow:map_item_completed': WorkflowStepEvent & {
+    item: number
+    success: boolean
+    error?: string
+  }
+  'approval:requested': WorkflowStepEvent & {
+    approvalId: string
+    title: string
+    message?: string
+    assignees: string[]
+    expiresAt?: Date
+  }
+  'approval:decided': WorkflowStepEvent & {
+    approvalId: string
+    decision: ApprovalDecision
+    decidedBy: string
+    comment?: string
+  }
+  'approval:expired': WorkflowStepEvent & {
+    approvalId: string
+    // Fallback decision applied
+    decision: ApprovalDecision
+  }
+  'agent:task_started': {
+    taskId: string
+    agentId: string
+    agentType: AgentType
+  }
+  'dispatch:settled': {
+    taskId: string
+    status: 'completed' | 'failed'
+  }
+  // An API task's record couldn't be updated as it started or settled
+  'dispatch:failed': {
+    taskId: string
+    error: string
+  }
+  'queue:redelivered': {
+    taskId: string
+    topic: string
+    deliveries: number
+    error: string
+  }
+  'schedule:triggered': {
+    scheduleId: string
+    workflowId: string
+    scheduledFor: Date
+    // Whether the trigger was missed and is being caught up
+    late: boolean
+  }
+  'schedule:missed': {
+    scheduleId: string
+    missed: number
+    catchUp: CatchUpPolicy
+  }
+  'schedule:failed': {
+    scheduleId: string
+    scheduledFor: Date
+    error: string
+  }
+  // A timed run of the due schedules failed, e.g. because they couldn't be
+  // saved
+  'schedule:error': {
+    error: string
+  }
+  'queue:dead_lettered': {
+    taskId: string
+    topic: string
+    reason: DeadLetterReason
+    error: string
+  }
+  // The queue couldn't be saved or a task couldn't be settled
+  'queue:failed': {
+    error: string
+  }
+  'trigger:fired': {
+    triggerId: string
+    eventName: string
+    dedupeKey: string
+    workflowId: string
+  }
+  'trigger:duplicate': {
+    triggerId: string
+    eventName: string
+    dedupeKey: string
+  }
+  'trigger:failed': {
+    triggerId: string
+    eventName: string
+    error: string
+  }
+  'payment:succeeded': PaymentEvent & WebhookEvent
+  'payment:failed': PaymentEvent & WebhookEvent
+  'payment:refunded': PaymentEvent & WebhookEvent
+  'booking:created': BookingEvent & WebhookEvent
+  'booking:rescheduled': BookingEvent & WebhookEvent
+  'booking:cancelled': BookingEvent & WebhookEvent
+  'message:received': MessageEvent & WebhookEvent
+  // A lead's reply scored by the customer service agent
+  'lead:scored': BANTScore & {
+    taskId: string
+    reply: string
+    leadEmail?: string
+    workflowId?: string
+  }
+  'webhook:delivery_failed': {
+    subscriptionId: string
+    deliveryId: string
+    event: string
+    attempt: number
+    responseCode?: number
+    error: string
+    willRetry: boolean
+  }
+  'webhook:subscription_disabled': {
+    subscriptionId: string
+    failures: number
+  }
+}
+
+// Event name or pattern. `*` matches within one `:`-separated segment, `**`
+// matches across segments, so `result:*` matches every task result and
+// `workflow:**` every workflow event.
+export type AgentEventName = keyof AgentEventMap | (string & {})
+
+export type AgentEventPayload<K extends string> = K extends keyof AgentEventMap
+  ? AgentEventMap[K]
+  : unknown
+
+export type AgentEventCallback<K extends string> = (
+  data: AgentEventPayload<K>,
+  eventName: string
+) => void
+
+// Handle returned by subscribeToEvent
+export type Unsubscribe = () => void
+
+export function isEventPattern(pattern: string): boolean {
+  return pattern.includes('*')
+}
+
+export function compileEventPattern(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^:]*')
+    )
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
 // Agent Factory
 export class AgentFactory {
   static createAgent(type: AgentType, config: Record<string, any>): BaseAgent {
@@ -68,9 +412,17 @@ export class AgentFactory {
 // Agent Event Bus for inter-agent communication
 export class AgentEventBus extends EventEmitter {
   private static instance: AgentEventBus
+  private patternSubscriptions: Array<{
+    pattern: RegExp
+    callback: (data: unknown, eventName: string) => void
+  }> = []
 
-  private constructor() {
+  // The shared bus is agentEventBus; other buses keep their events apart
+  // from it, such as those of a simulated workflow
+  constructor() {
     super()
+    // Every agent, workflow and client stream subscribes here
+    this.setMaxListeners(0)
   }
 
   public static getInstance(): AgentEventBus {
@@ -80,15 +432,41 @@ export class AgentEventBus extends EventEmitter {
     return AgentEventBus.instance
   }
 
-  public publishEvent(eventName: string, data: any): void {
-    this.emit(eventName, data)
+  public publishEvent<K extends AgentEventName>(
+    eventName: K,
+    data: AgentEventPayload<K>
+  ): void {
+    this.emit(eventName, data, eventName)
+
+    // Copy so callbacks can unsubscribe while the event is delivered
+    for (const subscription of [...this.patternSubscriptions]) {
+      if (subscription.pattern.test(eventName)) {
+        subscription.callback(data, eventName)
+      }
+    }
   }
 
-  public subscribeToEvent(
-    eventName: string,
-    callback: (data: any) => void
-  ): void {
-    this.on(eventName, callback)
+  public subscribeToEvent<K extends AgentEventName>(
+    eventName: K,
+    callback: AgentEventCallback<K>
+  ): Unsubscribe {
+    if (!isEventPattern(eventName)) {
+      this.on(eventName, callback)
+      return () => {
+        this.off(eventName, callback)
+      }
+    }
+
+    const subscription = {
+      pattern: compileEventPattern(eventName),
+      callback: callback as (data: unknown, eventName: string) => void,
+    }
+    this.patternSubscriptions.push(subscription)
+    return () => {
+      this.patternSubscriptions = this.patternSubscriptions.filter(
+        (s) => s !== subscription
+      )
+    }
   }
 }
 
@@ -0,0 +1,42 @@
+/**
+ * JSON File
+ *
+ * This module reads and writes the JSON files the file-backed stores keep
+ * their state in. Writes are serialized and go through a temp file so a crash
+ * mid-write never leaves a truncated file behind.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export class JsonFile<T> {
+  private pendingWrite: Promise<void> = Promise.resolve()
+
+  constructor(readonly filePath: string) {}
+
+  // Content of the file, or undefined when it doesn't exist yet
+  async read(): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+      return undefined
+    }
+  }
+
+  // Replace the content of the file once earlier writes are done. A failed
+  // write only fails its own caller; the writes after it still go ahead.
+  write(value: T): Promise<void> {
+    const content = JSON.stringify(value, null, 2)
+    const write = this.pendingWrite.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, content, 'utf8')
+      await fs.rename(tempPath, this.filePath)
+    })
+    this.pendingWrite = write.catch(() => undefined)
+    return write
+  }
+}
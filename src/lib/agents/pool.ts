@@ -0,0 +1,84 @@
+/**
+ * Agent Worker Pools
+ *
+ * Each agent type runs as a pool of workers: at most `concurrency` tasks are
+ * executed at once, further tasks wait in the pool's backlog on the task
+ * queue. The pool keeps the counts reported by `getStatus()` and the agents
+ * API.
+ */
+
+import { AgentStatus, AgentType } from './index'
+
+// Pool state reported for an agent type
+export interface AgentPoolStatus {
+  type: AgentType
+  status: AgentStatus
+  concurrency: number
+  inFlight: number
+  queued: number
+  completed: number
+  failed: number
+}
+
+const DEFAULT_CONCURRENCY = 4
+
+// Concurrency of an agent type's pool, from `AGENT_CONCURRENCY_<TYPE>` (e.g.
+// `AGENT_CONCURRENCY_BILLING`), then `AGENT_CONCURRENCY`
+export function getAgentConcurrency(
+  type: AgentType,
+  config: Record<string, string | undefined> = process.env
+): number {
+  const value = Number(
+    config[`AGENT_CONCURRENCY_${type.toUpperCase()}`] ??
+      config.AGENT_CONCURRENCY
+  )
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY
+}
+
+export class AgentPool {
+  private inFlight = 0
+  private completed = 0
+  private failed = 0
+
+  constructor(
+    readonly type: AgentType,
+    readonly concurrency: number,
+    // Tasks waiting for a free worker
+    private backlog: () => number = () => 0
+  ) {}
+
+  // Run one task on a worker. The task counts as failed when the work throws
+  // or `succeeded` rejects its result.
+  async run<T>(
+    work: () => Promise<T>,
+    succeeded: (result: T) => boolean = () => true
+  ): Promise<T> {
+    this.inFlight += 1
+    try {
+      const result = await work()
+      if (succeeded(result)) {
+        this.completed += 1
+      } else {
+        this.failed += 1
+      }
+      return result
+    } catch (error) {
+      this.failed += 1
+      throw error
+    } finally {
+      this.inFlight -= 1
+    }
+  }
+
+  getStatus(): AgentPoolStatus {
+    return {
+      type: this.type,
+      status: this.inFlight > 0 ? AgentStatus.WORKING : AgentStatus.IDLE,
+      concurrency: this.concurrency,
+      inFlight: this.inFlight,
+      queued: this.backlog(),
+      completed: this.completed,
+      failed: this.failed,
+    }
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Agent Task Queue
+ *
+ * This module implements the durable queue that sits between task publishers
+ * and the agents executing them. Tasks published on `task:<topic>` events are
+ * queued, ordered by priority and deadline, and delivered to the consumers of
+ * their topic. A delivery that is not acknowledged within its lease is
+ * redelivered; tasks past their deadline or out of deliveries are moved to a
+ * dead-letter list, from which they can be inspected and replayed. Leases and
+ * deadlines are timed on an injectable clock.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AgentTask,
+  AgentTaskResult,
+  Unsubscribe,
+  agentEventBus,
+} from '../index'
+import { Clock, ClockTimer, systemClock } from '../clock'
+import {
+  DeadLetter,
+  DeadLetterReason,
+  QueuedTask,
+  TaskQueueSnapshot,
+  TaskQueueStore,
+} from './store'
+
+export type { DeadLetter, DeadLetterReason, QueuedTask } from './store'
+
+// Task Queue Options
+export interface TaskQueueOptions {
+  // How long a delivery may go unacknowledged before it is redelivered
+  ackTimeoutMs?: number
+  // Deliveries before an unacknowledged or rejected task is dead-lettered
+  maxDeliveries?: number
+  // Time and timers of leases and deadlines
+  clock?: Clock
+}
+
+// Resolving acknowledges the task, rejecting returns it to the queue
+export type TaskHandler = (task: AgentTask) => Promise<void>
+
+interface TaskConsumer {
+  topic: string
+  handler: TaskHandler
+  concurrency: number
+  inFlight: number
+}
+
+const DEFAULT_ACK_TIMEOUT_MS = 60000
+const DEFAULT_MAX_DELIVERIES = 3
+
+// Lower priority numbers are more urgent; tasks of equal priority are
+// ordered by deadline, then by arrival
+function compareQueuedTasks(a: QueuedTask, b: QueuedTask): number {
+  if (a.task.priority !== b.task.priority) {
+    return a.task.priority - b.task.priority
+  }
+  const aDeadline = a.task.deadline ? a.task.deadline.getTime() : Infinity
+  const bDeadline = b.task.deadline ? b.task.deadline.getTime() : Infinity
+  if (aDeadline !== bDeadline) {
+    return aDeadline - bDeadline
+  }
+  return a.sequence - b.sequence
+}
+
+export class TaskQueue {
+  private snapshot: TaskQueueSnapshot = {
+    sequence: 0,
+    tasks: [],
+    deadLetters: [],
+  }
+  private consumers: TaskConsumer[] = []
+  private leaseTimers: Map<string, ClockTimer> = new Map()
+  private deadlineTimer?: ClockTimer
+  private ready: Promise<void> | null = null
+  private ackTimeoutMs: number
+  private maxDeliveries: number
+  private clock: Clock
+
+  constructor(
+    private store: TaskQueueStore,
+    options: TaskQueueOptions = {}
+  ) {
+    this.ackTimeoutMs = options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS
+    this.maxDeliveries = options.maxDeliveries ?? DEFAULT_MAX_DELIVERIES
+    this.clock = options.clock ?? systemClock
+  }
+
+  // Load persisted tasks and start queueing published tasks. Safe to call
+  // more than once.
+  public initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load()
+    }
+    return this.ready
+  }
+
+  private async load(): Promise<void> {
+    this.snapshot = await this.store.load()
+
+    // Deliveries in flight when the last process stopped were never
+    // acknowledged, so they are delivered again
+    for (const entry of this.snapshot.tasks) {
+      entry.deliveryTag = undefined
+      entry.leaseExpiresAt = undefined
+    }
+    this.armDeadlineTimer()
+
+    agentEventBus.subscribeToEvent('task:*', (task, eventName) => {
+      this.report(this.enqueue(eventName, task))
+    })
+  }
+
+  public async enqueue(topic: string, task: AgentTask): Promise<void> {
+    this.snapshot.sequence += 1
+    this.snapshot.tasks.push({
+      task,
+      topic,
+      sequence: this.snapshot.sequence,
+      enqueuedAt: this.clock.now(),
+      deliveries: 0,
+    })
+    await this.persist()
+    this.dispatch(topic)
+  }
+
+  // Register a handler for the tasks of a topic, e.g. `task:billing`
+  public consume(
+    topic: string,
+    handler: TaskHandler,
+    options: { concurrency?: number } = {}
+  ): Unsubscribe {
+    const consumer: TaskConsumer = {
+      topic,
+      handler,
+      concurrency: options.concurrency ?? Infinity,
+      inFlight: 0,
+    }
+    this.consumers.push(consumer)
+    this.dispatch(topic)
+
+    return () => {
+      this.consumers = this.consumers.filter((c) => c !== consumer)
+    }
+  }
+
+  public listTasks(topic?: string): QueuedTask[] {
+    return this.snapshot.tasks
+      .filter((entry) => !topic || entry.topic === topic)
+      .sort(compareQueuedTasks)
+  }
+
+  public async listDeadLetters(): Promise<DeadLetter[]> {
+    await this.expireOverdueTasks()
+    return [...this.snapshot.deadLetters]
+  }
+
+  // Return dead-lettered tasks to their queue, all of them when no ids are
+  // given. Expired deadlines are dropped so replayed tasks can be delivered.
+  public async replayDeadLetters(taskIds?: string[]): Promise<DeadLetter[]> {
+    const replayed = this.takeDeadLetters(taskIds)
+    const now = this.clock.now().getTime()
+
+    for (const entry of replayed) {
+      this.snapshot.sequence += 1
+      this.snapshot.tasks.push({
+        task: {
+          ...entry.task,
+          deadline:
+            entry.task.deadline && entry.task.deadline.getTime() > now
+              ? entry.task.deadline
+              : undefined,
+        },
+        topic: entry.topic,
+        sequence: this.snapshot.sequence,
+        enqueuedAt: this.clock.now(),
+        deliveries: 0,
+      })
+    }
+
+    await this.persist()
+    new Set(replayed.map((entry) => entry.topic)).forEach((topic) =>
+      this.dispatch(topic)
+    )
+    return replayed
+  }
+
+  public async discardDeadLetters(taskIds?: string[]): Promise<DeadLetter[]> {
+    const discarded = this.takeDeadLetters(taskIds)
+    await this.persist()
+    return discarded
+  }
+
+  private takeDeadLetters(taskIds?: string[]): DeadLetter[] {
+    const selected = this.snapshot.deadLetters.filter(
+      (entry) => !taskIds || taskIds.includes(entry.task.id)
+    )
+    this.snapshot.deadLetters = this.snapshot.deadLetters.filter(
+      (entry) => !selected.includes(entry)
+    )
+    return selected
+  }
+
+  // Deliver waiting tasks of a topic while its consumers have capacity
+  private dispatch(topic: string): void {
+    this.report(this.expireOverdueTasks())
+
+    for (;;) {
+      const consumer = this.consumers
+        .filter((c) => c.topic === topic && c.inFlight < c.concurrency)
+        .sort((a, b) => a.inFlight - b.inFlight)[0]
+      const entry = this.snapshot.tasks
+        .filter((e) => e.topic === topic && !e.deliveryTag)
+        .sort(compareQueuedTasks)[0]
+
+      if (!consumer || !entry) {
+        return
+      }
+      this.deliver(entry, consumer)
+    }
+  }
+
+  private deliver(entry: QueuedTask, consumer: TaskConsumer): void {
+    const deliveryTag = uuidv4()
+    entry.deliveries += 1
+    entry.deliveryTag = deliveryTag
+    entry.leaseExpiresAt = new Date(
+      this.clock.now().getTime() + this.ackTimeoutMs
+    )
+    consumer.inFlight += 1
+
+    this.leaseTimers.set(
+      entry.task.id,
+      this.clock.setTimeout(
+        () => this.report(this.expireLease(entry, deliveryTag)),
+        this.ackTimeoutMs
+      )
+    )
+    this.report(this.persist())
+
+    this.report(
+      Promise.resolve()
+        .then(() => consumer.handler(entry.task))
+        .then(
+          () => this.settle(entry, deliveryTag, consumer),
+          (error) => this.settle(entry, deliveryTag, consumer, error)
+        )
+    )
+  }
+
+  // Acknowledge or reject a delivery once its handler finishes
+  private async settle(
+    entry: QueuedTask,
+    deliveryTag: string,
+    consumer: TaskConsumer,
+    error?: unknown
+  ): Promise<void> {
+    consumer.inFlight -= 1
+
+    // A delivery whose lease expired has already been redelivered
+    if (entry.deliveryTag === deliveryTag) {
+      this.clearLease(entry)
+
+      if (error === undefined) {
+        this.snapshot.tasks = this.snapshot.tasks.filter((e) => e !== entry)
+        await this.persist()
+      } else {
+        await this.returnToQueue(
+          entry,
+          'rejected',
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    }
+
+    this.dispatch(entry.topic)
+  }
+
+  private async expireLease(
+    entry: QueuedTask,
+    deliveryTag: string
+  ): Promise<void> {
+    if (entry.deliveryTag !== deliveryTag) {
+      return
+    }
+
+    this.clearLease(entry)
+    await this.returnToQueue(
+      entry,
+      'max_deliveries',
+      `Not acknowledged within ${this.ackTimeoutMs}ms`
+    )
+    this.dispatch(entry.topic)
+  }
+
+  // Queue a task for redelivery, or dead-letter it when it is out of
+  // deliveries
+  private async returnToQueue(
+    entry: QueuedTask,
+    reason: DeadLetterReason,
+    error: string
+  ): Promise<void> {
+    if (entry.deliveries >= this.maxDeliveries) {
+      await this.deadLetter(entry, reason, error)
+      return
+    }
+
+    await this.persist()
+    agentEventBus.publishEvent('queue:redelivered', {
+      taskId: entry.task.id,
+      topic: entry.topic,
+      deliveries: entry.deliveries,
+      error,
+    })
+  }
+
+  private clearLease(entry: QueuedTask): void {
+    entry.deliveryTag = undefined
+    entry.leaseExpiresAt = undefined
+    const timer = this.leaseTimers.get(entry.task.id)
+    if (timer) {
+      this.clock.clearTimeout(timer)
+      this.leaseTimers.delete(entry.task.id)
+    }
+  }
+
+  private async expireOverdueTasks(): Promise<void> {
+    const now = this.clock.now().getTime()
+    const overdue = this.snapshot.tasks.filter(
+      (entry) =>
+        !entry.deliveryTag &&
+        entry.task.deadline &&
+        entry.task.deadline.getTime() < now
+    )
+
+    for (const entry of overdue) {
+      await this.deadLetter(
+        entry,
+        'deadline_exceeded',
+        `Deadline ${entry.task.deadline!.toISOString()} passed before delivery`
+      )
+    }
+    this.armDeadlineTimer()
+  }
+
+  // Set a timer for the earliest deadline of a waiting task, so overdue
+  // tasks are dead-lettered even when nothing is dispatched
+  private armDeadlineTimer(): void {
+    if (this.deadlineTimer) {
+      this.clock.clearTimeout(this.deadlineTimer)
+      this.deadlineTimer = undefined
+    }
+
+    const deadlines = this.snapshot.tasks
+      .filter((entry) => !entry.deliveryTag && entry.task.deadline)
+      .map((entry) => entry.task.deadline!.getTime())
+    if (deadlines.length === 0) {
+      return
+    }
+
+    // Tasks are overdue once their deadline has passed
+    const delayMs = Math.min(...deadlines) + 1 - this.clock.now().getTime()
+    this.deadlineTimer = this.clock.setTimeout(() => {
+      this.deadlineTimer = undefined
+      this.report(this.expireOverdueTasks())
+    }, delayMs)
+  }
+
+  private async deadLetter(
+    entry: QueuedTask,
+    reason: DeadLetterReason,
+    error: string
+  ): Promise<void> {
+    this.snapshot.tasks = this.snapshot.tasks.filter((e) => e !== entry)
+    this.snapshot.deadLetters.push({
+      task: entry.task,
+      topic: entry.topic,
+      deliveries: entry.deliveries,
+      reason,
+      error,
+      deadLetteredAt: this.clock.now(),
+    })
+    await this.persist()
+
+    agentEventBus.publishEvent('queue:dead_lettered', {
+      taskId: entry.task.id,
+      topic: entry.topic,
+      reason,
+      error,
+    })
+
+    // Fail the task so workflow steps waiting on it don't hang
+    const result: AgentTaskResult = {
+      taskId: entry.task.id,
+      success: false,
+      data: {},
+      error: `Task dead-lettered (${reason}): ${error}`,
+      completedAt: this.clock.now(),
+      workflowId: entry.task.data.workflowId,
+      stepId: entry.task.data.stepId,
+    }
+    agentEventBus.publishEvent(`result:${entry.task.id}`, result)
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save(this.snapshot)
+  }
+
+  // Report the failure of work nobody waits for, such as saving the queue
+  // after a delivery
+  private report(work: Promise<void>): void {
+    work.catch((error) => {
+      agentEventBus.publishEvent('queue:failed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Task Queue Persistence
+ *
+ * This module defines the store the task queue saves its pending, in-flight
+ * and dead-lettered tasks to, so that unacknowledged tasks are redelivered
+ * after a restart.
+ */
+
+import path from 'path'
+import type { AgentTask } from '../index'
+import { JsonFile } from '../jsonFile'
+
+// Task waiting in, or delivered from, a queue topic
+export interface QueuedTask {
+  task: AgentTask
+  topic: string
+  sequence: number
+  enqueuedAt: Date
+  deliveries: number
+  // Set while the task is delivered and not yet acknowledged
+  deliveryTag?: string
+  leaseExpiresAt?: Date
+}
+
+// Reasons a task is moved to the dead-letter list
+export type DeadLetterReason =
+  | 'deadline_exceeded'
+  | 'max_deliveries'
+  | 'rejected'
+
+// Task that will not be delivered again unless replayed
+export interface DeadLetter {
+  task: AgentTask
+  topic: string
+  deliveries: number
+  reason: DeadLetterReason
+  error?: string
+  deadLetteredAt: Date
+}
+
+export interface TaskQueueSnapshot {
+  sequence: number
+  tasks: QueuedTask[]
+  deadLetters: DeadLetter[]
+}
+
+// Task Queue Store Interface
+export interface TaskQueueStore {
+  load(): Promise<TaskQueueSnapshot>
+  save(snapshot: TaskQueueSnapshot): Promise<void>
+}
+
+function reviveTask(task: AgentTask): AgentTask {
+  return {
+    ...task,
+    createdAt: new Date(task.createdAt),
+    deadline: task.deadline ? new Date(task.deadline) : undefined,
+  }
+}
+
+export function reviveSnapshot(raw: TaskQueueSnapshot): TaskQueueSnapshot {
+  return {
+    sequence: raw.sequence,
+    tasks: raw.tasks.map((entry) => ({
+      ...entry,
+      task: reviveTask(entry.task),
+      enqueuedAt: new Date(entry.enqueuedAt),
+      leaseExpiresAt: entry.leaseExpiresAt
+        ? new Date(entry.leaseExpiresAt)
+        : undefined,
+    })),
+    deadLetters: raw.deadLetters.map((entry) => ({
+      ...entry,
+      task: reviveTask(entry.task),
+      deadLetteredAt: new Date(entry.deadLetteredAt),
+    })),
+  }
+}
+
+// In-memory store, used for tests and short-lived queues
+export class MemoryTaskQueueStore implements TaskQueueStore {
+  private snapshot: TaskQueueSnapshot = {
+    sequence: 0,
+    tasks: [],
+    deadLetters: [],
+  }
+
+  async load(): Promise<TaskQueueSnapshot> {
+    return structuredClone(this.snapshot)
+  }
+
+  async save(snapshot: TaskQueueSnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot)
+  }
+}
+
+// File-backed store, the default for single-process deployments
+export class FileTaskQueueStore implements TaskQueueStore {
+  private file: JsonFile<TaskQueueSnapshot>
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath)
+  }
+
+  async load(): Promise<TaskQueueSnapshot> {
+    const snapshot = await this.file.read()
+    return snapshot
+      ? reviveSnapshot(snapshot)
+      : { sequence: 0, tasks: [], deadLetters: [] }
+  }
+
+  save(snapshot: TaskQueueSnapshot): Promise<void> {
+    return this.file.write(snapshot)
+  }
+}
+
+// Create the store selected by the environment
+export function createTaskQueueStore(
+  config: Record<string, string | undefined> = process.env
+): TaskQueueStore {
+  switch (config.TASK_QUEUE_STORE) {
+    case 'memory':
+      return new MemoryTaskQueueStore()
+    default:
+      return new FileTaskQueueStore(
+        config.TASK_QUEUE_PATH ||
+          path.join(process.cwd(), '.data', 'task-queue.json')
+      )
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Agent Runtime
+ *
+ * This module owns the repository, event log, task queue, workflow
+ * orchestrator, template registry, task dispatcher, workflow scheduler,
+ * trigger manager, webhook receiver and webhook publisher shared by the API
+ * routes and agents. The instances are kept on `globalThis` so that Next.js
+ * module reloads in development don't open a second store, start a second
+ * queue or start a second set of agents.
+ */
+
+import { Repository, createRepository } from '../db/repository'
+import { TaskDispatcher } from './dispatcher'
+import { EventLog, createEventLog } from './events'
+import { TaskQueue } from './queue'
+import { createTaskQueueStore } from './queue/store'
+import { WorkflowScheduler } from './scheduler'
+import { createScheduleStore } from './scheduler/store'
+import { WebhookReceiver } from './webhooks'
+import { WebhookStore, createWebhookStore } from './webhooks/store'
+import { WebhookPublisher } from './webhooks/subscriptions'
+import {
+  WorkflowOrchestratorAgent,
+  createWorkflowOrchestrator,
+} from './workflow'
+import { WorkflowTemplateRegistry } from './workflow/templates'
+import { WorkflowTriggerManager } from './workflow/triggers'
+import type { WorkflowDefinitionInput } from './workflow/validation'
+import { v4 as uuidv4 } from 'uuid'
+
+const globalForRuntime = globalThis as unknown as {
+  repository?: Repository
+  eventLog?: EventLog
+  taskQueue?: TaskQueue
+  workflowOrchestrator?: Promise<WorkflowOrchestratorAgent>
+  templateRegistry?: WorkflowTemplateRegistry
+  taskDispatcher?: Promise<TaskDispatcher>
+  scheduler?: Promise<WorkflowScheduler>
+  triggerManager?: Promise<WorkflowTriggerManager>
+  webhookStore?: WebhookStore
+  webhookReceiver?: WebhookReceiver
+  webhookPublisher?: Promise<WebhookPublisher>
+}
+
+export function getRepository(): Repository {
+  if (!globalForRuntime.repository) {
+    globalForRuntime.repository = createRepository()
+  }
+  return globalForRuntime.repository
+}
+
+// Start recording bus events for streaming clients
+export function getEventLog(): EventLog {
+  if (!globalForRuntime.eventLog) {
+    globalForRuntime.eventLog = createEventLog()
+    globalForRuntime.eventLog.initialize()
+  }
+  return globalForRuntime.eventLog
+}
+
+// Queue between task publishers and the agents consuming them. Callers
+// initialize it before use.
+export function getTaskQueue(): TaskQueue {
+  if (!globalForRuntime.taskQueue) {
+    globalForRuntime.taskQueue = new TaskQueue(createTaskQueueStore())
+  }
+  return globalForRuntime.taskQueue
+}
+
+// Create and initialize the orchestrator on first use. It persists workflows
+// and saved templates to the repository's workflow store.
+export function getWorkflowOrchestrator(): Promise<WorkflowOrchestratorAgent> {
+  if (!globalForRuntime.workflowOrchestrator) {
+    // Record from the start, so recovery events can be streamed
+    getEventLog()
+    const store = getRepository().workflowStore
+    globalForRuntime.templateRegistry = new WorkflowTemplateRegistry(store)
+    const orchestrator = createWorkflowOrchestrator({
+      store,
+      templates: globalForRuntime.templateRegistry,
+    })
+    globalForRuntime.workflowOrchestrator = orchestrator
+      .initialize()
+      .then(() => orchestrator)
+  }
+  return globalForRuntime.workflowOrchestrator
+}
+
+// Templates the orchestrator creates workflows from, loaded when it
+// initializes
+export async function getTemplateRegistry(): Promise<WorkflowTemplateRegistry> {
+  await getWorkflowOrchestrator()
+  return globalForRuntime.templateRegistry!
+}
+
+// Create the dispatcher for API tasks once the agents it dispatches to run
+export function getTaskDispatcher(): Promise<TaskDispatcher> {
+  if (!globalForRuntime.taskDispatcher) {
+    const repository = getRepository()
+    globalForRuntime.taskDispatcher = getWorkflowOrchestrator().then(
+      (orchestrator) => {
+        const dispatcher = new TaskDispatcher(
+          repository.tasks,
+          repository.agents,
+          (agentId) => orchestrator.getAgent(agentId)
+        )
+        dispatcher.initialize()
+        return dispatcher
+      }
+    )
+  }
+  return globalForRuntime.taskDispatcher
+}
+
+// Create a workflow from a definition and start it
+async function launchWorkflow(
+  definition: WorkflowDefinitionInput
+): Promise<string> {
+  const orchestrator = await getWorkflowOrchestrator()
+  const workflow = await orchestrator.createWorkflow({
+    ...definition,
+    id: uuidv4(),
+  })
+  await orchestrator.controlWorkflow(workflow.id, 'start')
+  return workflow.id
+}
+
+// Create and start the scheduler. Each trigger creates a workflow from the
+// schedule's definition and starts it.
+export function getScheduler(): Promise<WorkflowScheduler> {
+  if (!globalForRuntime.scheduler) {
+    const scheduler = new WorkflowScheduler(
+      createScheduleStore(),
+      launchWorkflow
+    )
+    globalForRuntime.scheduler = scheduler.start().then(() => scheduler)
+  }
+  return globalForRuntime.scheduler
+}
+
+// Create the trigger manager and start listening for trigger events. Its
+// triggers are kept in the workflow store.
+export function getTriggerManager(): Promise<WorkflowTriggerManager> {
+  if (!globalForRuntime.triggerManager) {
+    const manager = new WorkflowTriggerManager(
+      getRepository().workflowStore,
+      launchWorkflow
+    )
+    globalForRuntime.triggerManager = manager.start().then(() => manager)
+  }
+  return globalForRuntime.triggerManager
+}
+
+// Inbound deliveries and outbound subscriptions share one store
+function getWebhookStore(): WebhookStore {
+  if (!globalForRuntime.webhookStore) {
+    globalForRuntime.webhookStore = createWebhookStore()
+  }
+  return globalForRuntime.webhookStore
+}
+
+export function getWebhookReceiver(): WebhookReceiver {
+  if (!globalForRuntime.webhookReceiver) {
+    globalForRuntime.webhookReceiver = new WebhookReceiver(getWebhookStore())
+  }
+  return globalForRuntime.webhookReceiver
+}
+
+// Create the publisher and start delivering events to subscriptions
+export function getWebhookPublisher(): Promise<WebhookPublisher> {
+  if (!globalForRuntime.webhookPublisher) {
+    const publisher = new WebhookPublisher(getWebhookStore())
+    globalForRuntime.webhookPublisher = publisher
+      .start()
+      .then(() => publisher)
+  }
+  return globalForRuntime.webhookPublisher
+}
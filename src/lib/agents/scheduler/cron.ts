@@ -0,0 +1,217 @@
+/**
+ * Cron Expressions
+ *
+ * This module parses five-field cron expressions (minute, hour, day of month,
+ * month, day of week) and finds the times they match. Fields accept `*`,
+ * values, ranges, lists and steps (`*\/15`, `1-5`, `MON,WED`), plus the
+ * `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly` shorthands. Times
+ * are matched in UTC.
+ */
+
+// Error raised for expressions that can't be parsed
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`)
+    this.name = 'CronParseError'
+  }
+}
+
+interface CronField {
+  name: string
+  min: number
+  max: number
+  aliases?: string[]
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    aliases: [
+      'JAN',
+      'FEB',
+      'MAR',
+      'APR',
+      'MAY',
+      'JUN',
+      'JUL',
+      'AUG',
+      'SEP',
+      'OCT',
+      'NOV',
+      'DEC',
+    ],
+  },
+  // 7 is accepted for Sunday as well as 0
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    aliases: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+  },
+]
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+}
+
+// How far ahead to look for a match before giving up, e.g. for 30 February
+const SEARCH_LIMIT_YEARS = 5
+
+const MINUTE_MS = 60 * 1000
+
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private minutes: Set<number>,
+    private hours: Set<number>,
+    private daysOfMonth: Set<number>,
+    private months: Set<number>,
+    private daysOfWeek: Set<number>,
+    // Whether each day field was restricted rather than `*`
+    private restrictsDayOfMonth: boolean,
+    private restrictsDayOfWeek: boolean
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const normalized = expression.trim()
+    const fields = (SHORTHANDS[normalized.toLowerCase()] ?? normalized).split(
+      /\s+/
+    )
+    if (fields.length !== FIELDS.length) {
+      throw new CronParseError(
+        expression,
+        `expected ${FIELDS.length} fields, got ${fields.length}`
+      )
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, index) => parseField(expression, field, FIELDS[index])
+    )
+    // Sunday is 0 in Date#getUTCDay
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0)
+    }
+
+    return new CronExpression(
+      normalized,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      !fields[2].startsWith('*'),
+      !fields[4].startsWith('*')
+    )
+  }
+
+  matches(date: Date): boolean {
+    return (
+      this.minutes.has(date.getUTCMinutes()) &&
+      this.hours.has(date.getUTCHours()) &&
+      this.months.has(date.getUTCMonth() + 1) &&
+      this.matchesDay(date)
+    )
+  }
+
+  // First matching time strictly after `after`, or null when there is none
+  // within the search limit
+  next(after: Date): Date | null {
+    const date = new Date(
+      Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+    )
+    const limit = new Date(after)
+    limit.setUTCFullYear(limit.getUTCFullYear() + SEARCH_LIMIT_YEARS)
+
+    while (date <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0, 0, 0)
+      } else if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0, 0, 0)
+      } else if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      } else if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      } else {
+        return date
+      }
+    }
+    return null
+  }
+
+  // Like cron, a date matches either day field when both are restricted
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate())
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay())
+    if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) {
+      return dayOfMonth || dayOfWeek
+    }
+    return dayOfMonth && dayOfWeek
+  }
+}
+
+function parseField(
+  expression: string,
+  field: string,
+  spec: CronField
+): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(expression, `invalid step in ${spec.name}`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else {
+      const [from, to] = range.split('-')
+      start = parseValue(expression, from, spec)
+      // `5/15` runs from 5 to the end of the range
+      end =
+        to !== undefined
+          ? parseValue(expression, to, spec)
+          : stepText !== undefined
+          ? spec.max
+          : start
+    }
+    if (start > end) {
+      throw new CronParseError(expression, `invalid range in ${spec.name}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+function parseValue(expression: string, text: string, spec: CronField): number {
+  const alias = spec.aliases?.indexOf(text.toUpperCase()) ?? -1
+  const value =
+    alias >= 0 ? alias + spec.min : /^\d+$/.test(text) ? Number(text) : NaN
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      expression,
+      `${spec.name} must be between ${spec.min} and ${spec.max}`
+    )
+  }
+  return value
+}
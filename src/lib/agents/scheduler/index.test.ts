@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Unsubscribe, agentEventBus } from '../index'
+import { VirtualClock } from '../clock'
+import type { WorkflowDefinitionInput } from '../workflow/validation'
+import { CatchUpPolicy, Schedule, WorkflowScheduler } from './index'
+import { MemoryScheduleStore } from './store'
+
+const START = new Date('2026-01-05T09:00:00Z')
+const MINUTE = 60 * 1000
+
+const definition: WorkflowDefinitionInput = {
+  name: 'Daily report',
+  description: 'Sends the financial report',
+  data: {},
+  steps: [
+    {
+      id: 'report',
+      agentType: 'billing',
+      action: 'financial_reporting',
+      config: {},
+      dependsOn: [],
+    },
+  ],
+}
+
+// Schedule as saved before a restart, due `minutesAgo` minutes ago
+function savedSchedule(catchUp: CatchUpPolicy, minutesAgo: number): Schedule {
+  return {
+    id: `schedule-${catchUp}`,
+    name: 'Every 15 minutes',
+    cron: '*/15 * * * *',
+    catchUp,
+    enabled: true,
+    definition,
+    nextRunAt: new Date(START.getTime() - minutesAgo * MINUTE),
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  }
+}
+
+describe('WorkflowScheduler', () => {
+  let clock: VirtualClock
+  let store: MemoryScheduleStore
+  let launched: Date[]
+  let scheduler: WorkflowScheduler
+  let events: Array<{ name: string; data: unknown }>
+  let unsubscribe: Unsubscribe
+
+  beforeEach(() => {
+    clock = new VirtualClock(START)
+    store = new MemoryScheduleStore()
+    launched = []
+    scheduler = new WorkflowScheduler(
+      store,
+      async (_definition, { scheduledFor }) => {
+        launched.push(scheduledFor)
+        return `workflow-${launched.length}`
+      },
+      { clock }
+    )
+    events = []
+    unsubscribe = agentEventBus.subscribeToEvent('schedule:*', (data, name) => {
+      events.push({ name, data })
+    })
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+    unsubscribe()
+  })
+
+  it('starts a workflow at each cron trigger as time passes', async () => {
+    await scheduler.start()
+    const schedule = await scheduler.createSchedule({
+      name: 'Every 15 minutes',
+      cron: '*/15 * * * *',
+      definition,
+    })
+    expect(schedule.nextRunAt).toEqual(new Date('2026-01-05T09:15:00Z'))
+
+    await clock.advance(60 * MINUTE)
+
+    expect(launched).toEqual([
+      new Date('2026-01-05T09:15:00Z'),
+      new Date('2026-01-05T09:30:00Z'),
+      new Date('2026-01-05T09:45:00Z'),
+      new Date('2026-01-05T10:00:00Z'),
+    ])
+    expect(scheduler.getSchedule(schedule.id)).toMatchObject({
+      lastRunAt: new Date('2026-01-05T10:00:00Z'),
+      lastWorkflowId: 'workflow-4',
+      nextRunAt: new Date('2026-01-05T10:15:00Z'),
+    })
+  })
+
+  it('runs a one-off schedule once', async () => {
+    await scheduler.start()
+    const schedule = await scheduler.createSchedule({
+      name: 'Once',
+      runAt: new Date(START.getTime() + 30 * MINUTE),
+      definition,
+    })
+
+    await clock.advance(24 * 60 * MINUTE)
+
+    expect(launched).toEqual([new Date(START.getTime() + 30 * MINUTE)])
+    expect(scheduler.getSchedule(schedule.id)?.nextRunAt).toBeUndefined()
+    expect(clock.nextTimerAt()).toBeUndefined()
+  })
+
+  it('saves schedules so a restarted scheduler picks them up', async () => {
+    await scheduler.start()
+    const schedule = await scheduler.createSchedule({
+      name: 'Every 15 minutes',
+      cron: '*/15 * * * *',
+      definition,
+    })
+    scheduler.stop()
+
+    const restarted = new WorkflowScheduler(store, async () => 'workflow', {
+      clock,
+    })
+    await restarted.start()
+    expect(restarted.getSchedule(schedule.id)).toMatchObject({
+      name: 'Every 15 minutes',
+      nextRunAt: schedule.nextRunAt,
+    })
+    restarted.stop()
+  })
+
+  it.each([
+    ['skip', 1],
+    ['once', 1],
+    ['all', 5],
+  ] as const)(
+    'catches up missed triggers with the %s policy',
+    async (catchUp, runs) => {
+      // Triggers at 08:00, 08:15, 08:30 and 08:45 were missed; the one at
+      // 09:00 is due now
+      await store.save([savedSchedule(catchUp, 60)])
+
+      await scheduler.start()
+
+      expect(launched).toHaveLength(runs)
+      expect(launched[runs - 1]).toEqual(START)
+      const missed = events.find((event) => event.name === 'schedule:missed')
+      if (runs < 5) {
+        expect(missed?.data).toMatchObject({ missed: 5 - runs, catchUp })
+      } else {
+        expect(missed).toBeUndefined()
+      }
+      expect(scheduler.getSchedule(`schedule-${catchUp}`)?.nextRunAt).toEqual(
+        new Date('2026-01-05T09:15:00Z')
+      )
+    }
+  )
+
+  it('reports a failed launch and keeps the schedule going', async () => {
+    const failing = new WorkflowScheduler(
+      store,
+      async () => {
+        throw new Error('Agent pool is full')
+      },
+      { clock }
+    )
+    await failing.start()
+    await failing.createSchedule({
+      name: 'Every 15 minutes',
+      cron: '*/15 * * * *',
+      definition,
+    })
+
+    await clock.advance(15 * MINUTE)
+    failing.stop()
+
+    expect(events).toContainEqual({
+      name: 'schedule:failed',
+      data: expect.objectContaining({ error: 'Agent pool is full' }),
+    })
+    expect(failing.listSchedules()[0].nextRunAt).toEqual(
+      new Date('2026-01-05T09:30:00Z')
+    )
+  })
+
+  it('reports schedules that cannot be saved after a timed run', async () => {
+    await scheduler.start()
+    await scheduler.createSchedule({
+      name: 'Every 15 minutes',
+      cron: '*/15 * * * *',
+      definition,
+    })
+    store.save = async () => {
+      throw new Error('Disk full')
+    }
+
+    await clock.advance(15 * MINUTE)
+
+    expect(launched).toHaveLength(1)
+    expect(events).toContainEqual({
+      name: 'schedule:error',
+      data: { error: 'Disk full' },
+    })
+    // The next trigger is still timed
+    expect(clock.nextTimerAt()).toEqual(new Date('2026-01-05T09:30:00Z'))
+  })
+})
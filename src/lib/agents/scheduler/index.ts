@@ -0,0 +1,383 @@
+/**
+ * Workflow Scheduler
+ *
+ * This module starts workflows on schedules: recurring ones driven by a cron
+ * expression and one-off ones at a set time. Each trigger creates and starts
+ * a fresh workflow from the schedule's definition. Triggers missed while the
+ * scheduler wasn't running are handled by the schedule's catch-up policy.
+ * All timing goes through an injectable clock.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { agentEventBus } from '../index'
+import { Clock, ClockTimer, systemClock } from '../clock'
+import {
+  WorkflowDefinitionInput,
+  WorkflowValidationIssue,
+  normalizeWorkflowDefinition,
+  validateWorkflowDefinition,
+} from '../workflow/validation'
+import { CronExpression, CronParseError } from './cron'
+import { CatchUpPolicy, Schedule, ScheduleStore } from './store'
+
+export type { CatchUpPolicy, Schedule } from './store'
+
+// Fields a client sets on a schedule
+export interface ScheduleInput {
+  name: string
+  cron?: string
+  runAt?: Date
+  catchUp?: CatchUpPolicy
+  enabled?: boolean
+  definition: WorkflowDefinitionInput
+}
+
+// Creates and starts a workflow for a trigger, returning the workflow id
+export type WorkflowLauncher = (
+  definition: WorkflowDefinitionInput,
+  trigger: { scheduleId: string; scheduledFor: Date }
+) => Promise<string>
+
+export interface WorkflowSchedulerOptions {
+  clock?: Clock
+  // How late a trigger can fire before it counts as missed
+  missedAfterMs?: number
+  // Most missed triggers run for a schedule with the `all` policy
+  maxCatchUp?: number
+}
+
+// Error raised for schedules that can't be saved
+export class ScheduleValidationError extends Error {
+  constructor(
+    message: string,
+    readonly errors: WorkflowValidationIssue[] = []
+  ) {
+    super(message)
+    this.name = 'ScheduleValidationError'
+  }
+}
+
+const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'once', 'all']
+
+// Read the schedule fields present in a JSON request body
+export function parseScheduleInput(
+  body: Record<string, unknown>
+): Partial<ScheduleInput> {
+  const input: Partial<ScheduleInput> = {}
+  if ('name' in body) input.name = body.name as string
+  if ('cron' in body) input.cron = (body.cron as string) || undefined
+  if ('runAt' in body) {
+    input.runAt = body.runAt ? new Date(body.runAt as string) : undefined
+  }
+  if ('catchUp' in body) input.catchUp = body.catchUp as CatchUpPolicy
+  if ('enabled' in body) input.enabled = Boolean(body.enabled)
+  if (body.definition && typeof body.definition === 'object') {
+    input.definition = normalizeWorkflowDefinition(body.definition)
+  }
+  return input
+}
+
+const DEFAULT_MISSED_AFTER_MS = 60 * 1000
+const DEFAULT_MAX_CATCH_UP = 100
+// Timers are re-armed at least this often, so a long sleep can't drift
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000
+
+export class WorkflowScheduler {
+  private schedules: Map<string, Schedule> = new Map()
+  private clock: Clock
+  private missedAfterMs: number
+  private maxCatchUp: number
+  private timer?: ClockTimer
+  private running = false
+  // Ticks and changes are serialized so a trigger never fires twice
+  private pending: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private store: ScheduleStore,
+    private launch: WorkflowLauncher,
+    options: WorkflowSchedulerOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.missedAfterMs = options.missedAfterMs ?? DEFAULT_MISSED_AFTER_MS
+    this.maxCatchUp = options.maxCatchUp ?? DEFAULT_MAX_CATCH_UP
+  }
+
+  // Load the saved schedules, catch up on missed triggers and start timing
+  async start(): Promise<void> {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    const schedules = await this.store.load()
+    this.schedules = new Map(schedules.map((s) => [s.id, s]))
+    await this.tick()
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  listSchedules(): Schedule[] {
+    return Array.from(this.schedules.values()).map((s) => structuredClone(s))
+  }
+
+  getSchedule(id: string): Schedule | null {
+    const schedule = this.schedules.get(id)
+    return schedule ? structuredClone(schedule) : null
+  }
+
+  async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    const now = this.clock.now()
+    const schedule: Schedule = {
+      id: uuidv4(),
+      name: input.name,
+      cron: input.cron,
+      runAt: input.runAt,
+      catchUp: input.catchUp ?? 'once',
+      enabled: input.enabled ?? true,
+      definition: input.definition,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.validate(schedule)
+    schedule.nextRunAt = this.getNextRunAt(schedule, now)
+
+    return this.serialize(async () => {
+      this.schedules.set(schedule.id, schedule)
+      await this.persist()
+      return structuredClone(schedule)
+    })
+  }
+
+  // Changing the timing or enabling a schedule counts from now; triggers
+  // missed while it was disabled aren't caught up
+  async updateSchedule(
+    id: string,
+    changes: Partial<ScheduleInput>
+  ): Promise<Schedule | null> {
+    const existing = this.schedules.get(id)
+    if (!existing) {
+      return null
+    }
+
+    const now = this.clock.now()
+    const updated: Schedule = { ...existing, ...changes, id, updatedAt: now }
+    if ('cron' in changes || 'runAt' in changes) {
+      // Setting one kind of timing replaces the other
+      updated.cron = changes.cron
+      updated.runAt = changes.runAt
+    }
+    this.validate(updated)
+
+    const retimed =
+      'cron' in changes ||
+      'runAt' in changes ||
+      (changes.enabled && !existing.enabled)
+    if (retimed || !updated.enabled) {
+      updated.nextRunAt = this.getNextRunAt(updated, now)
+    }
+
+    return this.serialize(async () => {
+      this.schedules.set(id, updated)
+      await this.persist()
+      return structuredClone(updated)
+    })
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    return this.serialize(async () => {
+      if (!this.schedules.delete(id)) {
+        return false
+      }
+      await this.persist()
+      return true
+    })
+  }
+
+  private validate(schedule: Schedule): void {
+    if (!schedule.name) {
+      throw new ScheduleValidationError('Schedule name is required')
+    }
+    if (Boolean(schedule.cron) === Boolean(schedule.runAt)) {
+      throw new ScheduleValidationError(
+        'A schedule needs either a cron expression or a runAt time'
+      )
+    }
+    if (schedule.cron) {
+      try {
+        CronExpression.parse(schedule.cron)
+      } catch (error) {
+        if (error instanceof CronParseError) {
+          throw new ScheduleValidationError(error.message)
+        }
+        throw error
+      }
+    }
+    if (schedule.runAt && isNaN(schedule.runAt.getTime())) {
+      throw new ScheduleValidationError('runAt is not a valid time')
+    }
+    if (!CATCH_UP_POLICIES.includes(schedule.catchUp)) {
+      throw new ScheduleValidationError(
+        `catchUp must be one of ${CATCH_UP_POLICIES.join(', ')}`
+      )
+    }
+
+    const validation = validateWorkflowDefinition(schedule.definition)
+    if (!validation.valid) {
+      throw new ScheduleValidationError(
+        'Invalid workflow definition',
+        validation.errors
+      )
+    }
+  }
+
+  // First trigger after `now`. A one-off time already past runs at once.
+  private getNextRunAt(schedule: Schedule, now: Date): Date | undefined {
+    if (!schedule.enabled) {
+      return undefined
+    }
+    if (schedule.runAt) {
+      return schedule.runAt
+    }
+    return CronExpression.parse(schedule.cron!).next(now) ?? undefined
+  }
+
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(work)
+    this.pending = result.catch(() => undefined)
+    return result.finally(() => this.arm())
+  }
+
+  private tick(): Promise<void> {
+    return this.serialize(() => this.runDueSchedules())
+  }
+
+  // Set a timer for the earliest upcoming trigger
+  private arm(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    if (!this.running) {
+      return
+    }
+
+    const times = Array.from(this.schedules.values())
+      .filter((s) => s.enabled && s.nextRunAt)
+      .map((s) => s.nextRunAt!.getTime())
+    if (times.length === 0) {
+      return
+    }
+
+    const delayMs = Math.min(...times) - this.clock.now().getTime()
+    this.timer = this.clock.setTimeout(
+      () => {
+        this.timer = undefined
+        this.tick().catch((error) => {
+          agentEventBus.publishEvent('schedule:error', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        })
+      },
+      Math.min(Math.max(delayMs, 0), MAX_TIMER_DELAY_MS)
+    )
+  }
+
+  private async runDueSchedules(): Promise<void> {
+    const now = this.clock.now()
+    let changed = false
+
+    for (const schedule of this.schedules.values()) {
+      if (schedule.enabled && schedule.nextRunAt && schedule.nextRunAt <= now) {
+        await this.runSchedule(schedule, now)
+        changed = true
+      }
+    }
+
+    if (changed) {
+      await this.persist()
+    }
+  }
+
+  // Fire the triggers of a schedule that are due, applying its catch-up
+  // policy to the ones that were missed, and move it to its next trigger
+  private async runSchedule(schedule: Schedule, now: Date): Promise<void> {
+    const due = this.getDueTimes(schedule, now)
+    const missed = due.filter(
+      (time) => now.getTime() - time.getTime() > this.missedAfterMs
+    )
+
+    let triggers: Date[]
+    switch (schedule.catchUp) {
+      case 'all':
+        triggers = due
+        break
+      case 'once':
+        triggers = due.slice(-1)
+        break
+      case 'skip':
+        triggers = due.filter((time) => !missed.includes(time))
+        break
+    }
+
+    if (due.length > triggers.length) {
+      agentEventBus.publishEvent('schedule:missed', {
+        scheduleId: schedule.id,
+        missed: due.length - triggers.length,
+        catchUp: schedule.catchUp,
+      })
+    }
+
+    for (const scheduledFor of triggers) {
+      try {
+        const workflowId = await this.launch(schedule.definition, {
+          scheduleId: schedule.id,
+          scheduledFor,
+        })
+        schedule.lastWorkflowId = workflowId
+        agentEventBus.publishEvent('schedule:triggered', {
+          scheduleId: schedule.id,
+          workflowId,
+          scheduledFor,
+          late: missed.includes(scheduledFor),
+        })
+      } catch (error) {
+        agentEventBus.publishEvent('schedule:failed', {
+          scheduleId: schedule.id,
+          scheduledFor,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    schedule.lastRunAt = due[due.length - 1]
+    schedule.nextRunAt = schedule.cron
+      ? CronExpression.parse(schedule.cron).next(now) ?? undefined
+      : undefined
+    schedule.updatedAt = now
+  }
+
+  // Trigger times from the schedule's next run up to now
+  private getDueTimes(schedule: Schedule, now: Date): Date[] {
+    if (!schedule.cron) {
+      return [schedule.nextRunAt!]
+    }
+
+    const cron = CronExpression.parse(schedule.cron)
+    const due: Date[] = []
+    let time: Date | null = schedule.nextRunAt!
+    while (time && time <= now && due.length < this.maxCatchUp) {
+      due.push(time)
+      time = cron.next(time)
+    }
+    return due
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save(Array.from(this.schedules.values()))
+  }
+}
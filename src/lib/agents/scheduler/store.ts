@@ -0,0 +1,103 @@
+/**
+ * Schedule Persistence
+ *
+ * This module defines the schedules that start workflows on a cron expression
+ * or at a set time, and the store they are saved to, so that schedules and
+ * the time they last ran survive a restart and missed runs can be caught up.
+ */
+
+import path from 'path'
+import { JsonFile } from '../jsonFile'
+import type { WorkflowDefinitionInput } from '../workflow/validation'
+
+// What to do with triggers missed while the scheduler wasn't running:
+// `skip` drops them, `once` runs the workflow once for all of them, and
+// `all` runs it for each
+export type CatchUpPolicy = 'skip' | 'once' | 'all'
+
+// Schedule Interface
+export interface Schedule {
+  id: string
+  name: string
+  // Five-field cron expression, for recurring schedules
+  cron?: string
+  // Time of a one-off run
+  runAt?: Date
+  catchUp: CatchUpPolicy
+  enabled: boolean
+  // Definition each triggered workflow is created from
+  definition: WorkflowDefinitionInput
+  // Unset while disabled, and once a one-off schedule has run
+  nextRunAt?: Date
+  lastRunAt?: Date
+  lastWorkflowId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Schedule Store Interface
+export interface ScheduleStore {
+  load(): Promise<Schedule[]>
+  save(schedules: Schedule[]): Promise<void>
+}
+
+function reviveDate(value?: Date): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+export function reviveSchedule(raw: Schedule): Schedule {
+  return {
+    ...raw,
+    runAt: reviveDate(raw.runAt),
+    nextRunAt: reviveDate(raw.nextRunAt),
+    lastRunAt: reviveDate(raw.lastRunAt),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  }
+}
+
+// In-memory store, used for tests and short-lived schedulers
+export class MemoryScheduleStore implements ScheduleStore {
+  private schedules: Schedule[] = []
+
+  async load(): Promise<Schedule[]> {
+    return structuredClone(this.schedules)
+  }
+
+  async save(schedules: Schedule[]): Promise<void> {
+    this.schedules = structuredClone(schedules)
+  }
+}
+
+// File-backed store, the default for single-process deployments
+export class FileScheduleStore implements ScheduleStore {
+  private file: JsonFile<Schedule[]>
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath)
+  }
+
+  async load(): Promise<Schedule[]> {
+    const schedules = await this.file.read()
+    return (schedules ?? []).map(reviveSchedule)
+  }
+
+  save(schedules: Schedule[]): Promise<void> {
+    return this.file.write(schedules)
+  }
+}
+
+// Create the store selected by the environment
+export function createScheduleStore(
+  config: Record<string, string | undefined> = process.env
+): ScheduleStore {
+  switch (config.SCHEDULE_STORE) {
+    case 'memory':
+      return new MemoryScheduleStore()
+    default:
+      return new FileScheduleStore(
+        config.SCHEDULE_STORE_PATH ||
+          path.join(process.cwd(), '.data', 'schedules.json')
+      )
+  }
+}
@@ -3,95 +3,177 @@
  *
  * This module implements the specialized agents for the AI-powered service business automation platform.
  * It includes customer service, scheduling, billing, and document management agents.
+ * Lead scraping and scoring, client onboarding, feedback analysis and proposal
+ * generation run the platform's business helpers; other tasks are simulated.
  */
 
 import {
+  AGENT_CAPABILITIES,
   BaseAgent,
   AgentType,
   AgentStatus,
   AgentTask,
   AgentResult,
+  AgentTaskResult,
   agentEventBus,
 } from '../index'
+import { AgentPool, AgentPoolStatus, getAgentConcurrency } from '../pool'
+import { getTaskQueue } from '../runtime'
+import { generateColdEmail, scrapeLeads, scoreLead } from '../../leadScraper'
+import { runOnboarding } from '../../onboardingAgent'
+import { analyzeFeedback } from '../../feedbackAgent'
+import { generateProposal } from '../../proposalGenerator'
 
 // Abstract base class for all specialized agents
 export abstract class SpecializedAgent implements BaseAgent {
   id: string
   type: AgentType
-  status: AgentStatus = AgentStatus.IDLE
   name: string
   description: string
   capabilities: string[]
+  readonly pool: AgentPool
 
   constructor(
     id: string,
     name: string,
     description: string,
     capabilities: string[],
-    type: AgentType
+    type: AgentType,
+    concurrency: number = getAgentConcurrency(type)
   ) {
     this.id = id
     this.name = name
     this.description = description
     this.capabilities = capabilities
     this.type = type
+    // Tasks delivered to a busy pool stay queued
+    this.pool = new AgentPool(
+      type,
+      concurrency,
+      () =>
+        getTaskQueue()
+          .listTasks(`task:${type}`)
+          .filter((entry) => !entry.deliveryTag).length
+    )
+  }
+
+  get status(): AgentStatus {
+    return this.pool.getStatus().status
   }
 
   async initialize(): Promise<void> {
-    this.status = AgentStatus.IDLE
-    // Subscribe to relevant events
-    agentEventBus.subscribeToEvent(
-      `task:${this.type}`,
-      this.handleTask.bind(this)
-    )
+    // Consume tasks for this agent type from the task queue; a task is
+    // acknowledged once its result has been published
+    const queue = getTaskQueue()
+    await queue.initialize()
+    queue.consume(`task:${this.type}`, this.handleTask.bind(this), {
+      concurrency: this.pool.concurrency,
+    })
   }
 
   private async handleTask(task: AgentTask): Promise<void> {
+    // Results are routed back to the workflow step that dispatched the task
+    const origin = {
+      workflowId: task.data.workflowId,
+      stepId: task.data.stepId,
+    }
+
+    let taskResult: AgentTaskResult
     try {
-      this.status = AgentStatus.WORKING
-      const result = await this.execute(task)
-      agentEventBus.publishEvent(`result:${task.id}`, result)
-      this.status = AgentStatus.COMPLETED
+      const result = await this.pool.run(
+        () => {
+          agentEventBus.publishEvent('agent:task_started', {
+            taskId: task.id,
+            agentId: this.id,
+            agentType: this.type,
+          })
+          return this.execute(task)
+        },
+        (r) => r.success
+      )
+      taskResult = { ...result, ...origin }
     } catch (error) {
-      this.status = AgentStatus.ERROR
-      const errorResult: AgentResult = {
+      taskResult = {
         taskId: task.id,
         success: false,
         data: {},
         error: error instanceof Error ? error.message : 'Unknown error',
         completedAt: new Date(),
+        ...origin,
       }
-      agentEventBus.publishEvent(`result:${task.id}`, errorResult)
-    } finally {
-      this.status = AgentStatus.IDLE
     }
+    agentEventBus.publishEvent(`result:${task.id}`, taskResult)
   }
 
   abstract execute(task: AgentTask): Promise<AgentResult>
 
-  getStatus(): AgentStatus {
-    return this.status
+  // Successful result of a task
+  protected succeed(task: AgentTask, data: AgentResult['data']): AgentResult {
+    return { taskId: task.id, success: true, data, completedAt: new Date() }
+  }
+
+  getStatus(): AgentPoolStatus {
+    return this.pool.getStatus()
   }
 }
 
 // Customer Service Agent
 export class CustomerServiceAgent extends SpecializedAgent {
-  constructor(id: string, name: string, description: string) {
+  constructor(
+    id: string,
+    name: string,
+    description: string,
+    concurrency?: number
+  ) {
     super(
       id,
       name,
       description,
-      [
-        'customer_inquiry_handling',
-        'complaint_resolution',
-        'feedback_collection',
-        'customer_communication',
-      ],
-      AgentType.CUSTOMER_SERVICE
+      AGENT_CAPABILITIES[AgentType.CUSTOMER_SERVICE],
+      AgentType.CUSTOMER_SERVICE,
+      concurrency
     )
   }
 
   async execute(task: AgentTask): Promise<AgentResult> {
+    switch (task.type) {
+      case 'lead_scraping':
+        return this.succeed(task, {
+          leads: await scrapeLeads({
+            icp: task.data.icp,
+            limit: task.data.limit,
+          }),
+        })
+      case 'lead_scoring': {
+        const reply = String(task.data.reply)
+        const score = scoreLead(reply)
+        // Published for triggers, e.g. one sending hot leads a proposal
+        agentEventBus.publishEvent('lead:scored', {
+          ...score,
+          taskId: task.id,
+          reply,
+          leadEmail: task.data.leadEmail,
+          workflowId: task.data.workflowId,
+        })
+        return this.succeed(task, { ...score })
+      }
+      case 'cold_email_generation':
+        return this.succeed(task, { email: generateColdEmail(task.data.lead) })
+      case 'client_onboarding':
+        return this.succeed(task, {
+          instructions: runOnboarding({
+            clientName: task.data.clientName,
+            projectName: task.data.projectName,
+            teamAssigned: task.data.teamAssigned || [],
+            slackWorkspace: task.data.slackWorkspace,
+          }),
+        })
+      case 'feedback_analysis':
+        return this.succeed(task, {
+          ...analyzeFeedback(String(task.data.feedback)),
+        })
+    }
+
     // Implementation for customer service tasks
     // This would include handling inquiries, processing feedback, etc.
 
@@ -112,18 +194,19 @@ export class CustomerServiceAgent extends SpecializedAgent {
 
 // Scheduling Agent
 export class SchedulingAgent extends SpecializedAgent {
-  constructor(id: string, name: string, description: string) {
+  constructor(
+    id: string,
+    name: string,
+    description: string,
+    concurrency?: number
+  ) {
     super(
       id,
       name,
       description,
-      [
-        'appointment_scheduling',
-        'calendar_management',
-        'availability_checking',
-        'reminder_sending',
-      ],
-      AgentType.SCHEDULING
+      AGENT_CAPABILITIES[AgentType.SCHEDULING],
+      AgentType.SCHEDULING,
+      concurrency
     )
   }
 
@@ -148,18 +231,19 @@ export class SchedulingAgent extends SpecializedAgent {
 
 // Billing Agent
 export class BillingAgent extends SpecializedAgent {
-  constructor(id: string, name: string, description: string) {
+  constructor(
+    id: string,
+    name: string,
+    description: string,
+    concurrency?: number
+  ) {
     super(
       id,
       name,
       description,
-      [
-        'invoice_generation',
-        'payment_processing',
-        'expense_tracking',
-        'financial_reporting',
-      ],
-      AgentType.BILLING
+      AGENT_CAPABILITIES[AgentType.BILLING],
+      AgentType.BILLING,
+      concurrency
     )
   }
 
@@ -184,22 +268,29 @@ export class BillingAgent extends SpecializedAgent {
 
 // Document Management Agent
 export class DocumentAgent extends SpecializedAgent {
-  constructor(id: string, name: string, description: string) {
+  constructor(
+    id: string,
+    name: string,
+    description: string,
+    concurrency?: number
+  ) {
     super(
       id,
       name,
       description,
-      [
-        'document_generation',
-        'document_analysis',
-        'template_management',
-        'document_storage',
-      ],
-      AgentType.DOCUMENT
+      AGENT_CAPABILITIES[AgentType.DOCUMENT],
+      AgentType.DOCUMENT,
+      concurrency
     )
   }
 
   async execute(task: AgentTask): Promise<AgentResult> {
+    if (task.type === 'proposal_generation') {
+      return this.succeed(task, {
+        proposal: generateProposal({ clientNeeds: task.data.clientNeeds }),
+      })
+    }
+
     // Implementation for document management tasks
     // This would include generating documents, analyzing content, etc.
 
@@ -226,16 +317,19 @@ export function createSpecializedAgent(
   const id = config.id || crypto.randomUUID()
   const name = config.name || `${type} Agent`
   const description = config.description || `Default ${type} agent`
+  const concurrency = config.concurrency
+    ? Number(config.concurrency)
+    : undefined
 
   switch (type) {
     case AgentType.CUSTOMER_SERVICE:
-      return new CustomerServiceAgent(id, name, description)
+      return new CustomerServiceAgent(id, name, description, concurrency)
     case AgentType.SCHEDULING:
-      return new SchedulingAgent(id, name, description)
+      return new SchedulingAgent(id, name, description, concurrency)
     case AgentType.BILLING:
-      return new BillingAgent(id, name, description)
+      return new BillingAgent(id, name, description, concurrency)
     case AgentType.DOCUMENT:
-      return new DocumentAgent(id, name, description)
+      return new DocumentAgent(id, name, description, concurrency)
     default:
       throw new Error(`Unsupported agent type: ${type}`)
   }
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Unsubscribe, agentEventBus } from '../index'
+import { WEBHOOK_HEADERS, WebhookReceiver, signWebhook } from './index'
+import { MemoryWebhookStore } from './store'
+
+const SECRET = 'test-secret'
+
+// Delivery as the payment provider posts it
+const PAYMENT_SUCCEEDED = JSON.stringify({
+  type: 'payment.succeeded',
+  data: {
+    paymentId: 'pay_1',
+    invoiceId: 'inv_1',
+    amount: 120,
+    currency: 'EUR',
+  },
+})
+
+// Headers of a delivery signed with `secret`, `seconds` ago
+function signedHeaders(
+  body: string,
+  options: { nonce?: string; secret?: string; seconds?: number } = {}
+): Headers {
+  const timestamp = Math.floor(Date.now() / 1000) - (options.seconds ?? 0)
+  const nonce = options.nonce ?? 'nonce-1'
+  return new Headers({
+    [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    [WEBHOOK_HEADERS.nonce]: nonce,
+    [WEBHOOK_HEADERS.signature]: signWebhook(
+      options.secret ?? SECRET,
+      timestamp,
+      nonce,
+      body
+    ),
+  })
+}
+
+describe('WebhookReceiver', () => {
+  let store: MemoryWebhookStore
+  let receiver: WebhookReceiver
+  let published: Array<{ name: string; data: unknown }>
+  let unsubscribe: Unsubscribe
+
+  beforeEach(() => {
+    store = new MemoryWebhookStore()
+    receiver = new WebhookReceiver(store, {
+      config: { WEBHOOK_SECRET_PAYMENTS: SECRET },
+    })
+    published = []
+    unsubscribe = agentEventBus.subscribeToEvent('payment:*', (data, name) => {
+      published.push({ name, data })
+    })
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it('publishes a delivery with a valid signature', async () => {
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(PAYMENT_SUCCEEDED),
+      PAYMENT_SUCCEEDED
+    )
+
+    expect(response.statusCode).toBe(202)
+    expect(published).toEqual([
+      {
+        name: 'payment:succeeded',
+        data: expect.objectContaining({
+          paymentId: 'pay_1',
+          source: 'payments',
+          deliveryId: response.body.deliveryId,
+        }),
+      },
+    ])
+    const [delivery] = await receiver.listDeliveries('payments')
+    expect(delivery).toMatchObject({
+      status: 'accepted',
+      event: 'payment:succeeded',
+    })
+  })
+
+  it('rejects a delivery signed with another secret', async () => {
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(PAYMENT_SUCCEEDED, { secret: 'other-secret' }),
+      PAYMENT_SUCCEEDED
+    )
+
+    expect(response.statusCode).toBe(401)
+    expect(response.body.error).toBe('Invalid signature')
+    expect(published).toEqual([])
+  })
+
+  it('rejects a body altered after signing', async () => {
+    const altered = PAYMENT_SUCCEEDED.replace('120', '1')
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(PAYMENT_SUCCEEDED),
+      altered
+    )
+
+    expect(response.statusCode).toBe(401)
+    expect(published).toEqual([])
+  })
+
+  it('rejects a delivery with a stale timestamp', async () => {
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(PAYMENT_SUCCEEDED, { seconds: 10 * 60 }),
+      PAYMENT_SUCCEEDED
+    )
+
+    expect(response.statusCode).toBe(401)
+    expect(response.body.error).toBe(
+      'Timestamp is outside the tolerance window'
+    )
+    expect(published).toEqual([])
+  })
+
+  it('rejects a replayed nonce', async () => {
+    const headers = signedHeaders(PAYMENT_SUCCEEDED)
+    const first = await receiver.receive('payments', headers, PAYMENT_SUCCEEDED)
+    const replay = await receiver.receive(
+      'payments',
+      headers,
+      PAYMENT_SUCCEEDED
+    )
+
+    expect(first.statusCode).toBe(202)
+    expect(replay.statusCode).toBe(409)
+    expect(published).toHaveLength(1)
+  })
+
+  it('rejects a signed payload that is not JSON', async () => {
+    const body = '{"type": "payment.succeeded"'
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(body),
+      body
+    )
+
+    expect(response.statusCode).toBe(400)
+    expect(published).toEqual([])
+  })
+
+  it('rejects a signed payload that does not match its schema', async () => {
+    const body = JSON.stringify({
+      type: 'payment.succeeded',
+      data: { paymentId: 'pay_1', amount: -5, currency: 'EUR' },
+    })
+    const response = await receiver.receive(
+      'payments',
+      signedHeaders(body),
+      body
+    )
+
+    expect(response.statusCode).toBe(422)
+    expect(response.body.error).toContain('amount')
+    expect(published).toEqual([])
+  })
+
+  it('records rejected deliveries with their error', async () => {
+    await receiver.receive(
+      'payments',
+      signedHeaders(PAYMENT_SUCCEEDED, { secret: 'other-secret' }),
+      PAYMENT_SUCCEEDED
+    )
+
+    const [delivery] = await store.listDeliveries({ source: 'payments' })
+    expect(delivery).toMatchObject({
+      status: 'rejected',
+      statusCode: 401,
+      error: 'Invalid signature',
+    })
+  })
+})
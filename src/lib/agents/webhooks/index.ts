@@ -0,0 +1,167 @@
+/**
+ * Inbound Webhooks
+ *
+ * This module receives webhooks posted by external systems. A delivery is
+ * checked against the source's secret, rejected when its timestamp is stale
+ * or its nonce was already used, normalized into a domain event and published
+ * on the event bus, where triggers and agents pick it up. Every delivery is
+ * recorded with the outcome, for debugging.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { agentEventBus } from '../index'
+import { WEBHOOK_HEADERS, verifyWebhookSignature } from './signature'
+import {
+  WEBHOOK_SOURCES,
+  WebhookPayloadError,
+  WebhookSource,
+  normalizeWebhookPayload,
+} from './sources'
+import { MAX_BODY_LENGTH, WebhookDelivery, WebhookStore } from './store'
+
+export { WEBHOOK_HEADERS, signWebhook } from './signature'
+export type { WebhookDelivery } from './store'
+
+export interface WebhookReceiverOptions {
+  // Sources accepted, by the name used in the URL
+  sources?: Record<string, WebhookSource>
+  // Where `WEBHOOK_SECRET_<SOURCE>` secrets are read from
+  config?: Record<string, string | undefined>
+  // How far a delivery's timestamp may be from the current time
+  toleranceMs?: number
+}
+
+// Response to send back to the source
+export interface WebhookResponse {
+  statusCode: number
+  body: Record<string, unknown>
+}
+
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000
+
+export class WebhookReceiver {
+  private sources: Record<string, WebhookSource>
+  private config: Record<string, string | undefined>
+  private toleranceMs: number
+
+  constructor(
+    private store: WebhookStore,
+    options: WebhookReceiverOptions = {}
+  ) {
+    this.sources = options.sources ?? WEBHOOK_SOURCES
+    this.config = options.config ?? process.env
+    this.toleranceMs = options.toleranceMs ?? DEFAULT_TOLERANCE_MS
+  }
+
+  hasSource(source: string): boolean {
+    return Object.hasOwn(this.sources, source)
+  }
+
+  listDeliveries(source: string, limit?: number): Promise<WebhookDelivery[]> {
+    return this.store.listDeliveries({ source, limit })
+  }
+
+  getDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.store.getDelivery(id)
+  }
+
+  // Verify, normalize and publish a delivery. `body` is the raw request
+  // body, as signed by the source.
+  async receive(
+    source: string,
+    headers: { get(name: string): string | null },
+    body: string
+  ): Promise<WebhookResponse> {
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      source,
+      status: 'rejected',
+      statusCode: 0,
+      receivedAt: new Date(),
+      timestamp: headers.get(WEBHOOK_HEADERS.timestamp) ?? undefined,
+      nonce: headers.get(WEBHOOK_HEADERS.nonce) ?? undefined,
+      signature: headers.get(WEBHOOK_HEADERS.signature) ?? undefined,
+      body: body.slice(0, MAX_BODY_LENGTH),
+    }
+
+    const response = await this.process(delivery, body)
+    delivery.statusCode = response.statusCode
+    if (response.statusCode < 300) {
+      delivery.status = 'accepted'
+    } else {
+      delivery.error = response.body.error as string
+    }
+    await this.store.saveDelivery(delivery)
+
+    return {
+      ...response,
+      body: { ...response.body, deliveryId: delivery.id },
+    }
+  }
+
+  private async process(
+    delivery: WebhookDelivery,
+    body: string
+  ): Promise<WebhookResponse> {
+    if (!this.hasSource(delivery.source)) {
+      return reject(404, 'Unknown webhook source')
+    }
+    const secret =
+      this.config[`WEBHOOK_SECRET_${delivery.source.toUpperCase()}`]
+    if (!secret) {
+      return reject(503, 'Webhook source is not configured')
+    }
+
+    // Signature and replay checks
+    const { timestamp, nonce, signature } = delivery
+    if (!timestamp || !nonce || !signature) {
+      return reject(401, 'Missing signature headers')
+    }
+    const timestampMs = Number(timestamp) * 1000
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(Date.now() - timestampMs) > this.toleranceMs
+    ) {
+      return reject(401, 'Timestamp is outside the tolerance window')
+    }
+    if (
+      !verifyWebhookSignature(secret, signature, Number(timestamp), nonce, body)
+    ) {
+      return reject(401, 'Invalid signature')
+    }
+    // A nonce is remembered for as long as its timestamp would be accepted
+    const expiresAt = new Date(timestampMs + this.toleranceMs)
+    if (!(await this.store.claimNonce(delivery.source, nonce, expiresAt))) {
+      return reject(409, 'Delivery was already received')
+    }
+
+    // Normalization
+    let payload: unknown
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      return reject(400, 'Body is not valid JSON')
+    }
+    let event
+    try {
+      event = normalizeWebhookPayload(this.sources[delivery.source], payload)
+    } catch (error) {
+      if (error instanceof WebhookPayloadError) {
+        return reject(422, error.message)
+      }
+      throw error
+    }
+
+    delivery.event = event.name
+    agentEventBus.publishEvent(event.name, {
+      ...event.data,
+      source: delivery.source,
+      deliveryId: delivery.id,
+    })
+    return { statusCode: 202, body: { event: event.name } }
+  }
+}
+
+function reject(statusCode: number, error: string): WebhookResponse {
+  return { statusCode, body: { error } }
+}
@@ -0,0 +1,45 @@
+/**
+ * Webhook Signatures
+ *
+ * This module signs and verifies webhook deliveries. A signature is an
+ * HMAC-SHA256, keyed with the secret shared with the other system, over the
+ * delivery's timestamp, nonce and raw body, so a captured delivery can't be
+ * altered or re-sent with a fresh timestamp.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Headers carrying the signature and what it covers
+export const WEBHOOK_HEADERS = {
+  signature: 'x-webhook-signature',
+  timestamp: 'x-webhook-timestamp',
+  nonce: 'x-webhook-nonce',
+} as const
+
+const SIGNATURE_PREFIX = 'sha256='
+
+// Signature header value for a delivery. `timestamp` is in Unix seconds.
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  nonce: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex')
+  return `${SIGNATURE_PREFIX}${digest}`
+}
+
+// Compare in constant time, so the signature can't be guessed byte by byte
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: number,
+  nonce: string,
+  body: string
+): boolean {
+  const expected = Buffer.from(signWebhook(secret, timestamp, nonce, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
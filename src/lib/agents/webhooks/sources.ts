@@ -0,0 +1,146 @@
+/**
+ * Webhook Sources
+ *
+ * This module defines the external systems that post webhooks (payments,
+ * bookings and messages) and how their payloads become domain events. Every
+ * source posts an envelope of `{ type, data }`; the type selects the domain
+ * event published on the bus and the schema its data must match.
+ */
+
+import { z } from 'zod'
+
+// Envelope posted by every source
+const webhookEnvelopeSchema = z.object({
+  type: z.string().min(1),
+  data: z.record(z.unknown()),
+})
+
+const paymentEventSchema = z.object({
+  paymentId: z.string().min(1),
+  invoiceId: z.string().optional(),
+  customerId: z.string().optional(),
+  amount: z.number().nonnegative(),
+  currency: z.string().length(3),
+  // Why a payment failed
+  reason: z.string().optional(),
+})
+
+const bookingEventSchema = z.object({
+  bookingId: z.string().min(1),
+  customerEmail: z.string().email(),
+  serviceId: z.string().optional(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date().optional(),
+})
+
+const messageEventSchema = z.object({
+  messageId: z.string().min(1),
+  from: z.string().min(1),
+  subject: z.string().optional(),
+  body: z.string(),
+  threadId: z.string().optional(),
+  leadId: z.string().optional(),
+})
+
+export type PaymentEvent = z.infer<typeof paymentEventSchema>
+export type BookingEvent = z.infer<typeof bookingEventSchema>
+export type MessageEvent = z.infer<typeof messageEventSchema>
+
+// Domain event a payload type is published as
+interface WebhookEventMapping {
+  event: string
+  schema: z.ZodType<Record<string, unknown>>
+}
+
+// Webhook Source Interface
+export interface WebhookSource {
+  description: string
+  events: Record<string, WebhookEventMapping>
+}
+
+export const WEBHOOK_SOURCES: Record<string, WebhookSource> = {
+  payments: {
+    description: 'Payment provider',
+    events: {
+      'payment.succeeded': {
+        event: 'payment:succeeded',
+        schema: paymentEventSchema,
+      },
+      'payment.failed': { event: 'payment:failed', schema: paymentEventSchema },
+      'payment.refunded': {
+        event: 'payment:refunded',
+        schema: paymentEventSchema,
+      },
+    },
+  },
+  bookings: {
+    description: 'Booking calendar',
+    events: {
+      'booking.created': {
+        event: 'booking:created',
+        schema: bookingEventSchema,
+      },
+      'booking.rescheduled': {
+        event: 'booking:rescheduled',
+        schema: bookingEventSchema,
+      },
+      'booking.cancelled': {
+        event: 'booking:cancelled',
+        schema: bookingEventSchema,
+      },
+    },
+  },
+  messages: {
+    description: 'Email and chat replies',
+    events: {
+      'message.received': {
+        event: 'message:received',
+        schema: messageEventSchema,
+      },
+    },
+  },
+}
+
+// Error raised for payloads that don't map to a domain event
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookPayloadError'
+  }
+}
+
+// Domain event a delivery is published as
+export interface NormalizedWebhookEvent {
+  name: string
+  data: Record<string, unknown>
+}
+
+export function normalizeWebhookPayload(
+  source: WebhookSource,
+  payload: unknown
+): NormalizedWebhookEvent {
+  const envelope = webhookEnvelopeSchema.safeParse(payload)
+  if (!envelope.success) {
+    throw new WebhookPayloadError(
+      'Payload must be an object with a type and data'
+    )
+  }
+
+  const mapping = source.events[envelope.data.type]
+  if (!mapping) {
+    throw new WebhookPayloadError(
+      `Unsupported event type: ${envelope.data.type}`
+    )
+  }
+
+  const data = mapping.schema.safeParse(envelope.data.data)
+  if (!data.success) {
+    throw new WebhookPayloadError(
+      data.error.issues
+        .map((issue) => `${issue.path.join('.') || 'data'}: ${issue.message}`)
+        .join('; ')
+    )
+  }
+
+  return { name: mapping.event, data: data.data }
+}
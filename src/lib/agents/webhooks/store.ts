@@ -0,0 +1,368 @@
+/**
+ * Webhook Delivery Persistence
+ *
+ * This module defines the record kept of every inbound webhook delivery,
+ * accepted or not, for debugging, and the store it is saved to. The store
+ * also remembers the nonces of recent deliveries so a replayed delivery is
+ * rejected even after a restart, and keeps the outbound webhook
+ * subscriptions with the log of what was sent to them.
+ */
+
+import path from 'path'
+import { JsonFile } from '../jsonFile'
+import type { SubscriptionDelivery, WebhookSubscription } from './subscriptions'
+
+export type WebhookDeliveryStatus = 'accepted' | 'rejected'
+
+// Webhook Delivery Interface
+export interface WebhookDelivery {
+  id: string
+  source: string
+  status: WebhookDeliveryStatus
+  // HTTP status the delivery was answered with
+  statusCode: number
+  error?: string
+  receivedAt: Date
+  // Signature headers as received
+  timestamp?: string
+  nonce?: string
+  signature?: string
+  // Raw body, cut to MAX_BODY_LENGTH
+  body: string
+  // Domain event the delivery was published as
+  event?: string
+}
+
+// Webhook Store Interface
+export interface WebhookStore {
+  saveDelivery(delivery: WebhookDelivery): Promise<void>
+  // Most recent deliveries first
+  listDeliveries(filter?: {
+    source?: string
+    limit?: number
+  }): Promise<WebhookDelivery[]>
+  getDelivery(id: string): Promise<WebhookDelivery | null>
+  // Remember a nonce until it expires. Returns false when the source already
+  // used it.
+  claimNonce(source: string, nonce: string, expiresAt: Date): Promise<boolean>
+  loadSubscriptions(): Promise<WebhookSubscription[]>
+  saveSubscription(subscription: WebhookSubscription): Promise<void>
+  deleteSubscription(subscriptionId: string): Promise<void>
+  // Insert or update a delivery to a subscription
+  saveSubscriptionDelivery(delivery: SubscriptionDelivery): Promise<void>
+  // Most recent deliveries first
+  listSubscriptionDeliveries(filter?: {
+    subscriptionId?: string
+    status?: SubscriptionDelivery['status']
+    limit?: number
+  }): Promise<SubscriptionDelivery[]>
+}
+
+// Longest body kept on a delivery record
+export const MAX_BODY_LENGTH = 64 * 1024
+
+const DEFAULT_MAX_DELIVERIES = 1000
+
+interface NonceRecord {
+  source: string
+  nonce: string
+  expiresAt: Date
+}
+
+// Serialized shape of the file store
+interface WebhookStoreSnapshot {
+  deliveries: WebhookDelivery[]
+  nonces: NonceRecord[]
+  subscriptions: WebhookSubscription[]
+  subscriptionDeliveries: SubscriptionDelivery[]
+}
+
+type SubscriptionDeliveryFilter = Parameters<
+  WebhookStore['listSubscriptionDeliveries']
+>[0]
+
+function emptySnapshot(): WebhookStoreSnapshot {
+  return {
+    deliveries: [],
+    nonces: [],
+    subscriptions: [],
+    subscriptionDeliveries: [],
+  }
+}
+
+function reviveDelivery(raw: WebhookDelivery): WebhookDelivery {
+  return { ...raw, receivedAt: new Date(raw.receivedAt) }
+}
+
+function reviveSubscription(raw: WebhookSubscription): WebhookSubscription {
+  return {
+    ...raw,
+    disabledAt: raw.disabledAt ? new Date(raw.disabledAt) : undefined,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  }
+}
+
+function reviveSubscriptionDelivery(
+  raw: SubscriptionDelivery
+): SubscriptionDelivery {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    nextAttemptAt: raw.nextAttemptAt ? new Date(raw.nextAttemptAt) : undefined,
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    attempts: raw.attempts.map((attempt) => ({
+      ...attempt,
+      sentAt: new Date(attempt.sentAt),
+    })),
+  }
+}
+
+// Remove the deliveries beyond the most recent ones and expired nonces.
+// Pending deliveries to subscriptions are kept until they finish.
+function prune(snapshot: WebhookStoreSnapshot, maxDeliveries: number): void {
+  const now = Date.now()
+  snapshot.deliveries.splice(maxDeliveries)
+  snapshot.nonces = snapshot.nonces.filter(
+    (n) => new Date(n.expiresAt).getTime() > now
+  )
+  snapshot.subscriptionDeliveries = snapshot.subscriptionDeliveries.filter(
+    (d, index) => index < maxDeliveries || d.status === 'pending'
+  )
+}
+
+function upsertSubscriptionDelivery(
+  snapshot: WebhookStoreSnapshot,
+  delivery: SubscriptionDelivery
+): void {
+  const index = snapshot.subscriptionDeliveries.findIndex(
+    (d) => d.id === delivery.id
+  )
+  if (index === -1) {
+    snapshot.subscriptionDeliveries.unshift(structuredClone(delivery))
+  } else {
+    snapshot.subscriptionDeliveries[index] = structuredClone(delivery)
+  }
+}
+
+function filterSubscriptionDeliveries(
+  deliveries: SubscriptionDelivery[],
+  filter: SubscriptionDeliveryFilter = {}
+): SubscriptionDelivery[] {
+  const { subscriptionId, status } = filter
+  return deliveries
+    .filter((d) => !subscriptionId || d.subscriptionId === subscriptionId)
+    .filter((d) => !status || d.status === status)
+    .slice(0, filter.limit ?? deliveries.length)
+}
+
+function hasNonce(
+  snapshot: WebhookStoreSnapshot,
+  source: string,
+  nonce: string
+): boolean {
+  return snapshot.nonces.some((n) => n.source === source && n.nonce === nonce)
+}
+
+// In-memory store, used for tests and short-lived receivers
+export class MemoryWebhookStore implements WebhookStore {
+  private snapshot: WebhookStoreSnapshot = emptySnapshot()
+
+  constructor(private maxDeliveries = DEFAULT_MAX_DELIVERIES) {}
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.snapshot.deliveries.unshift(structuredClone(delivery))
+    prune(this.snapshot, this.maxDeliveries)
+  }
+
+  async listDeliveries(
+    filter: { source?: string; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    return this.snapshot.deliveries
+      .filter((d) => !filter.source || d.source === filter.source)
+      .slice(0, filter.limit ?? this.maxDeliveries)
+      .map((d) => structuredClone(d))
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const delivery = this.snapshot.deliveries.find((d) => d.id === id)
+    return delivery ? structuredClone(delivery) : null
+  }
+
+  async claimNonce(
+    source: string,
+    nonce: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    prune(this.snapshot, this.maxDeliveries)
+    if (hasNonce(this.snapshot, source, nonce)) {
+      return false
+    }
+    this.snapshot.nonces.push({ source, nonce, expiresAt })
+    return true
+  }
+
+  async loadSubscriptions(): Promise<WebhookSubscription[]> {
+    return structuredClone(this.snapshot.subscriptions)
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.snapshot.subscriptions = [
+      ...this.snapshot.subscriptions.filter((s) => s.id !== subscription.id),
+      structuredClone(subscription),
+    ]
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    this.snapshot.subscriptions = this.snapshot.subscriptions.filter(
+      (s) => s.id !== subscriptionId
+    )
+    this.snapshot.subscriptionDeliveries =
+      this.snapshot.subscriptionDeliveries.filter(
+        (d) => d.subscriptionId !== subscriptionId
+      )
+  }
+
+  async saveSubscriptionDelivery(
+    delivery: SubscriptionDelivery
+  ): Promise<void> {
+    upsertSubscriptionDelivery(this.snapshot, delivery)
+    prune(this.snapshot, this.maxDeliveries)
+  }
+
+  async listSubscriptionDeliveries(
+    filter?: SubscriptionDeliveryFilter
+  ): Promise<SubscriptionDelivery[]> {
+    return structuredClone(
+      filterSubscriptionDeliveries(this.snapshot.subscriptionDeliveries, filter)
+    )
+  }
+}
+
+// File-backed store, the default for single-process deployments
+export class FileWebhookStore implements WebhookStore {
+  private snapshot: WebhookStoreSnapshot | null = null
+  private file: JsonFile<WebhookStoreSnapshot>
+
+  constructor(
+    filePath: string,
+    private maxDeliveries = DEFAULT_MAX_DELIVERIES
+  ) {
+    this.file = new JsonFile(filePath)
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.deliveries.unshift(structuredClone(delivery))
+    prune(snapshot, this.maxDeliveries)
+    await this.write()
+  }
+
+  async listDeliveries(
+    filter: { source?: string; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const snapshot = await this.read()
+    return snapshot.deliveries
+      .filter((d) => !filter.source || d.source === filter.source)
+      .slice(0, filter.limit ?? this.maxDeliveries)
+      .map(reviveDelivery)
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const snapshot = await this.read()
+    const delivery = snapshot.deliveries.find((d) => d.id === id)
+    return delivery ? reviveDelivery(delivery) : null
+  }
+
+  async claimNonce(
+    source: string,
+    nonce: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const snapshot = await this.read()
+    prune(snapshot, this.maxDeliveries)
+    if (hasNonce(snapshot, source, nonce)) {
+      return false
+    }
+    snapshot.nonces.push({ source, nonce, expiresAt })
+    await this.write()
+    return true
+  }
+
+  async loadSubscriptions(): Promise<WebhookSubscription[]> {
+    const snapshot = await this.read()
+    return snapshot.subscriptions.map(reviveSubscription)
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    const snapshot = await this.read()
+    const index = snapshot.subscriptions.findIndex(
+      (s) => s.id === subscription.id
+    )
+    if (index === -1) {
+      snapshot.subscriptions.push(structuredClone(subscription))
+    } else {
+      snapshot.subscriptions[index] = structuredClone(subscription)
+    }
+    await this.write()
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.subscriptions = snapshot.subscriptions.filter(
+      (s) => s.id !== subscriptionId
+    )
+    snapshot.subscriptionDeliveries = snapshot.subscriptionDeliveries.filter(
+      (d) => d.subscriptionId !== subscriptionId
+    )
+    await this.write()
+  }
+
+  async saveSubscriptionDelivery(
+    delivery: SubscriptionDelivery
+  ): Promise<void> {
+    const snapshot = await this.read()
+    upsertSubscriptionDelivery(snapshot, delivery)
+    prune(snapshot, this.maxDeliveries)
+    await this.write()
+  }
+
+  async listSubscriptionDeliveries(
+    filter?: SubscriptionDeliveryFilter
+  ): Promise<SubscriptionDelivery[]> {
+    const snapshot = await this.read()
+    return filterSubscriptionDeliveries(
+      snapshot.subscriptionDeliveries,
+      filter
+    ).map(reviveSubscriptionDelivery)
+  }
+
+  private async read(): Promise<WebhookStoreSnapshot> {
+    if (this.snapshot) {
+      return this.snapshot
+    }
+
+    // Stores written before subscriptions were added have none
+    this.snapshot = { ...emptySnapshot(), ...(await this.file.read()) }
+    return this.snapshot
+  }
+
+  private write(): Promise<void> {
+    return this.file.write(this.snapshot!)
+  }
+}
+
+// Create the store selected by the environment
+export function createWebhookStore(
+  config: Record<string, string | undefined> = process.env
+): WebhookStore {
+  switch (config.WEBHOOK_STORE) {
+    case 'memory':
+      return new MemoryWebhookStore()
+    default:
+      return new FileWebhookStore(
+        config.WEBHOOK_STORE_PATH ||
+          path.join(process.cwd(), '.data', 'webhooks.json')
+      )
+  }
+}
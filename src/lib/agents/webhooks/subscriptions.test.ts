@@ -0,0 +1,270 @@
+import { createServer, IncomingMessage, Server } from 'http'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Unsubscribe, agentEventBus } from '../index'
+import { VirtualClock } from '../clock'
+import { WEBHOOK_HEADERS, verifyWebhookSignature } from './signature'
+import { MemoryWebhookStore } from './store'
+import { SubscriptionDelivery, WebhookPublisher } from './subscriptions'
+
+const SECRET = 'whsec_test'
+
+// Poll until a condition holds, letting the publisher's promises run
+async function waitFor(condition: () => Promise<boolean>): Promise<void> {
+  const deadline = Date.now() + 2000
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+// Fetch answering with the given status codes in turn, recording each call
+function fakeFetch(statusCodes: number[]) {
+  const calls: RequestInit[] = []
+  const fetch = async (_url: unknown, init?: RequestInit) => {
+    calls.push(init!)
+    const status = statusCodes[Math.min(calls.length, statusCodes.length) - 1]
+    return new Response(null, { status })
+  }
+  return { calls, fetch: fetch as typeof globalThis.fetch }
+}
+
+describe('WebhookPublisher', () => {
+  let store: MemoryWebhookStore
+  let publisher: WebhookPublisher | undefined
+
+  beforeEach(() => {
+    store = new MemoryWebhookStore()
+  })
+
+  afterEach(() => {
+    publisher?.stop()
+    publisher = undefined
+  })
+
+  async function deliveries(): Promise<SubscriptionDelivery[]> {
+    return store.listSubscriptionDeliveries()
+  }
+
+  async function settled(count = 1): Promise<void> {
+    await waitFor(async () => {
+      const list = await deliveries()
+      return (
+        list.length >= count && list.every((d) => d.status !== 'pending')
+      )
+    })
+  }
+
+  describe('against a local HTTP server', () => {
+    let server: Server
+    let url: string
+    let received: Array<{ headers: IncomingMessage['headers']; body: string }>
+
+    beforeEach(async () => {
+      received = []
+      server = createServer((request, response) => {
+        let body = ''
+        request.on('data', (chunk) => (body += chunk))
+        request.on('end', () => {
+          received.push({ headers: request.headers, body })
+          response.statusCode = 204
+          response.end()
+        })
+      })
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      )
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+    })
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('posts matching events signed with the secret', async () => {
+      publisher = new WebhookPublisher(store)
+      await publisher.start()
+      const subscription = await publisher.createSubscription({
+        url,
+        secret: SECRET,
+        events: ['invoice:*'],
+      })
+
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_1' })
+      agentEventBus.publishEvent('lead:created', { leadId: 'lead_1' })
+      await settled()
+
+      expect(received).toHaveLength(1)
+      const [{ headers, body }] = received
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'invoice:paid',
+        data: { invoiceId: 'inv_1' },
+      })
+      expect(
+        verifyWebhookSignature(
+          SECRET,
+          headers[WEBHOOK_HEADERS.signature] as string,
+          Number(headers[WEBHOOK_HEADERS.timestamp]),
+          headers[WEBHOOK_HEADERS.nonce] as string,
+          body
+        )
+      ).toBe(true)
+
+      const [delivery] = await publisher.listDeliveries(subscription.id)
+      expect(delivery).toMatchObject({
+        status: 'succeeded',
+        attempts: [expect.objectContaining({ responseCode: 204 })],
+      })
+    })
+  })
+
+  describe('with an injected fetch', () => {
+    let clock: VirtualClock
+    let events: Array<{ name: string; data: unknown }>
+    let unsubscribe: Unsubscribe
+
+    beforeEach(() => {
+      clock = new VirtualClock()
+      events = []
+      unsubscribe = agentEventBus.subscribeToEvent(
+        'webhook:*',
+        (data, name) => {
+          events.push({ name, data })
+        }
+      )
+    })
+
+    afterEach(() => {
+      unsubscribe()
+    })
+
+    it('retries failed attempts with backoff until one succeeds', async () => {
+      const { calls, fetch } = fakeFetch([503, 503, 200])
+      publisher = new WebhookPublisher(store, {
+        clock,
+        fetch,
+        retryPolicy: { maxAttempts: 3, initialDelayMs: 1000 },
+      })
+      await publisher.start()
+      await publisher.createSubscription({
+        url: 'https://example.test/hook',
+        events: ['invoice:paid'],
+      })
+
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_1' })
+      await waitFor(async () => clock.nextTimerAt() !== undefined)
+      await clock.advance(1000)
+      await waitFor(async () => clock.nextTimerAt() !== undefined)
+      await clock.advance(2000)
+      await settled()
+
+      const [delivery] = await deliveries()
+      expect(delivery.status).toBe('succeeded')
+      expect(delivery.attempts.map((a) => a.responseCode)).toEqual([
+        503, 503, 200,
+      ])
+      // Each attempt is signed with a nonce of its own
+      const nonces = calls.map(
+        (call) =>
+          (call.headers as Record<string, string>)[WEBHOOK_HEADERS.nonce]
+      )
+      expect(new Set(nonces).size).toBe(3)
+      expect(
+        events.filter((event) => event.name === 'webhook:delivery_failed')
+      ).toHaveLength(2)
+    })
+
+    it('does not retry client errors', async () => {
+      const { calls, fetch } = fakeFetch([400])
+      publisher = new WebhookPublisher(store, { clock, fetch })
+      await publisher.start()
+      await publisher.createSubscription({
+        url: 'https://example.test/hook',
+        events: ['invoice:paid'],
+      })
+
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_1' })
+      await settled()
+
+      expect(calls).toHaveLength(1)
+      const [delivery] = await deliveries()
+      expect(delivery.status).toBe('failed')
+      expect(clock.nextTimerAt()).toBeUndefined()
+    })
+
+    it('reports and retries a delivery that cannot be saved', async () => {
+      const { calls, fetch } = fakeFetch([200])
+      publisher = new WebhookPublisher(store, {
+        clock,
+        fetch,
+        retryPolicy: { maxAttempts: 3, initialDelayMs: 1000 },
+      })
+      await publisher.start()
+      await publisher.createSubscription({
+        url: 'https://example.test/hook',
+        events: ['invoice:paid'],
+      })
+      const save = store.saveSubscriptionDelivery.bind(store)
+      store.saveSubscriptionDelivery = async () => {
+        throw new Error('Disk full')
+      }
+
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_1' })
+      await waitFor(async () => clock.nextTimerAt() !== undefined)
+
+      expect(calls).toHaveLength(0)
+      expect(events).toContainEqual({
+        name: 'webhook:delivery_failed',
+        data: expect.objectContaining({
+          attempt: 0,
+          error: "Delivery couldn't be saved: Disk full",
+          willRetry: true,
+        }),
+      })
+
+      // Once the store is back the retry goes out
+      store.saveSubscriptionDelivery = save
+      await clock.advance(1000)
+      await settled()
+
+      expect(calls).toHaveLength(1)
+      const [delivery] = await deliveries()
+      expect(delivery.status).toBe('succeeded')
+    })
+
+    it('disables a subscription whose deliveries keep failing', async () => {
+      const { fetch } = fakeFetch([410])
+      publisher = new WebhookPublisher(store, {
+        clock,
+        fetch,
+        disableAfterFailures: 2,
+      })
+      await publisher.start()
+      const subscription = await publisher.createSubscription({
+        url: 'https://example.test/hook',
+        events: ['invoice:paid'],
+      })
+
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_1' })
+      await settled(1)
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_2' })
+      await settled(2)
+
+      expect(publisher.getSubscription(subscription.id)).toMatchObject({
+        enabled: false,
+        consecutiveFailures: 2,
+      })
+      expect(events).toContainEqual({
+        name: 'webhook:subscription_disabled',
+        data: { subscriptionId: subscription.id, failures: 2 },
+      })
+
+      // Events after that are no longer delivered
+      agentEventBus.publishEvent('invoice:paid', { invoiceId: 'inv_3' })
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      expect(await deliveries()).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,514 @@
+/**
+ * Outbound Webhook Subscriptions
+ *
+ * This module delivers bus events to the URLs of downstream tools. A
+ * subscription lists the event names or patterns it wants; each matching
+ * event is posted as JSON, signed with the subscription's secret like inbound
+ * webhooks are, and retried with backoff when it fails. Every attempt is
+ * logged with its response code, and a subscription whose deliveries keep
+ * failing is disabled.
+ */
+
+import { randomBytes } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { Unsubscribe, agentEventBus, compileEventPattern } from '../index'
+import { Clock, ClockTimer, systemClock } from '../clock'
+import { RetryPolicy, getRetryDelay, shouldRetry } from '../workflow/retry'
+import { WEBHOOK_HEADERS, signWebhook } from './signature'
+import type { WebhookStore } from './store'
+
+// Webhook Subscription Interface
+export interface WebhookSubscription {
+  id: string
+  url: string
+  // Key the deliveries are signed with
+  secret: string
+  // Event names or patterns, e.g. `workflow:completed` or `payment:*`
+  events: string[]
+  description?: string
+  enabled: boolean
+  // Deliveries in a row that failed every attempt
+  consecutiveFailures: number
+  disabledAt?: Date
+  disabledReason?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type SubscriptionDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+// One POST of a delivery
+export interface SubscriptionDeliveryAttempt {
+  attempt: number
+  sentAt: Date
+  responseCode?: number
+  error?: string
+  durationMs: number
+}
+
+// Subscription Delivery Interface
+export interface SubscriptionDelivery {
+  id: string
+  subscriptionId: string
+  event: string
+  // JSON body, sent unchanged on every attempt
+  body: string
+  status: SubscriptionDeliveryStatus
+  attempts: SubscriptionDeliveryAttempt[]
+  nextAttemptAt?: Date
+  createdAt: Date
+  completedAt?: Date
+}
+
+// Fields a client sets on a subscription
+export interface SubscriptionInput {
+  url: string
+  secret?: string
+  events: string[]
+  description?: string
+  enabled?: boolean
+}
+
+// Error raised for subscriptions that can't be saved
+export class SubscriptionValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SubscriptionValidationError'
+  }
+}
+
+// Read the subscription fields present in a JSON request body
+export function parseSubscriptionInput(
+  body: Record<string, unknown>
+): Partial<SubscriptionInput> {
+  const input: Partial<SubscriptionInput> = {}
+  if ('url' in body) input.url = body.url as string
+  if ('secret' in body) input.secret = (body.secret as string) || undefined
+  if ('events' in body) input.events = body.events as string[]
+  if ('description' in body) {
+    input.description = (body.description as string) || undefined
+  }
+  if ('enabled' in body) input.enabled = Boolean(body.enabled)
+  return input
+}
+
+// Subscription as shown after creation: only the end of the secret is kept
+export function redactSubscription(
+  subscription: WebhookSubscription
+): WebhookSubscription {
+  return { ...subscription, secret: `...${subscription.secret.slice(-4)}` }
+}
+
+export interface WebhookPublisherOptions {
+  clock?: Clock
+  // HTTP client, replaced in tests
+  fetch?: typeof fetch
+  retryPolicy?: RetryPolicy
+  // Deliveries in a row that fail every attempt before a subscription is
+  // disabled
+  disableAfterFailures?: number
+  // How long to wait for a response
+  timeoutMs?: number
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  backoff: 'exponential',
+  initialDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+}
+const DEFAULT_DISABLE_AFTER_FAILURES = 5
+const DEFAULT_TIMEOUT_MS = 10 * 1000
+
+// Responses worth trying again; other client errors won't change on retry
+function isRetryable(responseCode?: number): boolean {
+  return (
+    responseCode === undefined ||
+    responseCode === 408 ||
+    responseCode === 429 ||
+    responseCode >= 500
+  )
+}
+
+export class WebhookPublisher {
+  private subscriptions: Map<string, WebhookSubscription> = new Map()
+  private patterns: Map<string, RegExp[]> = new Map()
+  private retryTimers: Map<string, ClockTimer> = new Map()
+  private unsubscribe?: Unsubscribe
+  private clock: Clock
+  private fetch: typeof fetch
+  private retryPolicy: RetryPolicy
+  private disableAfterFailures: number
+  private timeoutMs: number
+
+  constructor(
+    private store: WebhookStore,
+    options: WebhookPublisherOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock
+    this.fetch = options.fetch ?? fetch
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY
+    this.disableAfterFailures =
+      options.disableAfterFailures ?? DEFAULT_DISABLE_AFTER_FAILURES
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  }
+
+  // Load the subscriptions, resume the deliveries waiting for a retry and
+  // start listening for events
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      return
+    }
+    for (const subscription of await this.store.loadSubscriptions()) {
+      this.setSubscription(subscription)
+    }
+    for (const delivery of await this.store.listSubscriptionDeliveries({
+      status: 'pending',
+    })) {
+      this.scheduleRetry(delivery)
+    }
+    this.unsubscribe = agentEventBus.subscribeToEvent('**', (data, name) =>
+      this.handleEvent(name, data)
+    )
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+    this.retryTimers.forEach((timer) => this.clock.clearTimeout(timer))
+    this.retryTimers.clear()
+  }
+
+  listSubscriptions(): WebhookSubscription[] {
+    return Array.from(this.subscriptions.values()).map((s) =>
+      structuredClone(s)
+    )
+  }
+
+  getSubscription(id: string): WebhookSubscription | null {
+    const subscription = this.subscriptions.get(id)
+    return subscription ? structuredClone(subscription) : null
+  }
+
+  listDeliveries(
+    subscriptionId: string,
+    limit?: number
+  ): Promise<SubscriptionDelivery[]> {
+    return this.store.listSubscriptionDeliveries({ subscriptionId, limit })
+  }
+
+  async createSubscription(
+    input: SubscriptionInput
+  ): Promise<WebhookSubscription> {
+    const now = this.clock.now()
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url: input.url,
+      secret: input.secret || `whsec_${randomBytes(24).toString('hex')}`,
+      events: input.events,
+      description: input.description,
+      enabled: input.enabled ?? true,
+      consecutiveFailures: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.validate(subscription)
+
+    await this.store.saveSubscription(subscription)
+    this.setSubscription(subscription)
+    return structuredClone(subscription)
+  }
+
+  // Enabling a subscription clears its failure count
+  async updateSubscription(
+    id: string,
+    changes: Partial<SubscriptionInput>
+  ): Promise<WebhookSubscription | null> {
+    const existing = this.subscriptions.get(id)
+    if (!existing) {
+      return null
+    }
+
+    const updated: WebhookSubscription = {
+      ...existing,
+      ...changes,
+      secret: changes.secret || existing.secret,
+      id,
+      updatedAt: this.clock.now(),
+    }
+    if (changes.enabled && !existing.enabled) {
+      updated.consecutiveFailures = 0
+      updated.disabledAt = undefined
+      updated.disabledReason = undefined
+    }
+    this.validate(updated)
+
+    await this.store.saveSubscription(updated)
+    this.setSubscription(updated)
+    return structuredClone(updated)
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    if (!this.subscriptions.has(id)) {
+      return false
+    }
+    await this.store.deleteSubscription(id)
+    this.subscriptions.delete(id)
+    this.patterns.delete(id)
+    return true
+  }
+
+  private setSubscription(subscription: WebhookSubscription): void {
+    this.subscriptions.set(subscription.id, subscription)
+    this.patterns.set(
+      subscription.id,
+      subscription.events.map((event) => compileEventPattern(event))
+    )
+  }
+
+  private validate(subscription: WebhookSubscription): void {
+    let url: URL
+    try {
+      url = new URL(subscription.url)
+    } catch {
+      throw new SubscriptionValidationError('url must be an absolute URL')
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new SubscriptionValidationError('url must use http or https')
+    }
+    if (
+      !Array.isArray(subscription.events) ||
+      subscription.events.length === 0 ||
+      subscription.events.some((e) => typeof e !== 'string' || !e)
+    ) {
+      throw new SubscriptionValidationError(
+        'events must be a non-empty list of event names or patterns'
+      )
+    }
+    if (subscription.events.some((e) => e.startsWith('webhook:'))) {
+      throw new SubscriptionValidationError(
+        'Webhook events are not delivered to subscriptions'
+      )
+    }
+  }
+
+  private handleEvent(eventName: string, data: unknown): void {
+    // Delivery events are never delivered, so a failing subscription can't
+    // feed itself
+    if (eventName.startsWith('webhook:')) {
+      return
+    }
+
+    for (const subscription of this.subscriptions.values()) {
+      if (
+        subscription.enabled &&
+        this.patterns.get(subscription.id)!.some((p) => p.test(eventName))
+      ) {
+        void this.enqueue(subscription, eventName, data)
+      }
+    }
+  }
+
+  private async enqueue(
+    subscription: WebhookSubscription,
+    eventName: string,
+    data: unknown
+  ): Promise<void> {
+    const id = uuidv4()
+    const createdAt = this.clock.now()
+    let body: string
+    try {
+      body = JSON.stringify({ id, event: eventName, createdAt, data })
+    } catch {
+      // Payloads that can't be serialized are not delivered
+      return
+    }
+
+    const delivery: SubscriptionDelivery = {
+      id,
+      subscriptionId: subscription.id,
+      event: eventName,
+      body,
+      status: 'pending',
+      attempts: [],
+      createdAt,
+    }
+    await this.process(delivery, async () => {
+      await this.store.saveSubscriptionDelivery(delivery)
+      await this.attempt(delivery)
+    })
+  }
+
+  private scheduleRetry(delivery: SubscriptionDelivery): void {
+    const delayMs =
+      (delivery.nextAttemptAt?.getTime() ?? 0) - this.clock.now().getTime()
+    this.retryTimers.set(
+      delivery.id,
+      this.clock.setTimeout(() => {
+        this.retryTimers.delete(delivery.id)
+        void this.process(delivery, () => this.attempt(delivery))
+      }, delayMs)
+    )
+  }
+
+  // Run work on a delivery, reporting the store errors it runs into. A
+  // delivery left pending is tried again later instead of being stuck.
+  private async process(
+    delivery: SubscriptionDelivery,
+    work: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await work()
+    } catch (error) {
+      const attemptsMade = delivery.attempts.length
+      const willRetry =
+        delivery.status === 'pending' &&
+        shouldRetry(this.retryPolicy, attemptsMade)
+      agentEventBus.publishEvent('webhook:delivery_failed', {
+        subscriptionId: delivery.subscriptionId,
+        deliveryId: delivery.id,
+        event: delivery.event,
+        attempt: attemptsMade,
+        error: `Delivery couldn't be saved: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        willRetry,
+      })
+      if (willRetry) {
+        delivery.nextAttemptAt = new Date(
+          this.clock.now().getTime() +
+            getRetryDelay(this.retryPolicy, Math.max(attemptsMade, 1))
+        )
+        this.scheduleRetry(delivery)
+      }
+    }
+  }
+
+  // POST a delivery once, then log the outcome and retry, finish or fail it
+  private async attempt(delivery: SubscriptionDelivery): Promise<void> {
+    const subscription = this.subscriptions.get(delivery.subscriptionId)
+    if (!subscription) {
+      // Deleted along with its deliveries
+      return
+    }
+    if (!subscription.enabled) {
+      delivery.status = 'failed'
+      delivery.nextAttemptAt = undefined
+      delivery.completedAt = this.clock.now()
+      await this.store.saveSubscriptionDelivery(delivery)
+      return
+    }
+
+    const attempt = delivery.attempts.length + 1
+    const sentAt = this.clock.now()
+    const timestamp = Math.floor(sentAt.getTime() / 1000)
+    // Each attempt has its own nonce, so receivers rejecting replays accept
+    // retries; the delivery id stays the same
+    const nonce = `${delivery.id}.${attempt}`
+    const started = Date.now()
+    let responseCode: number | undefined
+    let error: string | undefined
+
+    try {
+      const response = await this.fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.nonce]: nonce,
+          [WEBHOOK_HEADERS.signature]: signWebhook(
+            subscription.secret,
+            timestamp,
+            nonce,
+            delivery.body
+          ),
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      })
+      responseCode = response.status
+      if (!response.ok) {
+        error = `HTTP ${response.status}`
+      }
+    } catch (fetchError) {
+      error =
+        fetchError instanceof Error ? fetchError.message : 'Request failed'
+    }
+
+    delivery.attempts.push({
+      attempt,
+      sentAt,
+      responseCode,
+      error,
+      durationMs: Date.now() - started,
+    })
+
+    if (!error) {
+      delivery.status = 'succeeded'
+      delivery.nextAttemptAt = undefined
+      delivery.completedAt = this.clock.now()
+      await this.store.saveSubscriptionDelivery(delivery)
+      await this.recordOutcome(subscription.id, true)
+      return
+    }
+
+    const willRetry =
+      isRetryable(responseCode) && shouldRetry(this.retryPolicy, attempt)
+    agentEventBus.publishEvent('webhook:delivery_failed', {
+      subscriptionId: subscription.id,
+      deliveryId: delivery.id,
+      event: delivery.event,
+      attempt,
+      responseCode,
+      error,
+      willRetry,
+    })
+
+    if (willRetry) {
+      delivery.nextAttemptAt = new Date(
+        this.clock.now().getTime() + getRetryDelay(this.retryPolicy, attempt)
+      )
+      await this.store.saveSubscriptionDelivery(delivery)
+      this.scheduleRetry(delivery)
+      return
+    }
+
+    delivery.status = 'failed'
+    delivery.nextAttemptAt = undefined
+    delivery.completedAt = this.clock.now()
+    await this.store.saveSubscriptionDelivery(delivery)
+    await this.recordOutcome(subscription.id, false)
+  }
+
+  // Count failed deliveries in a row, disabling the subscription at the limit.
+  // The subscription is looked up again, as it may have been updated or
+  // deleted while the delivery was in flight.
+  private async recordOutcome(
+    subscriptionId: string,
+    succeeded: boolean
+  ): Promise<void> {
+    const subscription = this.subscriptions.get(subscriptionId)
+    if (!subscription) {
+      return
+    }
+    if (succeeded && subscription.consecutiveFailures === 0) {
+      return
+    }
+
+    const failures = succeeded ? 0 : subscription.consecutiveFailures + 1
+    subscription.consecutiveFailures = failures
+    if (subscription.enabled && failures >= this.disableAfterFailures) {
+      subscription.enabled = false
+      subscription.disabledAt = this.clock.now()
+      subscription.disabledReason =
+        `Disabled after ${failures} failed deliveries in a row`
+      agentEventBus.publishEvent('webhook:subscription_disabled', {
+        subscriptionId,
+        failures,
+      })
+    }
+    await this.store.saveSubscription(subscription)
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Workflow Approvals
+ *
+ * This module defines approval steps, which hold a workflow until one of the
+ * step's assignees approves or rejects it, e.g. before a refund is issued. An
+ * approval is requested when the step becomes ready; approving completes the
+ * step and rejecting fails it, so the steps gated on it run or are skipped
+ * like after any other step. An approval nobody decides on before it expires
+ * falls back to the step's `onExpiry` decision.
+ */
+
+import { z } from 'zod'
+import type { RunStepApproval } from './runs'
+
+// Action recorded on approval steps, which are handled by the orchestrator
+// itself rather than dispatched to an agent
+export const APPROVAL_ACTION = 'approval'
+
+export type ApprovalDecision = 'approve' | 'reject'
+
+export const APPROVAL_DECISIONS: ApprovalDecision[] = ['approve', 'reject']
+
+export type ApprovalStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'expired'
+  | 'cancelled'
+
+// Settings of an approval step
+export const approvalStepConfigSchema = z.object({
+  // Who may decide, e.g. email addresses
+  assignees: z.array(z.string().min(1)).min(1),
+  // Shown to the assignees; both may reference workflow data and upstream
+  // results with templates
+  title: z.string().min(1).optional(),
+  message: z.string().optional(),
+  // How long the assignees have to decide
+  expiresInMs: z.number().int().positive().optional(),
+  // Decision applied when the approval expires
+  onExpiry: z.enum(['approve', 'reject']).optional(),
+})
+
+export type ApprovalStepConfig = z.infer<typeof approvalStepConfigSchema>
+
+// Approval Interface
+export interface Approval {
+  id: string
+  workflowId: string
+  workflowName: string
+  stepId: string
+  runId?: string
+  title: string
+  message?: string
+  assignees: string[]
+  status: ApprovalStatus
+  onExpiry: ApprovalDecision
+  requestedAt: Date
+  expiresAt?: Date
+  // Decision taken by an assignee, or the fallback applied on expiry
+  decision?: ApprovalDecision
+  // Assignee who decided; unset when the approval expired
+  decidedBy?: string
+  comment?: string
+  decidedAt?: Date
+}
+
+// Error raised when an approval doesn't exist or can't take a decision
+export class ApprovalError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'conflict' | 'forbidden' | 'invalid'
+  ) {
+    super(message)
+    this.name = 'ApprovalError'
+  }
+}
+
+// Who decides, with an optional comment
+export interface ApprovalDecisionInput {
+  by: string
+  comment?: string
+}
+
+export function parseApprovalDecision(
+  body: Record<string, unknown>
+): ApprovalDecisionInput {
+  if (typeof body.by !== 'string' || !body.by.trim()) {
+    throw new ApprovalError('by is required', 'invalid')
+  }
+  if (body.comment !== undefined && typeof body.comment !== 'string') {
+    throw new ApprovalError('comment must be a string', 'invalid')
+  }
+  return { by: body.by.trim(), comment: body.comment || undefined }
+}
+
+export interface ApprovalFilter {
+  status?: ApprovalStatus
+  assignee?: string
+  workflowId?: string
+}
+
+export function matchesApprovalFilter(
+  approval: Approval,
+  filter: ApprovalFilter
+): boolean {
+  return (
+    (!filter.status || approval.status === filter.status) &&
+    (!filter.assignee || approval.assignees.includes(filter.assignee)) &&
+    (!filter.workflowId || approval.workflowId === filter.workflowId)
+  )
+}
+
+export function reviveApproval(raw: Approval): Approval {
+  return {
+    ...raw,
+    requestedAt: new Date(raw.requestedAt),
+    expiresAt: raw.expiresAt ? new Date(raw.expiresAt) : undefined,
+    decidedAt: raw.decidedAt ? new Date(raw.decidedAt) : undefined,
+  }
+}
+
+// Approval as recorded in the run history of its step
+export function toRunStepApproval(approval: Approval): RunStepApproval {
+  return {
+    approvalId: approval.id,
+    assignees: [...approval.assignees],
+    requestedAt: approval.requestedAt,
+    expiresAt: approval.expiresAt,
+    status: approval.status,
+    decision: approval.decision,
+    decidedBy: approval.decidedBy,
+    comment: approval.comment,
+    decidedAt: approval.decidedAt,
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Built-in Workflow Templates
+ *
+ * This module defines the templates that ship with the platform, covering the
+ * lead to client chain: prospecting leads and writing to each of them,
+ * qualifying a lead from their reply, sending a proposal, onboarding the
+ * client and analyzing their feedback. `lead-to-onboarding` chains the
+ * qualification, proposal and onboarding templates as sub-workflows.
+ */
+
+import type { WorkflowTemplate } from './templates'
+
+export const BUILT_IN_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'lead-prospecting',
+    version: 1,
+    name: 'Lead Prospecting',
+    description: 'Find companies matching the ideal customer profile',
+    parameters: [
+      { name: 'countries', type: 'array', description: 'Countries to search' },
+      { name: 'keywords', type: 'array', description: 'Search keywords' },
+      { name: 'limit', type: 'number', default: 10 },
+    ],
+    definition: {
+      name: 'Lead Prospecting',
+      description: 'Find companies matching the ideal customer profile',
+      steps: [
+        {
+          id: 'scrape',
+          name: 'Scrape leads',
+          agentType: 'customer_service',
+          action: 'lead_scraping',
+          config: {
+            icp: {
+              countries: '{{params.countries}}',
+              keywords: '{{params.keywords}}',
+            },
+            limit: '{{params.limit}}',
+          },
+          dependsOn: [],
+        },
+      ],
+      data: {},
+      outputs: { leads: '{{steps.scrape.result.data.leads}}' },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'lead-outreach',
+    version: 1,
+    name: 'Lead Outreach',
+    description: 'Find leads and write a cold email to each of them',
+    parameters: [
+      { name: 'countries', type: 'array', description: 'Countries to search' },
+      { name: 'keywords', type: 'array', description: 'Search keywords' },
+      { name: 'limit', type: 'number', default: 50 },
+      { name: 'concurrency', type: 'number', default: 5 },
+    ],
+    definition: {
+      name: 'Lead Outreach',
+      description: 'Find leads and write a cold email to each of them',
+      steps: [
+        {
+          id: 'scrape',
+          name: 'Scrape leads',
+          agentType: 'customer_service',
+          action: 'lead_scraping',
+          config: {
+            icp: {
+              countries: '{{params.countries}}',
+              keywords: '{{params.keywords}}',
+            },
+            limit: '{{params.limit}}',
+          },
+          dependsOn: [],
+        },
+        {
+          id: 'emails',
+          name: 'Write cold emails',
+          type: 'map',
+          agentType: 'customer_service',
+          action: 'cold_email_generation',
+          config: { lead: '{{item}}' },
+          dependsOn: ['scrape'],
+          map: {
+            items: '{{steps.scrape.result.data.leads}}',
+            concurrency: '{{params.concurrency}}',
+            onItemFailure: 'continue',
+          },
+        },
+      ],
+      data: {},
+      outputs: {
+        leads: '{{steps.scrape.result.data.leads}}',
+        emails: '{{steps.emails.result.data.results}}',
+      },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'lead-qualification',
+    version: 1,
+    name: 'Lead Qualification',
+    description: "Score a lead's reply against BANT",
+    parameters: [
+      { name: 'leadEmail', type: 'string' },
+      { name: 'reply', type: 'string', description: "The lead's reply" },
+    ],
+    definition: {
+      name: 'Lead Qualification',
+      description: "Score a lead's reply against BANT",
+      steps: [
+        {
+          id: 'score',
+          name: 'Score lead',
+          agentType: 'customer_service',
+          action: 'lead_scoring',
+          config: {
+            leadEmail: '{{params.leadEmail}}',
+            reply: '{{params.reply}}',
+          },
+          dependsOn: [],
+        },
+      ],
+      data: { leadEmail: '{{params.leadEmail}}' },
+      outputs: {
+        totalScore: '{{steps.score.result.data.totalScore}}',
+        qualificationStatus: '{{steps.score.result.data.qualificationStatus}}',
+      },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'proposal',
+    version: 1,
+    name: 'Proposal',
+    description: 'Generate a proposal and send it to the client',
+    parameters: [
+      { name: 'clientEmail', type: 'string' },
+      { name: 'clientNeeds', type: 'string' },
+    ],
+    definition: {
+      name: 'Proposal',
+      description: 'Generate a proposal and send it to the client',
+      steps: [
+        {
+          id: 'draft',
+          name: 'Generate proposal',
+          agentType: 'document',
+          action: 'proposal_generation',
+          config: { clientNeeds: '{{params.clientNeeds}}' },
+          dependsOn: [],
+        },
+        {
+          id: 'send',
+          name: 'Send proposal',
+          agentType: 'customer_service',
+          action: 'customer_communication',
+          config: {
+            to: '{{params.clientEmail}}',
+            subject: 'Your project proposal',
+            body: '{{steps.draft.result.data.proposal}}',
+          },
+          dependsOn: ['draft'],
+        },
+      ],
+      data: {},
+      outputs: { proposal: '{{steps.draft.result.data.proposal}}' },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'client-onboarding',
+    version: 1,
+    name: 'Client Onboarding',
+    description: 'Set up the project workspace and book the kickoff',
+    parameters: [
+      { name: 'clientName', type: 'string' },
+      { name: 'clientEmail', type: 'string' },
+      { name: 'projectName', type: 'string' },
+      { name: 'teamAssigned', type: 'array', default: [] },
+      { name: 'slackWorkspace', type: 'string', default: 'clients' },
+    ],
+    definition: {
+      name: 'Client Onboarding',
+      description: 'Set up the project workspace and book the kickoff',
+      steps: [
+        {
+          id: 'onboard',
+          name: 'Run onboarding',
+          agentType: 'customer_service',
+          action: 'client_onboarding',
+          config: {
+            clientName: '{{params.clientName}}',
+            projectName: '{{params.projectName}}',
+            teamAssigned: '{{params.teamAssigned}}',
+            slackWorkspace: '{{params.slackWorkspace}}',
+          },
+          dependsOn: [],
+          compensation: {
+            action: 'onboarding_rollback',
+            config: {
+              clientName: '{{params.clientName}}',
+              slackWorkspace: '{{params.slackWorkspace}}',
+            },
+          },
+        },
+        {
+          id: 'kickoff',
+          name: 'Book kickoff',
+          agentType: 'scheduling',
+          action: 'appointment_scheduling',
+          config: {
+            customerEmail: '{{params.clientEmail}}',
+            title: 'Kickoff: {{params.projectName}}',
+          },
+          dependsOn: ['onboard'],
+          compensation: {
+            action: 'appointment_cancellation',
+            config: { customerEmail: '{{params.clientEmail}}' },
+          },
+        },
+      ],
+      data: {},
+      outputs: { instructions: '{{steps.onboard.result.data.instructions}}' },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'feedback-analysis',
+    version: 1,
+    name: 'Feedback Analysis',
+    description: "Analyze a client's feedback and follow up on upsells",
+    parameters: [
+      { name: 'clientEmail', type: 'string' },
+      { name: 'feedback', type: 'string' },
+    ],
+    definition: {
+      name: 'Feedback Analysis',
+      description: "Analyze a client's feedback and follow up on upsells",
+      steps: [
+        {
+          id: 'analyze',
+          name: 'Analyze feedback',
+          agentType: 'customer_service',
+          action: 'feedback_analysis',
+          config: { feedback: '{{params.feedback}}' },
+          dependsOn: [],
+        },
+        {
+          id: 'upsell',
+          name: 'Send upsell email',
+          agentType: 'customer_service',
+          action: 'customer_communication',
+          config: {
+            to: '{{params.clientEmail}}',
+            subject: 'Ideas for your next project',
+          },
+          dependsOn: ['analyze'],
+          when: { path: 'steps.analyze.result.data.upsellOpportunity' },
+        },
+      ],
+      data: {},
+      outputs: {
+        sentiment: '{{steps.analyze.result.data.sentiment}}',
+        action: '{{steps.analyze.result.data.action}}',
+        upsellOpportunity: '{{steps.analyze.result.data.upsellOpportunity}}',
+      },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'lead-to-onboarding',
+    version: 1,
+    name: 'Lead to Onboarding',
+    description:
+      'Qualify a lead, send a proposal unless the lead is cold, then onboard',
+    parameters: [
+      { name: 'leadEmail', type: 'string' },
+      { name: 'reply', type: 'string' },
+      { name: 'clientName', type: 'string' },
+      { name: 'clientNeeds', type: 'string' },
+      { name: 'projectName', type: 'string' },
+      { name: 'teamAssigned', type: 'array', default: [] },
+    ],
+    definition: {
+      name: 'Lead to Onboarding',
+      description:
+        'Qualify a lead, send a proposal unless the lead is cold, then onboard',
+      steps: [
+        {
+          id: 'qualify',
+          name: 'Qualify lead',
+          type: 'workflow',
+          subWorkflow: {
+            templateId: 'lead-qualification',
+            params: {
+              leadEmail: '{{params.leadEmail}}',
+              reply: '{{params.reply}}',
+            },
+          },
+          config: {},
+          dependsOn: [],
+          outputs: {
+            qualificationStatus: '{{result.data.qualificationStatus}}',
+          },
+        },
+        {
+          id: 'proposal',
+          name: 'Send proposal',
+          type: 'workflow',
+          subWorkflow: {
+            templateId: 'proposal',
+            params: {
+              clientEmail: '{{params.leadEmail}}',
+              clientNeeds: '{{params.clientNeeds}}',
+            },
+          },
+          config: {},
+          dependsOn: ['qualify'],
+          when: {
+            path: 'workflow.data.qualificationStatus',
+            operator: 'neq',
+            value: 'cold lead',
+          },
+        },
+        {
+          id: 'onboarding',
+          name: 'Onboard client',
+          type: 'workflow',
+          subWorkflow: {
+            templateId: 'client-onboarding',
+            params: {
+              clientName: '{{params.clientName}}',
+              clientEmail: '{{params.leadEmail}}',
+              projectName: '{{params.projectName}}',
+              teamAssigned: '{{params.teamAssigned}}',
+            },
+          },
+          config: {},
+          dependsOn: ['proposal'],
+        },
+      ],
+      data: {},
+      outputs: {
+        qualificationStatus: '{{workflow.data.qualificationStatus}}',
+      },
+    },
+    builtIn: true,
+  },
+]
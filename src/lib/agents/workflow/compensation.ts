@@ -0,0 +1,97 @@
+/**
+ * Workflow Compensation
+ *
+ * This module defines saga-style compensation: a task step may declare a
+ * compensating action for its agent, such as voiding the invoice it issued or
+ * cancelling the appointment it booked. When a workflow fails or is cancelled
+ * after some of those steps completed, the orchestrator undoes them by
+ * running their compensations one at a time, in reverse dependency order, so
+ * a step is only undone once every step that ran after it has been.
+ */
+
+import { z } from 'zod'
+import type { AgentResult } from '../index'
+import type { Workflow, WorkflowStep } from './index'
+import { getDownstreamSteps } from './runs'
+
+// Compensating action of a step
+export const stepCompensationSchema = z.object({
+  // Capability of the step's agent type
+  action: z.string().min(1),
+  // Task data; may reference the step's own result as `{{result...}}` along
+  // with the workflow data and upstream results
+  config: z.record(z.unknown()).optional(),
+})
+
+export type StepCompensation = z.infer<typeof stepCompensationSchema>
+
+// Why a workflow's completed steps are being undone
+export type CompensationReason = 'failed' | 'cancelled'
+
+// Compensation of a workflow as a whole
+export interface WorkflowCompensation {
+  reason: CompensationReason
+  startedAt: Date
+  completedAt?: Date
+  // Steps whose compensation failed; they may need to be undone by hand
+  failedStepIds?: string[]
+}
+
+// Outcome of running a step's compensation
+export interface CompensationOutcome {
+  status: 'in_progress' | 'completed' | 'failed'
+  taskId: string
+  action: string
+  // Config as resolved and sent to the agent
+  input?: Record<string, unknown>
+  startedAt: Date
+  completedAt?: Date
+  result?: AgentResult
+}
+
+// Completed steps still to be undone, in the order their compensations run.
+// Of the steps nothing that still has to be undone ran after, the one that
+// completed last goes first.
+export function getCompensationOrder(workflow: Workflow): WorkflowStep[] {
+  const remaining = workflow.steps
+    .filter(
+      (step) =>
+        step.status === 'completed' &&
+        step.compensation &&
+        !step.compensationOutcome
+    )
+    .sort(
+      (a, b) =>
+        completedAt(b) - completedAt(a) ||
+        workflow.steps.indexOf(b) - workflow.steps.indexOf(a)
+    )
+
+  const order: WorkflowStep[] = []
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((step) => {
+      const downstream = getDownstreamSteps(workflow, step.id)
+      return !remaining.some(
+        (other) => other !== step && downstream.has(other.id)
+      )
+    })
+    order.push(...remaining.splice(Math.max(index, 0), 1))
+  }
+  return order
+}
+
+function completedAt(step: WorkflowStep): number {
+  return step.result ? new Date(step.result.completedAt).getTime() : 0
+}
+
+export function reviveCompensationOutcome(
+  raw: CompensationOutcome
+): CompensationOutcome {
+  return {
+    ...raw,
+    startedAt: new Date(raw.startedAt),
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    result: raw.result
+      ? { ...raw.result, completedAt: new Date(raw.result.completedAt) }
+      : undefined,
+  }
+}
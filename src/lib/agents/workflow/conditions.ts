@@ -0,0 +1,120 @@
+/**
+ * Workflow Step Conditions
+ *
+ * This module evaluates the `when` conditions that decide whether a workflow
+ * step runs or is skipped. Conditions compare values looked up in the
+ * expression context (workflow data and upstream step results) and can be
+ * combined with `all`, `any` and `not`.
+ */
+
+import { z } from 'zod'
+import { ExpressionContext, getPath, resolveTemplate } from './expressions'
+
+// Comparison Operators
+export type ConditionOperator =
+  | 'truthy'
+  | 'falsy'
+  | 'exists'
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+
+// Step Condition
+export type StepCondition =
+  | { all: StepCondition[] }
+  | { any: StepCondition[] }
+  | { not: StepCondition }
+  | { path: string; operator?: ConditionOperator; value?: unknown }
+
+// Condition as declared by a step, where unknown fields are rejected
+export const stepConditionSchema: z.ZodType<StepCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(stepConditionSchema) }).strict(),
+    z.object({ any: z.array(stepConditionSchema) }).strict(),
+    z.object({ not: stepConditionSchema }).strict(),
+    z
+      .object({
+        path: z.string().min(1),
+        operator: z
+          .enum([
+            'truthy',
+            'falsy',
+            'exists',
+            'eq',
+            'neq',
+            'gt',
+            'gte',
+            'lt',
+            'lte',
+            'in',
+            'contains',
+          ])
+          .optional(),
+        value: z.unknown(),
+      })
+      .strict(),
+  ])
+)
+
+// Look up a path, treating missing values as undefined. Paths may be written
+// bare or wrapped in `{{ }}`.
+function lookup(context: ExpressionContext, path: string): unknown {
+  const bare = path.replace(/^\{\{\s*|\s*\}\}$/g, '')
+  try {
+    return getPath(context, bare)
+  } catch {
+    return undefined
+  }
+}
+
+export function evaluateCondition(
+  condition: StepCondition,
+  context: ExpressionContext
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateCondition(c, context))
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateCondition(c, context))
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, context)
+  }
+
+  const actual = lookup(context, condition.path)
+  const expected = resolveTemplate(condition.value, context)
+
+  switch (condition.operator ?? 'truthy') {
+    case 'truthy':
+      return Boolean(actual)
+    case 'falsy':
+      return !actual
+    case 'exists':
+      return actual !== undefined && actual !== null
+    case 'eq':
+      return actual === expected
+    case 'neq':
+      return actual !== expected
+    case 'gt':
+      return Number(actual) > Number(expected)
+    case 'gte':
+      return Number(actual) >= Number(expected)
+    case 'lt':
+      return Number(actual) < Number(expected)
+    case 'lte':
+      return Number(actual) <= Number(expected)
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual)
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : typeof actual === 'string' && actual.includes(String(expected))
+    default:
+      throw new Error(`Unsupported condition operator: ${condition.operator}`)
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Workflow Expressions
+ *
+ * This module resolves `{{ ... }}` references in step configuration against
+ * the workflow data and the results of upstream steps, e.g.
+ * `{{steps.createInvoice.result.data.invoiceId}}` or
+ * `{{workflow.data.customer.email}}`.
+ */
+
+import type { Workflow } from './index'
+
+// Values references are resolved against
+export interface ExpressionContext {
+  workflow: { id: string; name: string; data: Record<string, unknown> }
+  steps: Record<string, { status: string; result?: unknown }>
+  [key: string]: unknown
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([^}]+?)\s*\}\}$/
+
+// Path segments that would reach an object's prototype rather than its data
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype']
+
+export function buildExpressionContext(
+  workflow: Workflow,
+  extra: Record<string, unknown> = {}
+): ExpressionContext {
+  const steps: ExpressionContext['steps'] = {}
+  for (const step of workflow.steps) {
+    steps[step.id] = { status: step.status, result: step.result }
+  }
+
+  return {
+    workflow: { id: workflow.id, name: workflow.name, data: workflow.data },
+    steps,
+    ...extra,
+  }
+}
+
+// Split `a.b[0].c` into ['a', 'b', '0', 'c']
+function parsePath(path: string): string[] {
+  return path
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0)
+}
+
+// Look up a path, throwing when any segment is missing
+export function getPath(source: unknown, path: string): unknown {
+  let current: unknown = source
+  const resolved: string[] = []
+
+  for (const segment of parsePath(path)) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.hasOwn(current, segment)
+    ) {
+      const parent = resolved.length > 0 ? `'${resolved.join('.')}'` : 'context'
+      throw new Error(
+        `Unresolvable reference '{{${path}}}': '${segment}' not found in ${parent}`
+      )
+    }
+    current = (current as Record<string, unknown>)[segment]
+    resolved.push(segment)
+  }
+
+  return current
+}
+
+// Reason a path can't be set, or undefined when it can
+export function checkWritablePath(path: string): string | undefined {
+  const segments = parsePath(path)
+  if (segments.length === 0) {
+    return `Path '${path}' is empty`
+  }
+  const unsafe = segments.find((segment) => UNSAFE_SEGMENTS.includes(segment))
+  if (unsafe !== undefined) {
+    return `Path '${path}' may not contain '${unsafe}'`
+  }
+  return undefined
+}
+
+// Set a path, creating intermediate objects as needed. Throws for the paths
+// checkWritablePath rejects.
+export function setPath(
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown
+): void {
+  const reason = checkWritablePath(path)
+  if (reason) {
+    throw new Error(reason)
+  }
+  const segments = parsePath(path)
+  let current = target
+
+  segments.slice(0, -1).forEach((segment) => {
+    const next = Object.hasOwn(current, segment) ? current[segment] : undefined
+    if (next === null || typeof next !== 'object') {
+      current[segment] = {}
+    }
+    current = current[segment] as Record<string, unknown>
+  })
+
+  current[segments[segments.length - 1]] = value
+}
+
+// Resolve every reference in a value. A string that is a single reference
+// keeps the referenced value's type; references embedded in a longer string
+// are interpolated. With `roots`, only references starting with one of them
+// are resolved and the others are left in place, to be resolved later.
+export function resolveTemplate<T>(
+  value: T,
+  context: ExpressionContext,
+  roots?: string[]
+): T
+export function resolveTemplate(
+  value: unknown,
+  context: ExpressionContext,
+  roots?: string[]
+): unknown {
+  const skipped = (path: string) =>
+    roots !== undefined && !roots.includes(parsePath(path)[0])
+
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_TEMPLATE_PATTERN)
+    if (single && !skipped(single[1])) {
+      return getPath(context, single[1])
+    }
+
+    return value.replace(TEMPLATE_PATTERN, (reference, path: string) => {
+      if (skipped(path)) {
+        return reference
+      }
+      const resolved = getPath(context, path)
+      return typeof resolved === 'object'
+        ? JSON.stringify(resolved)
+        : String(resolved)
+    })
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplate(item, context, roots))
+  }
+
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveTemplate(item, context, roots),
+      ])
+    )
+  }
+
+  return value
+}
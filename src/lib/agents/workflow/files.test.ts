@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  WorkflowFileError,
+  parseWorkflowFile,
+  stringifyWorkflowFile,
+} from './files'
+import type { WorkflowDefinitionInput } from './validation'
+
+const invoicing: WorkflowDefinitionInput = {
+  name: 'Invoicing',
+  description: 'Invoices a customer and emails the invoice',
+  data: { customerId: 'cus_1' },
+  steps: [
+    {
+      id: 'invoice',
+      name: 'Generate invoice',
+      agentType: 'billing',
+      action: 'invoice_generation',
+      config: { customerId: '{{workflow.data.customerId}}' },
+      dependsOn: [],
+      retry: { maxAttempts: 3 },
+    },
+    {
+      id: 'email',
+      name: 'Email invoice',
+      agentType: 'customer_service',
+      action: 'customer_communication',
+      config: { invoiceId: '{{steps.invoice.result.data.invoiceId}}' },
+      dependsOn: ['invoice'],
+    },
+  ],
+}
+
+// Errors a workflow file is rejected with
+function fileErrors(source: string): WorkflowFileError['errors'] {
+  try {
+    parseWorkflowFile(source)
+  } catch (error) {
+    if (error instanceof WorkflowFileError) {
+      return error.errors
+    }
+    throw error
+  }
+  throw new Error('Expected the file to be rejected')
+}
+
+describe('workflow files', () => {
+  it.each(['yaml', 'json'] as const)(
+    'reads back a definition written as %s',
+    (format) => {
+      const source = stringifyWorkflowFile(invoicing, format)
+
+      expect(parseWorkflowFile(source)).toMatchObject(invoicing)
+    }
+  )
+
+  it('reports an unknown field on the line of its key', () => {
+    const source = stringifyWorkflowFile(invoicing).replace(
+      '  - id: email\n',
+      '  - id: email\n    timeoutMs: 1000\n'
+    )
+    const line = source.split('\n').indexOf('    timeoutMs: 1000') + 1
+
+    expect(fileErrors(source)).toEqual([
+      expect.objectContaining({
+        code: 'invalid_schema',
+        stepId: 'email',
+        path: ['steps', 1, 'timeoutMs'],
+        line,
+      }),
+    ])
+  })
+
+  it('reports syntax errors with their line', () => {
+    const [error] = fileErrors('name: Invoicing\nsteps: [\n')
+
+    expect(error).toMatchObject({ code: 'invalid_syntax', line: 3 })
+    expect(error.message).toMatch(/^Line 3: /)
+  })
+
+  it('reports a step that is not an object', () => {
+    const source = stringifyWorkflowFile(invoicing).replace(
+      /steps:\n[\s\S]*$/,
+      'steps:\n  - ~\n'
+    )
+    const line = source.split('\n').indexOf('  - ~') + 1
+
+    expect(fileErrors(source)).toEqual([
+      expect.objectContaining({
+        code: 'invalid_schema',
+        path: ['steps', 0],
+        line,
+      }),
+    ])
+  })
+})
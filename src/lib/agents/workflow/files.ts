@@ -0,0 +1,209 @@
+/**
+ * Workflow Files
+ *
+ * This module reads and writes workflow definitions as YAML or JSON files, so
+ * they can be kept in git next to the code. JSON files are read as the YAML
+ * they are a subset of. Files are checked strictly: fields the format doesn't
+ * know are rejected instead of dropped, steps need an id and a name, and
+ * every error points at the line it was found on.
+ */
+
+import { z } from 'zod'
+import {
+  Document,
+  LineCounter,
+  isMap,
+  isNode,
+  isScalar,
+  parseDocument,
+  stringify,
+} from 'yaml'
+import {
+  WorkflowDefinitionInput,
+  WorkflowValidationIssue,
+  flattenIssues,
+  normalizeWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './validation'
+
+export type WorkflowFileFormat = 'yaml' | 'json'
+
+// Validation error of a workflow file, with the line and column it points at
+export interface WorkflowFileIssue extends WorkflowValidationIssue {
+  line?: number
+  column?: number
+}
+
+// Error thrown when a workflow file can't be read or isn't a valid workflow
+export class WorkflowFileError extends Error {
+  errors: WorkflowFileIssue[]
+
+  constructor(errors: WorkflowFileIssue[]) {
+    super(`Invalid workflow file: ${errors.map((e) => e.message).join('; ')}`)
+    this.name = 'WorkflowFileError'
+    this.errors = errors
+  }
+}
+
+// Fields of a workflow file. Those typed unknown are checked by
+// validateWorkflowDefinition like any other definition.
+const workflowFileSchema = z
+  .object({
+    name: z.unknown(),
+    description: z.unknown(),
+    data: z.unknown(),
+    outputs: z.unknown(),
+    steps: z.unknown(),
+  })
+  .strict()
+
+const workflowFileStepSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    type: z.enum(['task', 'approval', 'workflow', 'map']).optional(),
+    agentType: z.unknown(),
+    action: z.unknown(),
+    config: z.unknown(),
+    dependsOn: z.unknown(),
+    when: z.unknown(),
+    onSkippedDependency: z.enum(['skip', 'run']).optional(),
+    onFailure: z.unknown(),
+    outputs: z.unknown(),
+    retry: z.unknown(),
+    approval: z.unknown(),
+    subWorkflow: z.unknown(),
+    map: z.unknown(),
+    compensation: z.unknown(),
+  })
+  .strict()
+
+// Read a workflow file into a definition, ready to be created. Throws a
+// WorkflowFileError listing every problem found.
+export function parseWorkflowFile(source: string): WorkflowDefinitionInput {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(source, { lineCounter, prettyErrors: false })
+  if (document.errors.length > 0) {
+    throw new WorkflowFileError(
+      document.errors.map((error) => {
+        const { line, col } = lineCounter.linePos(error.pos[0])
+        return {
+          code: 'invalid_syntax',
+          message: `Line ${line}: ${error.message}`,
+          path: [],
+          line,
+          column: col,
+        }
+      })
+    )
+  }
+
+  const file: unknown = document.toJS()
+  const issues = checkFileFields(file)
+  const definition = normalizeWorkflowDefinition(
+    file !== null && typeof file === 'object' ? file : {}
+  )
+  // Steps that aren't objects are reported by both checks
+  for (const issue of validateWorkflowDefinition(definition).errors) {
+    if (!issues.some((other) => other.message === issue.message)) {
+      issues.push(issue)
+    }
+  }
+  if (issues.length > 0) {
+    throw new WorkflowFileError(
+      issues.map((issue) => locateIssue(document, lineCounter, issue))
+    )
+  }
+  return definition
+}
+
+// Write a definition as a workflow file. Settings left unset are left out.
+export function stringifyWorkflowFile(
+  definition: WorkflowDefinitionInput,
+  format: WorkflowFileFormat = 'yaml'
+): string {
+  const file = JSON.parse(
+    JSON.stringify({
+      name: definition.name,
+      description: definition.description,
+      data: definition.data,
+      outputs: definition.outputs,
+      steps: definition.steps,
+    })
+  )
+  return format === 'json'
+    ? `${JSON.stringify(file, null, 2)}\n`
+    : stringify(file, { lineWidth: 0 })
+}
+
+// Fields the format doesn't know, and steps that aren't objects or have no
+// id or name
+function checkFileFields(file: unknown): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = []
+  const addIssues = (
+    error: z.ZodError,
+    prefix: (string | number)[],
+    stepId?: string
+  ) => {
+    for (const issue of flattenIssues(error.issues)) {
+      const path = [...prefix, ...issue.path]
+      issues.push({
+        code: 'invalid_schema',
+        message: `${path.join('.') || 'workflow'}: ${issue.message}`,
+        stepId,
+        path:
+          issue.code === 'unrecognized_keys' ? [...path, issue.keys[0]] : path,
+      })
+    }
+  }
+
+  const parsed = workflowFileSchema.safeParse(file)
+  if (!parsed.success) {
+    addIssues(parsed.error, [])
+  }
+  const steps = (file as { steps?: unknown } | null)?.steps
+  if (Array.isArray(steps)) {
+    steps.forEach((step, index) => {
+      const parsedStep = workflowFileStepSchema.safeParse(step)
+      if (!parsedStep.success) {
+        const stepId = (step as { id?: unknown } | null)?.id
+        addIssues(
+          parsedStep.error,
+          ['steps', index],
+          typeof stepId === 'string' ? stepId : undefined
+        )
+      }
+    })
+  }
+  return issues
+}
+
+// Line of the deepest part of an issue's path that is in the file; an
+// unknown field points at its key
+function locateIssue(
+  document: Document,
+  lineCounter: LineCounter,
+  issue: WorkflowValidationIssue
+): WorkflowFileIssue {
+  for (let depth = issue.path.length; depth >= 0; depth--) {
+    const path = issue.path.slice(0, depth)
+    const parent = depth > 0 ? document.getIn(path.slice(0, -1), true) : null
+    const key = isMap(parent)
+      ? parent.items.find(
+          (pair) => isScalar(pair.key) && pair.key.value === path[depth - 1]
+        )?.key
+      : undefined
+    const node =
+      key ?? (depth > 0 ? document.getIn(path, true) : document.contents)
+    if (isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0])
+      return {
+        ...issue,
+        message: `Line ${line}: ${issue.message}`,
+        line,
+        column: col,
+      }
+    }
+  }
+  return issue
+}
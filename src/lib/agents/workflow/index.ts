@@ -1,449 +1,2871 @@
-/**
- * Workflow Orchestrator Agent
- *
- * This module implements the workflow orchestrator agent that coordinates tasks
- * between specialized agents and manages business processes.
- */
-
-import {
-  BaseAgent,
-  AgentType,
-  AgentStatus,
-  AgentTask,
-  AgentResult,
-  agentEventBus,
-} from '../index'
-import { createSpecializedAgent } from '../specialized'
-import { v4 as uuidv4 } from 'uuid'
-
-// Workflow Step Status
-export enum WorkflowStepStatus {
-  PENDING = 'pending',
-  IN_PROGRESS = 'in_progress',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
-  SKIPPED = 'skipped',
-}
-
-// Workflow Step Interface
-export interface WorkflowStep {
-  id: string
-  name: string
-  agentType: AgentType
-  action: string
-  status: WorkflowStepStatus
-  config: Record<string, any>
-  dependsOn: string[]
-  result?: AgentResult
-}
-
-// Workflow Interface
-export interface Workflow {
-  id: string
-  name: string
-  description: string
-  steps: WorkflowStep[]
-  data: Record<string, any>
-  status: 'active' | 'paused' | 'completed' | 'failed'
-  createdAt: Date
-  updatedAt: Date
-  completedAt?: Date
-}
-
-// Workflow Orchestrator Agent
-export class WorkflowOrchestratorAgent implements BaseAgent {
-  id: string
-  type: AgentType.WORKFLOW
-  status: AgentStatus = AgentStatus.IDLE
-  name: string
-  description: string
-  capabilities: string[]
-  private activeWorkflows: Map<string, Workflow> = new Map()
-  private agents: Map<AgentType, BaseAgent> = new Map()
-
-  constructor(id: string, name: string, description: string) {
-    this.id = id
-    this.type = AgentType.WORKFLOW
-    this.name = name
-    this.description = description
-    this.capabilities = [
-      'workflow_orchestration',
-      'process_automation',
-      'task_coordination',
-      'business_logic_execution',
-    ]
-  }
-
-  async initialize(): Promise<void> {
-    // Initialize all specialized agents
-    for (const agentType of Object.values(AgentType)) {
-      if (agentType !== AgentType.WORKFLOW) {
-        const agent = createSpecializedAgent(agentType, {
-          name: `${agentType} Agent`,
-          description: `Specialized ${agentType} agent`,
-        })
-        await agent.initialize()
-        this.agents.set(agentType, agent)
-      }
-    }
-
-    // Subscribe to workflow-related events
-    agentEventBus.subscribeToEvent(
-      'workflow:create',
-      this.createWorkflow.bind(this)
-    )
-    agentEventBus.subscribeToEvent(
-      'workflow:start',
-      this.startWorkflow.bind(this)
-    )
-    agentEventBus.subscribeToEvent(
-      'workflow:pause',
-      this.pauseWorkflow.bind(this)
-    )
-    agentEventBus.subscribeToEvent(
-      'workflow:resume',
-      this.resumeWorkflow.bind(this)
-    )
-    agentEventBus.subscribeToEvent(
-      'workflow:cancel',
-      this.cancelWorkflow.bind(this)
-    )
-
-    // Subscribe to task results to update workflow steps
-    agentEventBus.subscribeToEvent('result:*', this.handleTaskResult.bind(this))
-
-    this.status = AgentStatus.IDLE
-  }
-
-  async execute(task: AgentTask): Promise<AgentResult> {
-    this.status = AgentStatus.WORKING
-
-    try {
-      let result: AgentResult
-
-      switch (task.type) {
-        case 'create_workflow':
-          result = await this.handleCreateWorkflow(task)
-          break
-        case 'execute_workflow':
-          result = await this.handleExecuteWorkflow(task)
-          break
-        case 'update_workflow':
-          result = await this.handleUpdateWorkflow(task)
-          break
-        default:
-          throw new Error(`Unsupported task type: ${task.type}`)
-      }
-
-      this.status = AgentStatus.COMPLETED
-      return result
-    } catch (error) {
-      this.status = AgentStatus.ERROR
-      return {
-        taskId: task.id,
-        success: false,
-        data: {},
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date(),
-      }
-    } finally {
-      this.status = AgentStatus.IDLE
-    }
-  }
-
-  getStatus(): AgentStatus {
-    return this.status
-  }
-
-  // Workflow Management Methods
-  private async createWorkflow(data: any): Promise<void> {
-    const workflow: Workflow = {
-      id: data.id || uuidv4(),
-      name: data.name,
-      description: data.description,
-      steps: data.steps.map((step: any) => ({
-        id: step.id || uuidv4(),
-        name: step.name,
-        agentType: step.agentType,
-        action: step.action,
-        status: WorkflowStepStatus.PENDING,
-        config: step.config || {},
-        dependsOn: step.dependsOn || [],
-      })),
-      data: data.data || {},
-      status: 'active',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    this.activeWorkflows.set(workflow.id, workflow)
-    agentEventBus.publishEvent('workflow:created', { workflowId: workflow.id })
-  }
-
-  private async startWorkflow(data: { workflowId: string }): Promise<void> {
-    const workflow = this.activeWorkflows.get(data.workflowId)
-    if (!workflow) {
-      throw new Error(`Workflow not found: ${data.workflowId}`)
-    }
-
-    workflow.status = 'active'
-    workflow.updatedAt = new Date()
-
-    // Start executing steps that have no dependencies
-    const initialSteps = workflow.steps.filter(
-      (step) => step.dependsOn.length === 0
-    )
-    for (const step of initialSteps) {
-      await this.executeWorkflowStep(workflow, step)
-    }
-  }
-
-  private async pauseWorkflow(data: { workflowId: string }): Promise<void> {
-    const workflow = this.activeWorkflows.get(data.workflowId)
-    if (!workflow) {
-      throw new Error(`Workflow not found: ${data.workflowId}`)
-    }
-
-    workflow.status = 'paused'
-    workflow.updatedAt = new Date()
-  }
-
-  private async resumeWorkflow(data: { workflowId: string }): Promise<void> {
-    const workflow = this.activeWorkflows.get(data.workflowId)
-    if (!workflow) {
-      throw new Error(`Workflow not found: ${data.workflowId}`)
-    }
-
-    workflow.status = 'active'
-    workflow.updatedAt = new Date()
-
-    // Resume executing steps that are pending and have all dependencies completed
-    const pendingSteps = workflow.steps.filter(
-      (step) =>
-        step.status === WorkflowStepStatus.PENDING &&
-        this.areStepDependenciesMet(workflow, step)
-    )
-
-    for (const step of pendingSteps) {
-      await this.executeWorkflowStep(workflow, step)
-    }
-  }
-
-  private async cancelWorkflow(data: { workflowId: string }): Promise<void> {
-    const workflow = this.activeWorkflows.get(data.workflowId)
-    if (!workflow) {
-      throw new Error(`Workflow not found: ${data.workflowId}`)
-    }
-
-    workflow.status = 'failed'
-    workflow.updatedAt = new Date()
-    workflow.completedAt = new Date()
-
-    // Mark all in-progress steps as failed
-    workflow.steps
-      .filter((step) => step.status === WorkflowStepStatus.IN_PROGRESS)
-      .forEach((step) => {
-        step.status = WorkflowStepStatus.FAILED
-      })
-
-    // Mark all pending steps as skipped
-    workflow.steps
-      .filter((step) => step.status === WorkflowStepStatus.PENDING)
-      .forEach((step) => {
-        step.status = WorkflowStepStatus.SKIPPED
-      })
-
-    agentEventBus.publishEvent('workflow:cancelled', {
-      workflowId: workflow.id,
-    })
-  }
-
-  // Task Handlers
-  private async handleCreateWorkflow(task: AgentTask): Promise<AgentResult> {
-    await this.createWorkflow(task.data)
-
-    return {
-      taskId: task.id,
-      success: true,
-      data: {
-        workflowId: task.data.id || uuidv4(),
-        message: 'Workflow created successfully',
-      },
-      completedAt: new Date(),
-    }
-  }
-
-  private async handleExecuteWorkflow(task: AgentTask): Promise<AgentResult> {
-    await this.startWorkflow({ workflowId: task.data.workflowId })
-
-    return {
-      taskId: task.id,
-      success: true,
-      data: {
-        workflowId: task.data.workflowId,
-        message: 'Workflow execution started',
-      },
-      completedAt: new Date(),
-    }
-  }
-
-  private async handleUpdateWorkflow(task: AgentTask): Promise<AgentResult> {
-    const workflow = this.activeWorkflows.get(task.data.workflowId)
-    if (!workflow) {
-      throw new Error(`Workflow not found: ${task.data.workflowId}`)
-    }
-
-    // Update workflow properties
-    if (task.data.name) workflow.name = task.data.name
-    if (task.data.description) workflow.description = task.data.description
-    if (task.data.data) workflow.data = { ...workflow.data, ...task.data.data }
-
-    workflow.updatedAt = new Date()
-
-    return {
-      taskId: task.id,
-      success: true,
-      data: {
-        workflowId: workflow.id,
-        message: 'Workflow updated successfully',
-      },
-      completedAt: new Date(),
-    }
-  }
-
-  // Workflow Step Execution
-  private async executeWorkflowStep(
-    workflow: Workflow,
-    step: WorkflowStep
-  ): Promise<void> {
-    if (workflow.status !== 'active') {
-      return // Don't execute steps if workflow is not active
-    }
-
-    // Check if all dependencies are met
-    if (!this.areStepDependenciesMet(workflow, step)) {
-      return // Skip this step for now
-    }
-
-    // Update step status
-    step.status = WorkflowStepStatus.IN_PROGRESS
-
-    // Get the appropriate agent for this step
-    const agent = this.agents.get(step.agentType)
-    if (!agent) {
-      step.status = WorkflowStepStatus.FAILED
-      return
-    }
-
-    // Create a task for the agent
-    const task: AgentTask = {
-      id: uuidv4(),
-      type: step.action,
-      priority: 1,
-      data: {
-        ...step.config,
-        workflowId: workflow.id,
-        stepId: step.id,
-        workflowData: workflow.data,
-      },
-      createdAt: new Date(),
-    }
-
-    // Publish the task to the agent
-    agentEventBus.publishEvent(`task:${step.agentType}`, task)
-  }
-
-  // Check if all dependencies for a step are completed
-  private areStepDependenciesMet(
-    workflow: Workflow,
-    step: WorkflowStep
-  ): boolean {
-    if (step.dependsOn.length === 0) {
-      return true // No dependencies
-    }
-
-    return step.dependsOn.every((dependencyId) => {
-      const dependencyStep = workflow.steps.find((s) => s.id === dependencyId)
-      return (
-        dependencyStep && dependencyStep.status === WorkflowStepStatus.COMPLETED
-      )
-    })
-  }
-
-  // Handle task results and update workflow steps
-  private async handleTaskResult(
-    result: AgentResult & { workflowId?: string; stepId?: string }
-  ): Promise<void> {
-    if (!result.workflowId || !result.stepId) {
-      return // Not a workflow task result
-    }
-
-    const workflow = this.activeWorkflows.get(result.workflowId)
-    if (!workflow) {
-      return // Workflow not found
-    }
-
-    const step = workflow.steps.find((s) => s.id === result.stepId)
-    if (!step) {
-      return // Step not found
-    }
-
-    // Update step status and result
-    step.status = result.success
-      ? WorkflowStepStatus.COMPLETED
-      : WorkflowStepStatus.FAILED
-    step.result = result
-
-    // If step completed successfully, check and execute dependent steps
-    if (result.success) {
-      // Find steps that depend on this one
-      const dependentSteps = workflow.steps.filter(
-        (s) =>
-          s.dependsOn.includes(step.id) &&
-          s.status === WorkflowStepStatus.PENDING
-      )
-
-      // Check and execute dependent steps
-      for (const dependentStep of dependentSteps) {
-        if (this.areStepDependenciesMet(workflow, dependentStep)) {
-          await this.executeWorkflowStep(workflow, dependentStep)
-        }
-      }
-    }
-
-    // Check if workflow is completed
-    const allStepsCompleted = workflow.steps.every(
-      (s) =>
-        s.status === WorkflowStepStatus.COMPLETED ||
-        s.status === WorkflowStepStatus.FAILED ||
-        s.status === WorkflowStepStatus.SKIPPED
-    )
-
-    if (allStepsCompleted) {
-      const anyStepFailed = workflow.steps.some(
-        (s) => s.status === WorkflowStepStatus.FAILED
-      )
-      workflow.status = anyStepFailed ? 'failed' : 'completed'
-      workflow.completedAt = new Date()
-      workflow.updatedAt = new Date()
-
-      agentEventBus.publishEvent('workflow:completed', {
-        workflowId: workflow.id,
-        success: !anyStepFailed,
-      })
-    }
-  }
-}
-
-// Create and export a workflow orchestrator factory function
-export function createWorkflowOrchestrator(
-  config: Record<string, any> = {}
-): WorkflowOrchestratorAgent {
-  const id = config.id || uuidv4()
-  const name = config.name || 'Workflow Orchestrator'
-  const description =
-    config.description ||
-    'Coordinates tasks between specialized agents and manages business processes'
-
-  return new WorkflowOrchestratorAgent(id, name, description)
-}
+/**
+ * Workflow Orchestrator Agent
+ *
+ * This module implements the workflow orchestrator agent that coordinates tasks
+ * between specialized agents and manages business processes. Approval and
+ * sub-workflow steps are handled by the orchestrator itself: they wait for an
+ * assignee's decision or for a child workflow created from a template instead
+ * of being dispatched to an agent. Map steps dispatch their action once per
+ * item of a collection. When a workflow fails or is cancelled, the completed
+ * steps that declare a compensation are undone before it finishes. Edits
+ * record a new version of a workflow's definition, which a started workflow
+ * only runs once it is migrated to it while paused.
+ */
+
+import {
+  AGENT_CAPABILITIES,
+  BaseAgent,
+  AgentType,
+  AgentStatus,
+  AgentTask,
+  AgentResult,
+  AgentTaskResult,
+  AgentEventBus,
+  agentEventBus,
+} from '../index'
+import { createSpecializedAgent } from '../specialized'
+import { AgentPool, AgentPoolStatus } from '../pool'
+import { Clock, ClockTimer, systemClock } from '../clock'
+import { WorkflowStore, createWorkflowStore } from './store'
+import {
+  RetryPolicy,
+  StepAttempt,
+  getRetryDelay,
+  shouldRetry,
+  timeoutError,
+} from './retry'
+import {
+  buildExpressionContext,
+  checkWritablePath,
+  resolveTemplate,
+  setPath,
+} from './expressions'
+import { StepCondition, evaluateCondition } from './conditions'
+import {
+  APPROVAL_ACTION,
+  Approval,
+  ApprovalDecision,
+  ApprovalDecisionInput,
+  ApprovalError,
+  ApprovalFilter,
+  ApprovalStepConfig,
+  matchesApprovalFilter,
+  toRunStepApproval,
+} from './approvals'
+import {
+  CompensationOutcome,
+  CompensationReason,
+  StepCompensation,
+  WorkflowCompensation,
+  getCompensationOrder,
+} from './compensation'
+import {
+  DEFAULT_MAP_CONCURRENCY,
+  MapItem,
+  MapStepConfig,
+  collectMapResults,
+  createMapItems,
+  getMapOutcome,
+  isMapItemOpen,
+} from './map'
+import {
+  SUB_WORKFLOW_ACTION,
+  SubWorkflowStepConfig,
+  WorkflowTemplateRegistry,
+} from './templates'
+import {
+  RunStep,
+  WorkflowReplayError,
+  WorkflowRun,
+  WorkflowRunStatus,
+  createRun,
+  getDownstreamSteps,
+} from './runs'
+import {
+  WORKFLOW_ACTIONS,
+  WorkflowAction,
+  WorkflowSnapshot,
+  WorkflowTransitionError,
+  canTransition,
+  getWorkflowState,
+} from './transitions'
+import {
+  WorkflowDefinitionInput,
+  WorkflowValidationError,
+  validateWorkflowDefinition,
+} from './validation'
+import {
+  WorkflowVersion,
+  WorkflowVersionDiff,
+  WorkflowVersionError,
+  WorkflowVersionInput,
+  applyVersionInput,
+  checkMigration,
+  checkRenamedSteps,
+  diffWorkflowVersions,
+  getStepMapping,
+} from './versions'
+import { v4 as uuidv4 } from 'uuid'
+
+// Workflow Step Status
+export enum WorkflowStepStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  // Approval step waiting for a decision
+  WAITING = 'waiting',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+}
+
+// Task steps are dispatched to an agent, map steps once per item of a
+// collection, approval steps wait for a decision and workflow steps wait for
+// a sub-workflow
+export type WorkflowStepType = 'task' | 'map' | 'approval' | 'workflow'
+
+// Workflow Step Interface
+export interface WorkflowStep {
+  id: string
+  name: string
+  type?: WorkflowStepType
+  agentType: AgentType
+  action: string
+  status: WorkflowStepStatus
+  config: Record<string, any>
+  dependsOn: string[]
+  // Condition under which the step runs; it is skipped otherwise
+  when?: StepCondition
+  // Whether a skipped dependency skips this step too (default) or counts as
+  // satisfied
+  onSkippedDependency?: 'skip' | 'run'
+  // Step that runs when this step fails, instead of failing the workflow
+  onFailure?: string
+  // Paths in workflow.data set from expressions over the step's result
+  outputs?: Record<string, string>
+  retry?: RetryPolicy
+  // Who approves an approval step, and what happens when nobody does
+  approval?: ApprovalStepConfig
+  // Template a workflow step runs as a sub-workflow, and its parameters
+  subWorkflow?: SubWorkflowStepConfig
+  // Collection a map step iterates over, and the state of each item
+  map?: MapStepConfig
+  mapItems?: MapItem[]
+  // Action that undoes the step if the workflow fails or is cancelled after
+  // it completed, and how running it went
+  compensation?: StepCompensation
+  compensationOutcome?: CompensationOutcome
+  attempts: StepAttempt[]
+  result?: AgentResult
+}
+
+// Workflow Interface
+export interface Workflow {
+  id: string
+  name: string
+  description: string
+  steps: WorkflowStep[]
+  data: Record<string, any>
+  status:
+    | 'active'
+    | 'paused'
+    | 'completed'
+    | 'failed'
+    | 'compensating'
+    | 'compensated'
+  // Definition version the workflow runs
+  version: number
+  // Set once the workflow starts undoing its completed steps
+  compensation?: WorkflowCompensation
+  // Values handed to the parent workflow, resolved on completion
+  outputs?: Record<string, string>
+  // Template the workflow was created from
+  template?: { id: string; version: number }
+  // Workflow step this workflow runs for as a sub-workflow
+  parent?: { workflowId: string; stepId: string }
+  createdAt: Date
+  updatedAt: Date
+  completedAt?: Date
+}
+
+// Where a workflow created from a template comes from
+export interface WorkflowOrigin {
+  template?: Workflow['template']
+  parent?: Workflow['parent']
+}
+
+// Workflow Orchestrator Options Interface
+export interface WorkflowOrchestratorOptions {
+  // Time and timers of step timeouts, retries and approval expiry
+  clock?: Clock
+  // Bus tasks are dispatched and workflow events published on
+  bus?: AgentEventBus
+  // Agents steps are dispatched to, instead of the specialized agents
+  agents?: BaseAgent[]
+}
+
+// Approval expiry timers are re-armed at least this often, so long expiry
+// periods don't overflow Node.js timers
+const MAX_EXPIRY_TIMER_MS = 60 * 60 * 1000
+
+// How deep sub-workflows may nest, so a template that runs itself can't
+// recurse forever
+const MAX_SUB_WORKFLOW_DEPTH = 5
+
+// Workflow Orchestrator Agent
+export class WorkflowOrchestratorAgent implements BaseAgent {
+  id: string
+  type: AgentType.WORKFLOW
+  name: string
+  description: string
+  capabilities: string[]
+  // Workflow tasks are handled inline, so the pool only keeps counts
+  private pool = new AgentPool(AgentType.WORKFLOW, Infinity)
+  private activeWorkflows: Map<string, Workflow> = new Map()
+  // Run in progress for each workflow, by workflow id
+  private activeRuns: Map<string, WorkflowRun> = new Map()
+  private agents: Map<AgentType, BaseAgent> = new Map()
+  private store: WorkflowStore
+  private stepTimers: Map<string, ClockTimer> = new Map()
+  private approvals: Map<string, Approval> = new Map()
+  // Definition versions of each workflow, oldest first
+  private versions: Map<string, WorkflowVersion[]> = new Map()
+  private templates: WorkflowTemplateRegistry
+  private clock: Clock
+  private bus: AgentEventBus
+  private agentOverrides?: BaseAgent[]
+
+  constructor(
+    id: string,
+    name: string,
+    description: string,
+    store: WorkflowStore = createWorkflowStore(),
+    templates: WorkflowTemplateRegistry = new WorkflowTemplateRegistry(store),
+    options: WorkflowOrchestratorOptions = {}
+  ) {
+    this.id = id
+    this.type = AgentType.WORKFLOW
+    this.name = name
+    this.description = description
+    this.store = store
+    this.templates = templates
+    this.capabilities = AGENT_CAPABILITIES[AgentType.WORKFLOW]
+    this.clock = options.clock ?? systemClock
+    this.bus = options.bus ?? agentEventBus
+    this.agentOverrides = options.agents
+  }
+
+  get status(): AgentStatus {
+    return this.pool.getStatus().status
+  }
+
+  async initialize(): Promise<void> {
+    // Initialize all specialized agents, unless other agents were given
+    const agents =
+      this.agentOverrides ??
+      Object.values(AgentType)
+        .filter((agentType) => agentType !== AgentType.WORKFLOW)
+        .map((agentType) =>
+          createSpecializedAgent(agentType, {
+            name: `${agentType} Agent`,
+            description: `Specialized ${agentType} agent`,
+          })
+        )
+    for (const agent of agents) {
+      await agent.initialize()
+      this.agents.set(agent.type, agent)
+    }
+
+    // Subscribe to workflow-related events
+    this.bus.subscribeToEvent('workflow:create', (data) => {
+      void this.handleCreateEvent(data)
+    })
+    for (const action of WORKFLOW_ACTIONS) {
+      this.bus.subscribeToEvent(`workflow:${action}`, (event) => {
+        void this.handleControlEvent(event.workflowId, action)
+      })
+    }
+
+    // Subscribe to task results to update workflow steps
+    this.bus.subscribeToEvent('result:*', (result) => {
+      this.report(
+        this.handleTaskResult(result),
+        result.workflowId,
+        result.stepId
+      )
+    })
+    this.bus.subscribeToEvent('agent:task_started', (event) => {
+      this.handleTaskStarted(event)
+    })
+
+    // Templates are needed to restart sub-workflow steps
+    await this.templates.start()
+
+    // Reload persisted workflows and pick up where the last process left off
+    await this.recoverWorkflows()
+  }
+
+  async execute(task: AgentTask): Promise<AgentResult> {
+    return this.pool.run(
+      () => this.executeTask(task),
+      (result) => result.success
+    )
+  }
+
+  private async executeTask(task: AgentTask): Promise<AgentResult> {
+    try {
+      let result: AgentResult
+
+      switch (task.type) {
+        case 'create_workflow':
+          result = await this.handleCreateWorkflow(task)
+          break
+        case 'execute_workflow':
+          result = await this.handleExecuteWorkflow(task)
+          break
+        case 'update_workflow':
+          result = await this.handleUpdateWorkflow(task)
+          break
+        default:
+          throw new Error(`Unsupported task type: ${task.type}`)
+      }
+
+      return result
+    } catch (error) {
+      return {
+        taskId: task.id,
+        success: false,
+        data: {},
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: this.clock.now(),
+      }
+    }
+  }
+
+  getStatus(): AgentPoolStatus {
+    return this.pool.getStatus()
+  }
+
+  // Pool state of the specialized agents steps are dispatched to, with the
+  // id of the agent running each pool
+  getAgentPools(): Array<AgentPoolStatus & { agentId: string }> {
+    return Array.from(this.agents.values()).map((agent) => ({
+      ...agent.getStatus(),
+      agentId: agent.id,
+    }))
+  }
+
+  // Running specialized agent with an id
+  getAgent(agentId: string): BaseAgent | undefined {
+    return Array.from(this.agents.values()).find(
+      (agent) => agent.id === agentId
+    )
+  }
+
+  // Workflow Management Methods
+
+  // Create a workflow from a definition. Invalid definitions throw a
+  // WorkflowValidationError, and ids already in use a WorkflowTransitionError.
+  async createWorkflow(
+    data: any,
+    origin: WorkflowOrigin = {}
+  ): Promise<WorkflowSnapshot> {
+    const validation = validateWorkflowDefinition(data)
+    if (!validation.valid) {
+      this.bus.publishEvent('workflow:invalid', {
+        workflowId: data.id,
+        errors: validation.errors,
+      })
+      throw new WorkflowValidationError(validation.errors)
+    }
+    if (data.id && this.activeWorkflows.has(data.id)) {
+      throw new WorkflowTransitionError(
+        `Workflow ${data.id} already exists`,
+        'conflict'
+      )
+    }
+
+    const workflow: Workflow = {
+      id: data.id || uuidv4(),
+      name: data.name,
+      description: data.description,
+      steps: data.steps.map(createStep),
+      data: data.data || {},
+      status: 'active',
+      version: 1,
+      outputs: data.outputs,
+      template: origin.template,
+      parent: origin.parent,
+      createdAt: this.clock.now(),
+      updatedAt: this.clock.now(),
+    }
+
+    // The definition as created is the first version
+    const version: WorkflowVersion = {
+      workflowId: workflow.id,
+      version: 1,
+      definition: getWorkflowDefinition(workflow),
+      createdAt: workflow.createdAt,
+    }
+    this.activeWorkflows.set(workflow.id, workflow)
+    this.versions.set(workflow.id, [version])
+    await this.store.saveWorkflow(workflow)
+    await this.store.saveVersion(version)
+    this.bus.publishEvent('workflow:created', { workflowId: workflow.id })
+    return this.toSnapshot(workflow)
+  }
+
+  // Create a workflow from a version of a template, by default its latest.
+  // Unknown templates and parameters that don't match the template throw a
+  // TemplateError.
+  async createWorkflowFromTemplate(
+    templateId: string,
+    params: Record<string, unknown>,
+    options: { version?: number; id?: string; parent?: Workflow['parent'] } = {}
+  ): Promise<WorkflowSnapshot> {
+    const { template, definition } = this.templates.instantiate(
+      templateId,
+      params,
+      options.version
+    )
+    return this.createWorkflow(
+      { ...definition, id: options.id },
+      {
+        template: { id: template.id, version: template.version },
+        parent: options.parent,
+      }
+    )
+  }
+
+  // Workflow as the orchestrator holds it, or null when it doesn't exist
+  getWorkflow(workflowId: string): WorkflowSnapshot | null {
+    const workflow = this.activeWorkflows.get(workflowId)
+    return workflow ? this.toSnapshot(workflow) : null
+  }
+
+  // Start, pause, resume or cancel a workflow and return its new state.
+  // Actions the workflow's state doesn't allow, such as resuming a completed
+  // workflow, throw a WorkflowTransitionError.
+  async controlWorkflow(
+    workflowId: string,
+    action: WorkflowAction
+  ): Promise<WorkflowSnapshot> {
+    const workflow = this.findWorkflow(workflowId)
+    const state = getWorkflowState(workflow, this.activeRuns.has(workflow.id))
+    if (!canTransition(state, action)) {
+      throw new WorkflowTransitionError(
+        `Cannot ${action} workflow ${workflowId} while it is ${state}`,
+        'conflict',
+        state
+      )
+    }
+
+    switch (action) {
+      case 'start':
+        await this.startWorkflow(workflow)
+        break
+      case 'pause':
+        await this.pauseWorkflow(workflow)
+        break
+      case 'resume':
+        await this.resumeWorkflow(workflow)
+        break
+      case 'cancel':
+        await this.cancelWorkflow(workflow)
+        break
+    }
+    return this.toSnapshot(workflow)
+  }
+
+  // Record an edit of a workflow's definition as its next version. A
+  // workflow that hasn't started runs the new version right away; others
+  // keep the version they run until they are migrated. Invalid definitions
+  // throw a WorkflowValidationError, and renames of steps that don't exist a
+  // WorkflowVersionError.
+  async updateWorkflow(
+    workflowId: string,
+    changes: WorkflowVersionInput
+  ): Promise<WorkflowSnapshot> {
+    const workflow = this.findWorkflow(workflowId)
+    const versions = this.versions.get(workflow.id)!
+    const latest = versions[versions.length - 1]
+
+    const definition = applyVersionInput(latest.definition, changes)
+    const validation = validateWorkflowDefinition(definition)
+    if (!validation.valid) {
+      throw new WorkflowValidationError(validation.errors)
+    }
+    const renamedSteps = changes.renamedSteps ?? {}
+    const errors = checkRenamedSteps(
+      latest.definition,
+      definition,
+      renamedSteps
+    )
+    if (errors.length > 0) {
+      throw new WorkflowVersionError(
+        `Invalid step renames: ${errors.join('; ')}`,
+        'invalid',
+        errors
+      )
+    }
+
+    const version: WorkflowVersion = {
+      workflowId: workflow.id,
+      version: latest.version + 1,
+      definition,
+      renamedSteps:
+        Object.keys(renamedSteps).length > 0 ? renamedSteps : undefined,
+      createdAt: this.clock.now(),
+    }
+    await this.store.saveVersion(version)
+    versions.push(version)
+
+    const state = getWorkflowState(workflow, this.activeRuns.has(workflow.id))
+    if (state === 'created') {
+      workflow.name = definition.name
+      workflow.description = definition.description
+      workflow.steps = definition.steps.map(createStep)
+      workflow.data = structuredClone(definition.data)
+      workflow.outputs = definition.outputs
+      workflow.version = version.version
+      workflow.updatedAt = version.createdAt
+      await this.store.saveWorkflow(workflow)
+    }
+
+    this.bus.publishEvent('workflow:version_created', {
+      workflowId: workflow.id,
+      version: version.version,
+      applied: workflow.version === version.version,
+    })
+    return this.toSnapshot(workflow)
+  }
+
+  // Definition versions of a workflow, oldest first
+  listVersions(workflowId: string): WorkflowVersion[] {
+    this.findWorkflow(workflowId)
+    return structuredClone(this.versions.get(workflowId)!)
+  }
+
+  getVersion(workflowId: string, version: number): WorkflowVersion {
+    this.findWorkflow(workflowId)
+    const found = this.versions
+      .get(workflowId)!
+      .find((v) => v.version === version)
+    if (!found) {
+      throw new WorkflowVersionError(
+        `Workflow ${workflowId} has no version ${version}`,
+        'not_found'
+      )
+    }
+    return structuredClone(found)
+  }
+
+  // Differences between two versions of a workflow, by default between the
+  // latest and the one before it
+  diffVersions(
+    workflowId: string,
+    from?: number,
+    to?: number
+  ): WorkflowVersionDiff {
+    const versions = this.listVersions(workflowId)
+    const target = this.getVersion(
+      workflowId,
+      to ?? versions[versions.length - 1].version
+    )
+    const source = this.getVersion(
+      workflowId,
+      from ?? Math.max(target.version - 1, 1)
+    )
+    if (source.version > target.version) {
+      throw new WorkflowVersionError(
+        `Version ${source.version} comes after version ${target.version}`,
+        'invalid'
+      )
+    }
+    return diffWorkflowVersions(
+      source,
+      target,
+      getStepMapping(versions, source.version, target.version)
+    )
+  }
+
+  // Move a paused workflow to a newer version of its definition, by default
+  // the latest. Steps keep their status and results under their id in that
+  // version, and the workflow stays paused until it is resumed. Versions
+  // that don't fit what already ran throw a WorkflowVersionError with the
+  // reasons.
+  async migrateWorkflow(
+    workflowId: string,
+    toVersion?: number
+  ): Promise<WorkflowSnapshot> {
+    const workflow = this.findWorkflow(workflowId)
+    const state = getWorkflowState(workflow, this.activeRuns.has(workflow.id))
+    if (state !== 'paused') {
+      throw new WorkflowVersionError(
+        `Cannot migrate workflow ${workflowId} while it is ${state}; only ` +
+          'paused workflows can be migrated',
+        'conflict'
+      )
+    }
+    const versions = this.versions.get(workflow.id)!
+    const target = this.getVersion(
+      workflowId,
+      toVersion ?? versions[versions.length - 1].version
+    )
+    if (target.version <= workflow.version) {
+      throw new WorkflowVersionError(
+        `Workflow ${workflowId} runs version ${workflow.version}; it can ` +
+          'only be migrated to a newer version',
+        'invalid'
+      )
+    }
+
+    const fromVersion = workflow.version
+    const mapping = getStepMapping(versions, fromVersion, target.version)
+    const errors = checkMigration(workflow, target.definition, mapping)
+    if (errors.length > 0) {
+      throw new WorkflowVersionError(
+        `Cannot migrate workflow ${workflowId} to version ` +
+          `${target.version}: ${errors.join('; ')}`,
+        'conflict',
+        errors
+      )
+    }
+
+    // Steps carried over stay the same objects, which pending timers refer
+    // to, with the settings of the new version
+    const renamed = new Map<string, string>()
+    workflow.steps = target.definition.steps.map((definition) => {
+      const step = createStep(definition as Partial<WorkflowStep>)
+      const current = workflow.steps.find((s) => mapping.get(s.id) === step.id)
+      if (!current) {
+        return step
+      }
+      if (current.id !== step.id) {
+        renamed.set(current.id, step.id)
+        this.renameStepTimers(workflow, current, step.id)
+      }
+      return Object.assign(current, {
+        ...step,
+        status: current.status,
+        attempts: current.attempts,
+        result: current.result,
+        mapItems: current.mapItems,
+        compensationOutcome: current.compensationOutcome,
+      })
+    })
+    workflow.name = target.definition.name
+    workflow.description = target.definition.description
+    // Data written by steps is kept; keys new to the version are added
+    workflow.data = { ...target.definition.data, ...workflow.data }
+    workflow.outputs = target.definition.outputs
+    workflow.version = target.version
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+
+    for (const [previousId, stepId] of renamed) {
+      for (const approval of this.approvals.values()) {
+        if (
+          approval.workflowId === workflow.id &&
+          approval.stepId === previousId
+        ) {
+          approval.stepId = stepId
+          await this.store.saveApproval(approval)
+        }
+      }
+      for (const child of this.activeWorkflows.values()) {
+        if (
+          child.parent?.workflowId === workflow.id &&
+          child.parent.stepId === previousId
+        ) {
+          child.parent.stepId = stepId
+          await this.store.saveWorkflow(child)
+        }
+      }
+    }
+
+    const run = this.activeRuns.get(workflow.id)
+    if (run) {
+      const previousIds = new Map(
+        Array.from(mapping, ([previousId, stepId]) => [stepId, previousId])
+      )
+      run.steps = workflow.steps.map((step) => {
+        const entry = run.steps.find(
+          (e) => e.stepId === previousIds.get(step.id)
+        )
+        return entry
+          ? { ...entry, stepId: step.id, name: step.name }
+          : {
+              stepId: step.id,
+              name: step.name,
+              agentType: step.agentType,
+              status: step.status,
+              attempts: [],
+            }
+      })
+      run.version = target.version
+      run.migrations = [
+        ...(run.migrations ?? []),
+        {
+          fromVersion,
+          toVersion: target.version,
+          migratedAt: workflow.updatedAt,
+        },
+      ]
+      await this.store.saveRun(run)
+    }
+
+    this.bus.publishEvent('workflow:migrated', {
+      workflowId: workflow.id,
+      fromVersion,
+      toVersion: target.version,
+      renamedSteps: Object.fromEntries(renamed),
+    })
+    return this.toSnapshot(workflow)
+  }
+
+  // Move the timers of a step, and of its map items, to its new id
+  private renameStepTimers(
+    workflow: Workflow,
+    step: WorkflowStep,
+    stepId: string
+  ): void {
+    const renamed = { ...step, id: stepId }
+    const items = [undefined, ...(step.mapItems ?? [])]
+    for (const item of items) {
+      const timer = this.stepTimers.get(getTimerKey(workflow, step, item))
+      if (timer) {
+        this.stepTimers.delete(getTimerKey(workflow, step, item))
+        this.stepTimers.set(getTimerKey(workflow, renamed, item), timer)
+      }
+    }
+  }
+
+  // Delete a workflow with its runs and results. Running workflows have to
+  // be cancelled first.
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    const workflow = this.findWorkflow(workflowId)
+    const state = getWorkflowState(workflow, this.activeRuns.has(workflow.id))
+    if (
+      state === 'running' ||
+      state === 'waiting' ||
+      state === 'compensating'
+    ) {
+      throw new WorkflowTransitionError(
+        `Cannot delete workflow ${workflowId} while it is ${state}`,
+        'conflict',
+        state
+      )
+    }
+
+    workflow.steps.forEach((step) => this.clearStepTimer(workflow, step))
+    this.activeWorkflows.delete(workflow.id)
+    this.activeRuns.delete(workflow.id)
+    this.versions.delete(workflow.id)
+    for (const approval of this.approvals.values()) {
+      if (approval.workflowId === workflow.id) {
+        this.approvals.delete(approval.id)
+      }
+    }
+    await this.store.deleteWorkflow(workflow.id)
+  }
+
+  private findWorkflow(workflowId: string): Workflow {
+    const workflow = this.activeWorkflows.get(workflowId)
+    if (!workflow) {
+      throw new WorkflowTransitionError(
+        `Workflow not found: ${workflowId}`,
+        'not_found'
+      )
+    }
+    return workflow
+  }
+
+  private toSnapshot(workflow: Workflow): WorkflowSnapshot {
+    const versions = this.versions.get(workflow.id) ?? []
+    return {
+      ...structuredClone(workflow),
+      state: getWorkflowState(workflow, this.activeRuns.has(workflow.id)),
+      latestVersion: versions[versions.length - 1]?.version ?? workflow.version,
+    }
+  }
+
+  // Invalid definitions are already reported as workflow:invalid
+  private async handleCreateEvent(
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.createWorkflow(data)
+    } catch (error) {
+      if (!(error instanceof WorkflowValidationError)) {
+        this.bus.publishEvent('workflow:create_failed', {
+          workflowId: typeof data.id === 'string' ? data.id : undefined,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  // Publish the failure of work the orchestrator does on its own, such as
+  // handling a task result, as workflow:error
+  private report(
+    work: Promise<void>,
+    workflowId?: string,
+    stepId?: string
+  ): void {
+    work.catch((error) => {
+      this.bus.publishEvent('workflow:error', {
+        workflowId,
+        stepId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+  }
+
+  // Control commands published on the bus have no caller to answer, so
+  // rejected ones are reported as an event
+  private async handleControlEvent(
+    workflowId: string,
+    action: WorkflowAction
+  ): Promise<void> {
+    try {
+      await this.controlWorkflow(workflowId, action)
+    } catch (error) {
+      this.bus.publishEvent('workflow:rejected', {
+        workflowId,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  private async startWorkflow(workflow: Workflow): Promise<void> {
+    // The run is registered first, so the workflow counts as started at once
+    await this.ensureRun(workflow)
+    workflow.status = 'active'
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+
+    // Start executing steps that have no dependencies
+    await this.advanceWorkflow(workflow)
+  }
+
+  private async pauseWorkflow(workflow: Workflow): Promise<void> {
+    workflow.status = 'paused'
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+  }
+
+  private async resumeWorkflow(workflow: Workflow): Promise<void> {
+    workflow.status = 'active'
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+    await this.ensureRun(workflow)
+
+    // Resume executing steps that are pending and have all dependencies completed
+    await this.advanceWorkflow(workflow)
+
+    // Map steps dispatch the items they held back while paused
+    for (const step of workflow.steps) {
+      if (step.mapItems && step.status === WorkflowStepStatus.IN_PROGRESS) {
+        await this.dispatchMapItems(workflow, step)
+      }
+    }
+  }
+
+  private async cancelWorkflow(workflow: Workflow): Promise<void> {
+    workflow.status = 'failed'
+    workflow.updatedAt = this.clock.now()
+    workflow.completedAt = this.clock.now()
+
+    // Stop pending timeouts and retries
+    workflow.steps.forEach((step) => this.clearStepTimer(workflow, step))
+    const children = workflow.steps
+      .map((step) => this.getRunningChild(step))
+      .filter((child): child is Workflow => child !== undefined)
+
+    // Mark all in-progress and waiting steps as failed
+    workflow.steps
+      .filter(
+        (step) =>
+          step.status === WorkflowStepStatus.IN_PROGRESS ||
+          step.status === WorkflowStepStatus.WAITING
+      )
+      .forEach((step) => {
+        step.status = WorkflowStepStatus.FAILED
+        this.cancelMapItems(workflow, step)
+      })
+
+    // Mark all pending steps as skipped
+    workflow.steps
+      .filter((step) => step.status === WorkflowStepStatus.PENDING)
+      .forEach((step) => {
+        step.status = WorkflowStepStatus.SKIPPED
+      })
+
+    await this.store.saveWorkflow(workflow)
+    for (const approval of this.approvals.values()) {
+      if (
+        approval.workflowId !== workflow.id ||
+        approval.status !== 'pending'
+      ) {
+        continue
+      }
+      approval.status = 'cancelled'
+      await this.store.saveApproval(approval)
+      await this.recordApproval(workflow, approval)
+    }
+    // Completed steps are undone before the run finishes
+    const compensate = getCompensationOrder(workflow).length > 0
+    if (!compensate) {
+      await this.finishRun(workflow, 'cancelled')
+    }
+    this.bus.publishEvent('workflow:cancelled', {
+      workflowId: workflow.id,
+    })
+
+    // Cancelling a workflow cancels its sub-workflows, and a cancelled
+    // sub-workflow fails the step that runs it
+    for (const child of children) {
+      await this.cancelSubWorkflow(child)
+    }
+    if (compensate) {
+      await this.startCompensation(workflow, 'cancelled')
+      return
+    }
+    await this.completeParentStep(workflow, true)
+  }
+
+  // Runs of a workflow, oldest first
+  async listRuns(workflowId: string): Promise<WorkflowRun[]> {
+    return this.store.listRuns(workflowId)
+  }
+
+  // Execute a finished run again from one of its steps, by default its
+  // first failed step. Steps that don't follow from that step keep the
+  // status and result they had in the run.
+  async replayRun(
+    workflowId: string,
+    runId: string,
+    fromStepId?: string
+  ): Promise<WorkflowRun> {
+    const workflow = this.activeWorkflows.get(workflowId)
+    if (!workflow) {
+      throw new WorkflowReplayError(
+        `Workflow not found: ${workflowId}`,
+        'not_found'
+      )
+    }
+    const runs = await this.store.listRuns(workflowId)
+    const run = runs.find((r) => r.id === runId)
+    if (!run) {
+      throw new WorkflowReplayError(`Run not found: ${runId}`, 'not_found')
+    }
+    if (
+      workflow.status === 'active' ||
+      workflow.status === 'paused' ||
+      workflow.status === 'compensating'
+    ) {
+      throw new WorkflowReplayError(
+        `Workflow ${workflowId} is ${workflow.status}; only finished ` +
+          'workflows can be replayed',
+        'conflict'
+      )
+    }
+    // The results a replay would reuse were undone
+    if (workflow.compensation) {
+      throw new WorkflowReplayError(
+        `Workflow ${workflowId} was compensated and can't be replayed`,
+        'conflict'
+      )
+    }
+
+    const fromStep =
+      fromStepId ??
+      run.steps.find((s) => s.status === WorkflowStepStatus.FAILED)?.stepId
+    if (!fromStep) {
+      throw new WorkflowReplayError(
+        `Run ${runId} has no failed step to replay from`,
+        'invalid'
+      )
+    }
+    if (!workflow.steps.some((step) => step.id === fromStep)) {
+      throw new WorkflowReplayError(`Step not found: ${fromStep}`, 'invalid')
+    }
+
+    const replayedStepIds = getDownstreamSteps(workflow, fromStep)
+    for (const step of workflow.steps) {
+      const previous = run.steps.find((s) => s.stepId === step.id)
+      if (previous && !replayedStepIds.has(step.id)) {
+        step.status = previous.status
+        step.result = previous.result
+      } else {
+        step.status = WorkflowStepStatus.PENDING
+        step.result = undefined
+        step.attempts = []
+        step.mapItems = undefined
+      }
+    }
+
+    workflow.status = 'active'
+    workflow.completedAt = undefined
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+
+    const replay = await this.startRun(
+      createRun(uuidv4(), workflow, this.clock.now(), {
+        run,
+        fromStep,
+        replayedStepIds,
+      })
+    )
+    await this.advanceWorkflow(workflow)
+    return replay
+  }
+
+  // Start a run for a workflow that isn't already running one
+  private async ensureRun(workflow: Workflow): Promise<void> {
+    if (!this.activeRuns.has(workflow.id)) {
+      await this.startRun(createRun(uuidv4(), workflow, this.clock.now()))
+    }
+  }
+
+  private async startRun(run: WorkflowRun): Promise<WorkflowRun> {
+    this.activeRuns.set(run.workflowId, run)
+    await this.store.saveRun(run)
+    this.bus.publishEvent('workflow:run_started', {
+      workflowId: run.workflowId,
+      runId: run.id,
+      replayOf: run.replayOf,
+      fromStep: run.fromStep,
+    })
+    return run
+  }
+
+  private async finishRun(
+    workflow: Workflow,
+    status: WorkflowRunStatus
+  ): Promise<void> {
+    const run = this.activeRuns.get(workflow.id)
+    if (!run) {
+      return
+    }
+    this.activeRuns.delete(workflow.id)
+
+    run.status = status
+    run.completedAt = workflow.completedAt ?? this.clock.now()
+    for (const entry of run.steps) {
+      const step = workflow.steps.find((s) => s.id === entry.stepId)
+      if (step && !entry.reused) {
+        entry.status = step.status
+        // Steps cut short by a cancellation end with the run
+        if (entry.queuedAt && !entry.finishedAt) {
+          entry.finishedAt = run.completedAt
+        }
+      }
+    }
+    await this.store.saveRun(run)
+  }
+
+  // Apply a change to the timeline of a step in the workflow's current run
+  private async recordRunStep(
+    workflow: Workflow,
+    step: WorkflowStep,
+    update: (entry: RunStep) => void = () => {}
+  ): Promise<void> {
+    const run = this.activeRuns.get(workflow.id)
+    const entry = run?.steps.find((s) => s.stepId === step.id)
+    if (!run || !entry) {
+      return
+    }
+    entry.status = step.status
+    update(entry)
+    await this.store.saveRun(run)
+  }
+
+  // Record when an agent picks up the task of a step attempt
+  private handleTaskStarted(event: { taskId: string }): void {
+    for (const run of this.activeRuns.values()) {
+      for (const entry of run.steps) {
+        const attempt = entry.attempts.find((a) => a.taskId === event.taskId)
+        if (attempt) {
+          attempt.startedAt = this.clock.now()
+          entry.startedAt ??= attempt.startedAt
+          this.report(this.store.saveRun(run), run.workflowId, entry.stepId)
+          return
+        }
+      }
+    }
+  }
+
+  // Reload workflows from the store and re-dispatch the steps that were in
+  // flight when the previous process stopped
+  private async recoverWorkflows(): Promise<void> {
+    const workflows = await this.store.loadWorkflows()
+
+    for (const version of await this.store.loadVersions()) {
+      const versions = this.versions.get(version.workflowId) ?? []
+      versions.push(version)
+      this.versions.set(version.workflowId, versions)
+    }
+
+    for (const workflow of workflows) {
+      this.activeWorkflows.set(workflow.id, workflow)
+
+      // Workflows saved before definitions were versioned start out with
+      // the definition they have now
+      if (!this.versions.has(workflow.id)) {
+        const version: WorkflowVersion = {
+          workflowId: workflow.id,
+          version: workflow.version,
+          definition: getWorkflowDefinition(workflow),
+          createdAt: workflow.createdAt,
+        }
+        this.versions.set(workflow.id, [version])
+        await this.store.saveVersion(version)
+      }
+
+      const runs = await this.store.listRuns(workflow.id)
+      const run = runs.find((r) => r.status === 'running')
+      if (run) {
+        this.activeRuns.set(workflow.id, run)
+      }
+    }
+
+    // Approvals still pending keep their workflow waiting, and expire on
+    // schedule even if the process was down when they were due
+    for (const approval of await this.store.loadApprovals()) {
+      this.approvals.set(approval.id, approval)
+      const workflow = this.activeWorkflows.get(approval.workflowId)
+      const step = workflow?.steps.find((s) => s.id === approval.stepId)
+      if (workflow && step && approval.status === 'pending') {
+        this.scheduleApprovalExpiry(workflow, step, approval)
+      }
+    }
+
+    for (const workflow of workflows) {
+      // A compensation in flight when the process stopped is run again
+      if (workflow.status === 'compensating') {
+        workflow.steps
+          .filter((step) => step.compensationOutcome?.status === 'in_progress')
+          .forEach((step) => {
+            step.compensationOutcome = undefined
+          })
+        await this.compensateNextStep(workflow)
+        continue
+      }
+
+      // Workflows that were created but never started are left alone
+      const started = workflow.steps.some(
+        (step) => step.status !== WorkflowStepStatus.PENDING
+      )
+      if (workflow.status !== 'active' || !started) {
+        continue
+      }
+
+      // The result of an in-flight step was lost with the process, so the
+      // step is reset and dispatched again. Pending steps whose dependencies
+      // completed just before the crash are picked up as well.
+      // Sub-workflow steps keep waiting for their child, which is
+      // recovered on its own.
+      const interruptedSteps = workflow.steps.filter(
+        (step) =>
+          step.status === WorkflowStepStatus.IN_PROGRESS &&
+          !this.getRunningChild(step)
+      )
+      interruptedSteps.forEach((step) => {
+        step.status = WorkflowStepStatus.PENDING
+      })
+
+      await this.advanceWorkflow(workflow)
+
+      this.bus.publishEvent('workflow:recovered', {
+        workflowId: workflow.id,
+        redispatchedStepIds: interruptedSteps.map((step) => step.id),
+      })
+    }
+
+    // Sub-workflows that finished just before the crash hand their outcome
+    // to the step that runs them
+    for (const workflow of workflows) {
+      if (workflow.completedAt) {
+        await this.completeParentStep(workflow)
+      }
+    }
+  }
+
+  // Task Handlers
+  private async handleCreateWorkflow(task: AgentTask): Promise<AgentResult> {
+    const workflow = await this.createWorkflow(task.data)
+
+    return {
+      taskId: task.id,
+      success: true,
+      data: {
+        workflowId: workflow.id,
+        message: 'Workflow created successfully',
+      },
+      completedAt: this.clock.now(),
+    }
+  }
+
+  private async handleExecuteWorkflow(task: AgentTask): Promise<AgentResult> {
+    await this.controlWorkflow(task.data.workflowId, 'start')
+
+    return {
+      taskId: task.id,
+      success: true,
+      data: {
+        workflowId: task.data.workflowId,
+        message: 'Workflow execution started',
+      },
+      completedAt: this.clock.now(),
+    }
+  }
+
+  private async handleUpdateWorkflow(task: AgentTask): Promise<AgentResult> {
+    const workflow = await this.updateWorkflow(task.data.workflowId, {
+      name: task.data.name,
+      description: task.data.description,
+      data: task.data.data,
+    })
+
+    return {
+      taskId: task.id,
+      success: true,
+      data: {
+        workflowId: workflow.id,
+        message: 'Workflow updated successfully',
+      },
+      completedAt: this.clock.now(),
+    }
+  }
+
+  // Workflow Step Execution
+  private async executeWorkflowStep(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    if (workflow.status !== 'active') {
+      return // Don't execute steps if workflow is not active
+    }
+
+    // Check if all dependencies are met
+    if (this.getDependencyState(workflow, step) !== 'ready') {
+      return // Skip this step for now
+    }
+
+    if (step.type === 'approval') {
+      await this.requestApproval(workflow, step)
+      return
+    }
+
+    // Update step status
+    step.status = WorkflowStepStatus.IN_PROGRESS
+
+    if (step.type === 'workflow') {
+      await this.dispatchStepAttempt(workflow, step)
+      return
+    }
+
+    // Get the appropriate agent for this step
+    const agent = this.agents.get(step.agentType)
+    if (!agent) {
+      await this.completeStep(
+        workflow,
+        step,
+        {
+          taskId: uuidv4(),
+          success: false,
+          data: {},
+          error: `No agent available for type: ${step.agentType}`,
+          completedAt: this.clock.now(),
+        },
+        false
+      )
+      return
+    }
+
+    await this.dispatchStepAttempt(workflow, step)
+  }
+
+  // Dispatch a new attempt of a step to its agent
+  private async dispatchStepAttempt(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    if (step.type === 'workflow') {
+      await this.startSubWorkflow(workflow, step)
+      return
+    }
+    if (step.type === 'map') {
+      await this.startMapStep(workflow, step)
+      return
+    }
+
+    const taskId = uuidv4()
+
+    // Resolve references to workflow data and upstream results
+    let config: Record<string, unknown>
+    try {
+      config = resolveTemplate(step.config, buildExpressionContext(workflow))
+    } catch (error) {
+      await this.completeStep(
+        workflow,
+        step,
+        {
+          taskId,
+          success: false,
+          data: {},
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: this.clock.now(),
+        },
+        false
+      )
+      return
+    }
+
+    // Create a task for the agent
+    const task: AgentTask = {
+      id: taskId,
+      type: step.action,
+      priority: 1,
+      data: {
+        ...config,
+        workflowId: workflow.id,
+        stepId: step.id,
+        workflowData: workflow.data,
+      },
+      createdAt: this.clock.now(),
+    }
+
+    const attempt: StepAttempt = {
+      attempt: step.attempts.length + 1,
+      taskId: task.id,
+      startedAt: this.clock.now(),
+    }
+    step.attempts.push(attempt)
+
+    // Persist before dispatching so a crash never loses an in-flight step
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.input = config
+      entry.queuedAt ??= attempt.startedAt
+      entry.attempts.push({
+        attempt: attempt.attempt,
+        taskId: task.id,
+        queuedAt: attempt.startedAt,
+      })
+    })
+    this.bus.publishEvent('workflow:step_started', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      agentType: step.agentType,
+      attempt: attempt.attempt,
+      taskId: task.id,
+    })
+
+    if (step.retry?.timeoutMs) {
+      const timeoutMs = step.retry.timeoutMs
+      this.setStepTimer(workflow, step, timeoutMs, () =>
+        this.handleStepTimeout(workflow, step, attempt, timeoutMs)
+      )
+    }
+
+    // Publish the task to the agent
+    this.bus.publishEvent(`task:${step.agentType}`, task)
+  }
+
+  // Approvals requested by approval steps, oldest first
+  listApprovals(filter: ApprovalFilter = {}): Approval[] {
+    return Array.from(this.approvals.values())
+      .filter((approval) => matchesApprovalFilter(approval, filter))
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime())
+      .map((approval) => structuredClone(approval))
+  }
+
+  getApproval(approvalId: string): Approval | null {
+    const approval = this.approvals.get(approvalId)
+    return approval ? structuredClone(approval) : null
+  }
+
+  // Approve or reject a pending approval on behalf of one of its assignees.
+  // Approving completes the approval step and rejecting fails it.
+  async decideApproval(
+    approvalId: string,
+    decision: ApprovalDecision,
+    input: ApprovalDecisionInput
+  ): Promise<Approval> {
+    const approval = this.approvals.get(approvalId)
+    if (!approval) {
+      throw new ApprovalError(`Approval not found: ${approvalId}`, 'not_found')
+    }
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(
+        `Approval ${approvalId} is already ${approval.status}`,
+        'conflict'
+      )
+    }
+    if (!approval.assignees.includes(input.by)) {
+      throw new ApprovalError(
+        `${input.by} is not an assignee of approval ${approvalId}`,
+        'forbidden'
+      )
+    }
+
+    approval.status = decision === 'approve' ? 'approved' : 'rejected'
+    approval.decision = decision
+    approval.decidedBy = input.by
+    approval.comment = input.comment
+    approval.decidedAt = this.clock.now()
+    this.bus.publishEvent('approval:decided', {
+      workflowId: approval.workflowId,
+      stepId: approval.stepId,
+      approvalId: approval.id,
+      decision,
+      decidedBy: input.by,
+      comment: input.comment,
+    })
+
+    await this.settleApproval(approval)
+    return structuredClone(approval)
+  }
+
+  // Hold an approval step until one of its assignees decides or the
+  // approval expires. The assignees are notified through the
+  // `approval:requested` event.
+  private async requestApproval(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    const config = step.approval!
+    let title: string
+    let message: string | undefined
+    try {
+      const context = buildExpressionContext(workflow)
+      title = config.title
+        ? String(resolveTemplate(config.title, context))
+        : step.name || `Approve ${step.id}`
+      message = config.message
+        ? String(resolveTemplate(config.message, context))
+        : undefined
+    } catch (error) {
+      step.status = WorkflowStepStatus.IN_PROGRESS
+      await this.completeStep(
+        workflow,
+        step,
+        {
+          taskId: uuidv4(),
+          success: false,
+          data: {},
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: this.clock.now(),
+        },
+        false
+      )
+      return
+    }
+
+    const requestedAt = this.clock.now()
+    const approval: Approval = {
+      id: uuidv4(),
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      stepId: step.id,
+      runId: this.activeRuns.get(workflow.id)?.id,
+      title,
+      message,
+      assignees: config.assignees,
+      status: 'pending',
+      onExpiry: config.onExpiry ?? 'reject',
+      requestedAt,
+      expiresAt: config.expiresInMs
+        ? new Date(requestedAt.getTime() + config.expiresInMs)
+        : undefined,
+    }
+    this.approvals.set(approval.id, approval)
+
+    step.status = WorkflowStepStatus.WAITING
+    workflow.updatedAt = requestedAt
+    await this.store.saveApproval(approval)
+    await this.store.saveWorkflow(workflow)
+    await this.recordApproval(workflow, approval, (entry) => {
+      entry.queuedAt ??= requestedAt
+    })
+    this.bus.publishEvent('approval:requested', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      approvalId: approval.id,
+      title,
+      message,
+      assignees: approval.assignees,
+      expiresAt: approval.expiresAt,
+    })
+
+    this.scheduleApprovalExpiry(workflow, step, approval)
+  }
+
+  private scheduleApprovalExpiry(
+    workflow: Workflow,
+    step: WorkflowStep,
+    approval: Approval
+  ): void {
+    if (!approval.expiresAt) {
+      return
+    }
+    const expiresAt = approval.expiresAt.getTime()
+    const delayMs = Math.min(
+      Math.max(expiresAt - this.clock.now().getTime(), 0),
+      MAX_EXPIRY_TIMER_MS
+    )
+    this.setStepTimer(workflow, step, delayMs, async () => {
+      if (this.clock.now().getTime() < expiresAt) {
+        this.scheduleApprovalExpiry(workflow, step, approval)
+        return
+      }
+      await this.expireApproval(approval)
+    })
+  }
+
+  // Apply the fallback decision of an approval nobody decided on in time
+  private async expireApproval(approval: Approval): Promise<void> {
+    if (approval.status !== 'pending') {
+      return
+    }
+
+    approval.status = 'expired'
+    approval.decision = approval.onExpiry
+    approval.decidedAt = this.clock.now()
+    this.bus.publishEvent('approval:expired', {
+      workflowId: approval.workflowId,
+      stepId: approval.stepId,
+      approvalId: approval.id,
+      decision: approval.onExpiry,
+    })
+
+    await this.settleApproval(approval)
+  }
+
+  // Complete or fail the step of a decided approval
+  private async settleApproval(approval: Approval): Promise<void> {
+    await this.store.saveApproval(approval)
+
+    const workflow = this.activeWorkflows.get(approval.workflowId)
+    const step = workflow?.steps.find((s) => s.id === approval.stepId)
+    if (!workflow || !step || step.status !== WorkflowStepStatus.WAITING) {
+      return
+    }
+    await this.recordApproval(workflow, approval)
+
+    const approved = approval.decision === 'approve'
+    let error: string | undefined
+    if (approval.status === 'expired') {
+      error = approved ? undefined : 'Approval expired'
+    } else if (!approved) {
+      error = approval.comment
+        ? `Rejected by ${approval.decidedBy}: ${approval.comment}`
+        : `Rejected by ${approval.decidedBy}`
+    }
+    await this.completeStep(
+      workflow,
+      step,
+      {
+        taskId: approval.id,
+        success: approved,
+        data: {
+          approvalId: approval.id,
+          status: approval.status,
+          decision: approval.decision,
+          decidedBy: approval.decidedBy,
+          comment: approval.comment,
+        },
+        error,
+        completedAt: approval.decidedAt!,
+      },
+      false
+    )
+  }
+
+  // Record an approval in the timeline of its step in the current run
+  private async recordApproval(
+    workflow: Workflow,
+    approval: Approval,
+    update: (entry: RunStep) => void = () => {}
+  ): Promise<void> {
+    const step = workflow.steps.find((s) => s.id === approval.stepId)
+    if (!step) {
+      return
+    }
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.approval = toRunStepApproval(approval)
+      update(entry)
+    })
+  }
+
+  // Create a child workflow from a workflow step's template and start it.
+  // The child's id serves as the attempt's task id; the step completes when
+  // the child does.
+  private async startSubWorkflow(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    const config = step.subWorkflow!
+    const attempt: StepAttempt = {
+      attempt: step.attempts.length + 1,
+      taskId: uuidv4(),
+      startedAt: this.clock.now(),
+    }
+
+    let params: Record<string, unknown>
+    let child: WorkflowSnapshot
+    try {
+      if (this.getNestingDepth(workflow) >= MAX_SUB_WORKFLOW_DEPTH) {
+        throw new Error(
+          `Sub-workflows can't nest more than ${MAX_SUB_WORKFLOW_DEPTH} deep`
+        )
+      }
+      params = resolveTemplate(
+        config.params ?? {},
+        buildExpressionContext(workflow)
+      )
+      child = await this.createWorkflowFromTemplate(config.templateId, params, {
+        version: config.version,
+        id: attempt.taskId,
+        parent: { workflowId: workflow.id, stepId: step.id },
+      })
+    } catch (error) {
+      await this.completeStep(
+        workflow,
+        step,
+        {
+          taskId: attempt.taskId,
+          success: false,
+          data: {},
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: this.clock.now(),
+        },
+        false
+      )
+      return
+    }
+
+    step.attempts.push(attempt)
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.input = params
+      entry.queuedAt ??= attempt.startedAt
+      entry.startedAt ??= attempt.startedAt
+      entry.attempts.push({
+        attempt: attempt.attempt,
+        taskId: attempt.taskId,
+        queuedAt: attempt.startedAt,
+        startedAt: attempt.startedAt,
+      })
+    })
+    this.bus.publishEvent('workflow:step_started', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      agentType: step.agentType,
+      attempt: attempt.attempt,
+      taskId: attempt.taskId,
+    })
+    this.bus.publishEvent('workflow:sub_workflow_started', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      childWorkflowId: child.id,
+      templateId: child.template!.id,
+      templateVersion: child.template!.version,
+    })
+
+    if (step.retry?.timeoutMs) {
+      const timeoutMs = step.retry.timeoutMs
+      this.setStepTimer(workflow, step, timeoutMs, () =>
+        this.handleStepTimeout(workflow, step, attempt, timeoutMs)
+      )
+    }
+
+    await this.controlWorkflow(child.id, 'start')
+  }
+
+  // Child workflow the current attempt of a workflow step waits for
+  private getRunningChild(step: WorkflowStep): Workflow | undefined {
+    const attempt = step.attempts[step.attempts.length - 1]
+    if (step.type !== 'workflow' || !attempt || attempt.completedAt) {
+      return undefined
+    }
+    return this.activeWorkflows.get(attempt.taskId)
+  }
+
+  private async cancelSubWorkflow(child: Workflow): Promise<void> {
+    if (child.status === 'active' || child.status === 'paused') {
+      await this.cancelWorkflow(child)
+    }
+  }
+
+  // Number of ancestors of a sub-workflow
+  private getNestingDepth(workflow: Workflow): number {
+    let depth = 0
+    let parentId = workflow.parent?.workflowId
+    while (parentId) {
+      depth++
+      parentId = this.activeWorkflows.get(parentId)?.parent?.workflowId
+    }
+    return depth
+  }
+
+  // Complete the workflow step a finished sub-workflow ran for. Its result
+  // holds the sub-workflow's outputs, or all of its data when it declares
+  // none, so later steps can reference them like any other result.
+  private async completeParentStep(
+    child: Workflow,
+    cancelled = false
+  ): Promise<void> {
+    if (!child.parent) {
+      return
+    }
+    const parent = this.activeWorkflows.get(child.parent.workflowId)
+    const step = parent?.steps.find((s) => s.id === child.parent!.stepId)
+    if (!parent || !step || this.getRunningChild(step)?.id !== child.id) {
+      return
+    }
+    if (step.status !== WorkflowStepStatus.IN_PROGRESS) {
+      return
+    }
+
+    let result: AgentResult = {
+      taskId: child.id,
+      success: child.status === 'completed',
+      data: {},
+      completedAt: child.completedAt ?? this.clock.now(),
+    }
+    if (cancelled) {
+      result.error = `Sub-workflow ${child.id} was cancelled`
+    } else if (!result.success) {
+      const failed = child.steps.find(
+        (s) => s.status === WorkflowStepStatus.FAILED
+      )
+      result.error = failed?.result?.error
+        ? `Sub-workflow step ${failed.id} failed: ${failed.result.error}`
+        : `Sub-workflow ${child.id} failed`
+    } else {
+      try {
+        result.data = child.outputs
+          ? resolveTemplate(child.outputs, buildExpressionContext(child))
+          : structuredClone(child.data)
+      } catch (error) {
+        result = {
+          ...result,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+    }
+
+    const attempt = step.attempts[step.attempts.length - 1]
+    attempt.completedAt = result.completedAt
+    attempt.success = result.success
+    attempt.error = result.error
+
+    await this.completeStep(parent, step, result, !cancelled)
+  }
+
+  // Resolve the items of a map step and dispatch the first of them. A step
+  // picked up again after a restart keeps its items; those that were in
+  // flight lost their result and are dispatched again.
+  private async startMapStep(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    if (step.mapItems) {
+      step.mapItems
+        .filter((item) => item.status === 'in_progress')
+        .forEach((item) => {
+          item.status = 'pending'
+          item.taskId = undefined
+        })
+    } else {
+      let values: unknown
+      try {
+        values = resolveTemplate(
+          step.map!.items,
+          buildExpressionContext(workflow)
+        )
+        if (!Array.isArray(values)) {
+          throw new Error(`Map items ${step.map!.items} is not an array`)
+        }
+      } catch (error) {
+        await this.completeStep(
+          workflow,
+          step,
+          {
+            taskId: uuidv4(),
+            success: false,
+            data: {},
+            error: error instanceof Error ? error.message : 'Unknown error',
+            completedAt: this.clock.now(),
+          },
+          false
+        )
+        return
+      }
+
+      step.mapItems = createMapItems(values)
+      const queuedAt = this.clock.now()
+      await this.store.saveWorkflow(workflow)
+      await this.recordRunStep(workflow, step, (entry) => {
+        entry.input = { items: values }
+        entry.queuedAt ??= queuedAt
+        entry.map = { total: values.length, completed: 0, failed: 0 }
+      })
+      this.bus.publishEvent('workflow:map_started', {
+        workflowId: workflow.id,
+        stepId: step.id,
+        items: values.length,
+        concurrency: step.map!.concurrency ?? DEFAULT_MAP_CONCURRENCY,
+      })
+    }
+
+    // Nothing to iterate over, or every item finished before a restart
+    const outcome = getMapOutcome(step.map!, step.mapItems)
+    if (outcome.settled) {
+      await this.finishMapStep(workflow, step, outcome.success, outcome.error)
+      return
+    }
+    await this.dispatchMapItems(workflow, step)
+  }
+
+  // Dispatch pending items of a map step until its concurrency is used up.
+  // Paused workflows hold them back until they are resumed.
+  private async dispatchMapItems(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): Promise<void> {
+    const items = step.mapItems!
+    const concurrency = step.map!.concurrency ?? DEFAULT_MAP_CONCURRENCY
+
+    while (
+      workflow.status === 'active' &&
+      step.status === WorkflowStepStatus.IN_PROGRESS
+    ) {
+      const running = items.filter((item) => item.status === 'in_progress')
+      const next = items.find((item) => item.status === 'pending')
+      if (!next || running.length >= concurrency) {
+        return
+      }
+      await this.dispatchMapItem(workflow, step, next)
+    }
+  }
+
+  // Dispatch an attempt of a map item, with `{{item}}` and `{{index}}`
+  // resolved in the step config
+  private async dispatchMapItem(
+    workflow: Workflow,
+    step: WorkflowStep,
+    item: MapItem
+  ): Promise<void> {
+    const taskId = uuidv4()
+
+    let config: Record<string, unknown>
+    try {
+      config = resolveTemplate(
+        step.config,
+        buildExpressionContext(workflow, {
+          item: item.value,
+          index: item.index,
+        })
+      )
+    } catch (error) {
+      await this.completeMapItem(
+        workflow,
+        step,
+        item,
+        {
+          taskId,
+          success: false,
+          data: {},
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: this.clock.now(),
+        },
+        false
+      )
+      return
+    }
+
+    // Claimed before anything is awaited, so concurrent dispatches don't
+    // pick the same item
+    item.status = 'in_progress'
+    item.attempts++
+    item.taskId = taskId
+    item.startedAt = this.clock.now()
+    const queuedAt = item.startedAt
+
+    const task: AgentTask = {
+      id: taskId,
+      type: step.action,
+      priority: 1,
+      data: {
+        ...config,
+        workflowId: workflow.id,
+        stepId: step.id,
+        itemIndex: item.index,
+        workflowData: workflow.data,
+      },
+      createdAt: queuedAt,
+    }
+
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.attempts.push({
+        attempt: item.attempts,
+        taskId,
+        queuedAt,
+        item: item.index,
+      })
+    })
+    this.bus.publishEvent('workflow:step_started', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      agentType: step.agentType,
+      attempt: item.attempts,
+      taskId,
+      item: item.index,
+    })
+
+    if (step.retry?.timeoutMs) {
+      const timeoutMs = step.retry.timeoutMs
+      this.setStepTimer(
+        workflow,
+        step,
+        timeoutMs,
+        () =>
+          this.handleMapItemTimeout(workflow, step, item, taskId, timeoutMs),
+        item
+      )
+    }
+
+    this.bus.publishEvent(`task:${step.agentType}`, task)
+  }
+
+  // Fail a map item attempt that did not produce a result within the
+  // step's timeout
+  private async handleMapItemTimeout(
+    workflow: Workflow,
+    step: WorkflowStep,
+    item: MapItem,
+    taskId: string,
+    timeoutMs: number
+  ): Promise<void> {
+    if (item.taskId !== taskId || item.status !== 'in_progress') {
+      return
+    }
+
+    this.bus.publishEvent('workflow:step_timeout', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      attempt: item.attempts,
+      timeoutMs,
+      item: item.index,
+    })
+
+    await this.completeMapItem(workflow, step, item, {
+      taskId,
+      success: false,
+      data: {},
+      error: timeoutError(timeoutMs),
+      completedAt: this.clock.now(),
+    })
+  }
+
+  // Record the outcome of a map item attempt. A failed item is retried under
+  // the step's retry policy; otherwise the step finishes once its failure
+  // policy settles it, or dispatches the next pending item.
+  private async completeMapItem(
+    workflow: Workflow,
+    step: WorkflowStep,
+    item: MapItem,
+    result: AgentResult,
+    retryable = true
+  ): Promise<void> {
+    this.clearStepTimer(workflow, step, item)
+
+    const finishAttempt = (entry: RunStep) => {
+      const attempt = entry.attempts.find((a) => a.taskId === result.taskId)
+      if (attempt) {
+        attempt.finishedAt = result.completedAt
+        attempt.success = result.success
+        attempt.error = result.error
+      }
+    }
+
+    if (
+      !result.success &&
+      retryable &&
+      shouldRetry(step.retry, item.attempts, result.error)
+    ) {
+      // The item keeps its slot while it waits for the backoff delay
+      item.status = 'in_progress'
+      item.taskId = undefined
+      const delayMs = getRetryDelay(step.retry!, item.attempts)
+      this.bus.publishEvent('workflow:step_retry', {
+        workflowId: workflow.id,
+        stepId: step.id,
+        attempt: item.attempts,
+        nextAttempt: item.attempts + 1,
+        delayMs,
+        error: result.error,
+        item: item.index,
+      })
+      this.setStepTimer(
+        workflow,
+        step,
+        delayMs,
+        async () => {
+          if (
+            step.status !== WorkflowStepStatus.IN_PROGRESS ||
+            item.status !== 'in_progress'
+          ) {
+            return
+          }
+          if (workflow.status !== 'active') {
+            // Picked up again by resumeWorkflow
+            item.status = 'pending'
+            await this.store.saveWorkflow(workflow)
+            return
+          }
+          await this.dispatchMapItem(workflow, step, item)
+        },
+        item
+      )
+      await this.store.saveWorkflow(workflow)
+      await this.recordRunStep(workflow, step, finishAttempt)
+      return
+    }
+
+    item.status = result.success ? 'completed' : 'failed'
+    item.completedAt = result.completedAt
+    item.result = result
+
+    // Settled before anything is awaited, so the step finishes only once
+    const items = step.mapItems!
+    const outcome = getMapOutcome(step.map!, items)
+    if (outcome.settled) {
+      this.cancelMapItems(workflow, step)
+    }
+
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveResult({
+      ...result,
+      workflowId: workflow.id,
+      stepId: step.id,
+    })
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      finishAttempt(entry)
+      entry.map = {
+        total: items.length,
+        completed: items.filter((i) => i.status === 'completed').length,
+        failed: items.filter((i) => i.status === 'failed').length,
+      }
+    })
+    this.bus.publishEvent('workflow:map_item_completed', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      item: item.index,
+      success: result.success,
+      error: result.error,
+    })
+
+    if (outcome.settled) {
+      await this.finishMapStep(workflow, step, outcome.success, outcome.error)
+      return
+    }
+    await this.dispatchMapItems(workflow, step)
+  }
+
+  // Complete a map step with the results of its items
+  private async finishMapStep(
+    workflow: Workflow,
+    step: WorkflowStep,
+    success: boolean,
+    error?: string
+  ): Promise<void> {
+    await this.completeStep(
+      workflow,
+      step,
+      {
+        taskId: uuidv4(),
+        success,
+        data: collectMapResults(step.mapItems!),
+        error,
+        completedAt: this.clock.now(),
+      },
+      false
+    )
+  }
+
+  // Cancel the items of a map step that haven't finished. Their results are
+  // ignored if they still arrive.
+  private cancelMapItems(workflow: Workflow, step: WorkflowStep): void {
+    step.mapItems?.filter(isMapItemOpen).forEach((item) => {
+      this.clearStepTimer(workflow, step, item)
+      item.status = 'cancelled'
+    })
+  }
+
+  // Fail an attempt that did not produce a result within its timeout
+  private async handleStepTimeout(
+    workflow: Workflow,
+    step: WorkflowStep,
+    attempt: StepAttempt,
+    timeoutMs: number
+  ): Promise<void> {
+    if (
+      step.status !== WorkflowStepStatus.IN_PROGRESS ||
+      attempt.completedAt
+    ) {
+      return
+    }
+
+    const error = timeoutError(timeoutMs)
+    attempt.completedAt = this.clock.now()
+    attempt.success = false
+    attempt.timedOut = true
+    attempt.error = error
+
+    // A sub-workflow that runs too long is cancelled
+    const child = this.activeWorkflows.get(attempt.taskId)
+    if (step.type === 'workflow' && child) {
+      await this.cancelSubWorkflow(child)
+    }
+
+    this.bus.publishEvent('workflow:step_timeout', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      attempt: attempt.attempt,
+      timeoutMs,
+    })
+
+    await this.completeStep(workflow, step, {
+      taskId: attempt.taskId,
+      success: false,
+      data: {},
+      error,
+      completedAt: attempt.completedAt,
+    })
+  }
+
+  // Schedule another attempt of a failed step if its retry policy allows it.
+  // The step stays in progress while it waits for the backoff delay.
+  private scheduleRetry(
+    workflow: Workflow,
+    step: WorkflowStep,
+    error?: string
+  ): boolean {
+    const attemptsMade = step.attempts.length
+    if (!step.retry || !shouldRetry(step.retry, attemptsMade, error)) {
+      return false
+    }
+
+    const delayMs = getRetryDelay(step.retry, attemptsMade)
+    this.bus.publishEvent('workflow:step_retry', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      attempt: attemptsMade,
+      nextAttempt: attemptsMade + 1,
+      delayMs,
+      error,
+    })
+
+    this.setStepTimer(workflow, step, delayMs, async () => {
+      if (step.status !== WorkflowStepStatus.IN_PROGRESS) {
+        return
+      }
+      if (workflow.status !== 'active') {
+        // Picked up again by resumeWorkflow
+        step.status = WorkflowStepStatus.PENDING
+        await this.store.saveWorkflow(workflow)
+        return
+      }
+      await this.dispatchStepAttempt(workflow, step)
+    })
+    return true
+  }
+
+  // Merge a completed step's declared outputs into the workflow data. All
+  // outputs are resolved and their paths checked before any is written.
+  private applyStepOutputs(workflow: Workflow, step: WorkflowStep): void {
+    const context = buildExpressionContext(workflow, { result: step.result })
+    const values = Object.entries(step.outputs || {}).map(
+      ([path, expression]) => {
+        const reason = checkWritablePath(path)
+        if (reason) {
+          throw new Error(`Step '${step.id}' outputs: ${reason}`)
+        }
+        return [path, resolveTemplate(expression, context)] as const
+      }
+    )
+
+    for (const [path, value] of values) {
+      setPath(workflow.data, path, value)
+    }
+  }
+
+  // Timers of a map step's items are kept apart from the step's own
+  private setStepTimer(
+    workflow: Workflow,
+    step: WorkflowStep,
+    delayMs: number,
+    callback: () => Promise<void>,
+    item?: MapItem
+  ): void {
+    this.clearStepTimer(workflow, step, item)
+    const key = getTimerKey(workflow, step, item)
+    this.stepTimers.set(
+      key,
+      this.clock.setTimeout(() => {
+        this.stepTimers.delete(key)
+        callback().catch((error) =>
+          this.failStepAfterError(workflow, step, error)
+        )
+      }, delayMs)
+    )
+  }
+
+  // A step whose timer failed, e.g. because the store couldn't save its
+  // retry, would otherwise stay in progress for good. It fails without
+  // another retry, and if that can't be saved either, fails in memory.
+  private failStepAfterError(
+    workflow: Workflow,
+    step: WorkflowStep,
+    error: unknown
+  ): void {
+    const message = error instanceof Error ? error.message : String(error)
+    this.bus.publishEvent('workflow:error', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      error: message,
+    })
+    if (step.status !== WorkflowStepStatus.IN_PROGRESS) {
+      return
+    }
+
+    const completedAt = this.clock.now()
+    const attempt = step.attempts[step.attempts.length - 1]
+    if (attempt && !attempt.completedAt) {
+      attempt.completedAt = completedAt
+      attempt.success = false
+      attempt.error = message
+    }
+    const result = {
+      taskId: attempt?.taskId ?? uuidv4(),
+      success: false,
+      data: {},
+      error: message,
+      completedAt,
+    }
+    this.report(
+      this.completeStep(workflow, step, result, false).catch((failure) => {
+        step.status = WorkflowStepStatus.FAILED
+        step.result = result
+        throw failure
+      }),
+      workflow.id,
+      step.id
+    )
+  }
+
+  // Without an item, the timers of all of a map step's items are cleared
+  // along with the step's own
+  private clearStepTimer(
+    workflow: Workflow,
+    step: WorkflowStep,
+    item?: MapItem
+  ): void {
+    const keys = item
+      ? [getTimerKey(workflow, step, item)]
+      : [
+          getTimerKey(workflow, step),
+          ...(step.mapItems ?? []).map((i) => getTimerKey(workflow, step, i)),
+        ]
+    for (const key of keys) {
+      const timer = this.stepTimers.get(key)
+      if (timer) {
+        this.clock.clearTimeout(timer)
+        this.stepTimers.delete(key)
+      }
+    }
+  }
+
+  // Dispatch every pending step whose dependencies are resolved, skipping
+  // those whose dependencies or conditions rule them out, until nothing
+  // changes
+  private async advanceWorkflow(workflow: Workflow): Promise<void> {
+    let progressed = true
+
+    while (progressed && workflow.status === 'active') {
+      progressed = false
+
+      for (const step of workflow.steps) {
+        if (step.status !== WorkflowStepStatus.PENDING) {
+          continue
+        }
+
+        const dependencyState = this.getDependencyState(workflow, step)
+        if (dependencyState === 'waiting') {
+          continue
+        }
+
+        progressed = true
+        if (dependencyState === 'skip') {
+          await this.skipStep(workflow, step, 'dependency')
+          continue
+        }
+
+        let conditionMet: boolean
+        try {
+          conditionMet =
+            !step.when ||
+            evaluateCondition(step.when, buildExpressionContext(workflow))
+        } catch (error) {
+          step.status = WorkflowStepStatus.IN_PROGRESS
+          await this.completeStep(
+            workflow,
+            step,
+            {
+              taskId: uuidv4(),
+              success: false,
+              data: {},
+              error: error instanceof Error ? error.message : 'Unknown error',
+              completedAt: this.clock.now(),
+            },
+            false
+          )
+          continue
+        }
+
+        if (conditionMet) {
+          await this.executeWorkflowStep(workflow, step)
+        } else {
+          await this.skipStep(workflow, step, 'condition')
+        }
+      }
+    }
+
+    await this.checkWorkflowCompletion(workflow)
+  }
+
+  private async skipStep(
+    workflow: Workflow,
+    step: WorkflowStep,
+    reason: 'condition' | 'dependency'
+  ): Promise<void> {
+    step.status = WorkflowStepStatus.SKIPPED
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.finishedAt = this.clock.now()
+    })
+
+    this.bus.publishEvent('workflow:step_skipped', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      reason,
+    })
+  }
+
+  // Resolve whether a step can run now, must wait, or can never run. A step
+  // named as another step's onFailure handler implicitly depends on that
+  // step failing.
+  private getDependencyState(
+    workflow: Workflow,
+    step: WorkflowStep
+  ): 'ready' | 'waiting' | 'skip' {
+    const source = workflow.steps.find((s) => s.onFailure === step.id)
+    if (source) {
+      if (
+        source.status === WorkflowStepStatus.PENDING ||
+        source.status === WorkflowStepStatus.IN_PROGRESS ||
+        source.status === WorkflowStepStatus.WAITING
+      ) {
+        return 'waiting'
+      }
+      if (source.status !== WorkflowStepStatus.FAILED) {
+        return 'skip'
+      }
+    }
+
+    let skipped = false
+    for (const dependencyId of step.dependsOn) {
+      const dependencyStep = workflow.steps.find((s) => s.id === dependencyId)
+      if (!dependencyStep) {
+        return 'waiting'
+      }
+
+      switch (dependencyStep.status) {
+        case WorkflowStepStatus.COMPLETED:
+          break
+        case WorkflowStepStatus.SKIPPED:
+          skipped = true
+          break
+        case WorkflowStepStatus.FAILED:
+          // A failure handled by its onFailure step counts as skipped
+          if (!this.isFailureRecovered(workflow, dependencyStep)) {
+            return this.isFailureSettled(workflow, dependencyStep)
+              ? 'skip'
+              : 'waiting'
+          }
+          skipped = true
+          break
+        default:
+          return 'waiting'
+      }
+    }
+
+    if (skipped && step.onSkippedDependency !== 'run') {
+      return 'skip'
+    }
+    return 'ready'
+  }
+
+  // A failed step is recovered once its onFailure handler completes
+  private isFailureRecovered(workflow: Workflow, step: WorkflowStep): boolean {
+    const handler = workflow.steps.find((s) => s.id === step.onFailure)
+    if (!handler) {
+      return false
+    }
+    return (
+      handler.status === WorkflowStepStatus.COMPLETED ||
+      (handler.status === WorkflowStepStatus.FAILED &&
+        this.isFailureRecovered(workflow, handler))
+    )
+  }
+
+  // Whether the outcome of a failed step's handler chain is known
+  private isFailureSettled(workflow: Workflow, step: WorkflowStep): boolean {
+    const handler = workflow.steps.find((s) => s.id === step.onFailure)
+    if (!handler) {
+      return true
+    }
+    switch (handler.status) {
+      case WorkflowStepStatus.COMPLETED:
+      case WorkflowStepStatus.SKIPPED:
+        return true
+      case WorkflowStepStatus.FAILED:
+        return this.isFailureSettled(workflow, handler)
+      default:
+        return false
+    }
+  }
+
+  // Complete the workflow once every step has finished
+  private async checkWorkflowCompletion(workflow: Workflow): Promise<void> {
+    if (workflow.status !== 'active') {
+      return
+    }
+
+    const allStepsCompleted = workflow.steps.every(
+      (s) =>
+        s.status === WorkflowStepStatus.COMPLETED ||
+        s.status === WorkflowStepStatus.FAILED ||
+        s.status === WorkflowStepStatus.SKIPPED
+    )
+
+    if (allStepsCompleted) {
+      // Failures routed to a successful onFailure step don't fail the workflow
+      const anyStepFailed = workflow.steps.some(
+        (s) =>
+          s.status === WorkflowStepStatus.FAILED &&
+          !this.isFailureRecovered(workflow, s)
+      )
+      if (anyStepFailed && getCompensationOrder(workflow).length > 0) {
+        await this.startCompensation(workflow, 'failed')
+        return
+      }
+      workflow.status = anyStepFailed ? 'failed' : 'completed'
+      workflow.completedAt = this.clock.now()
+      workflow.updatedAt = this.clock.now()
+      await this.store.saveWorkflow(workflow)
+      await this.finishRun(workflow, workflow.status)
+
+      this.bus.publishEvent('workflow:completed', {
+        workflowId: workflow.id,
+        success: !anyStepFailed,
+      })
+      await this.completeParentStep(workflow)
+    }
+  }
+
+  // Handle task results and update workflow steps
+  private async handleTaskResult(result: AgentTaskResult): Promise<void> {
+    if (!result.workflowId || !result.stepId) {
+      return // Not a workflow task result
+    }
+
+    const workflow = this.activeWorkflows.get(result.workflowId)
+    if (!workflow) {
+      return // Workflow not found
+    }
+
+    const step = workflow.steps.find((s) => s.id === result.stepId)
+    if (!step) {
+      return // Step not found
+    }
+
+    const compensation = step.compensationOutcome
+    if (compensation?.taskId === result.taskId) {
+      if (compensation.status === 'in_progress') {
+        await this.completeCompensation(workflow, step, result)
+      }
+      return
+    }
+
+    const item = step.mapItems?.find((i) => i.taskId === result.taskId)
+    if (item) {
+      if (
+        step.status === WorkflowStepStatus.IN_PROGRESS &&
+        item.status === 'in_progress'
+      ) {
+        await this.completeMapItem(workflow, step, item, result)
+      }
+      return
+    }
+
+    // Ignore results of attempts that already timed out or were superseded
+    const attempt = step.attempts[step.attempts.length - 1]
+    if (
+      step.status !== WorkflowStepStatus.IN_PROGRESS ||
+      !attempt ||
+      attempt.taskId !== result.taskId ||
+      attempt.completedAt
+    ) {
+      return
+    }
+
+    attempt.completedAt = result.completedAt
+    attempt.success = result.success
+    attempt.error = result.error
+
+    await this.completeStep(workflow, step, result)
+  }
+
+  // Undo the completed steps of a failed or cancelled workflow, one at a
+  // time in reverse dependency order
+  private async startCompensation(
+    workflow: Workflow,
+    reason: CompensationReason
+  ): Promise<void> {
+    workflow.status = 'compensating'
+    workflow.completedAt = undefined
+    workflow.updatedAt = this.clock.now()
+    workflow.compensation = { reason, startedAt: workflow.updatedAt }
+    await this.store.saveWorkflow(workflow)
+    this.bus.publishEvent('workflow:compensating', {
+      workflowId: workflow.id,
+      reason,
+      stepIds: getCompensationOrder(workflow).map((step) => step.id),
+    })
+
+    await this.compensateNextStep(workflow)
+  }
+
+  // Dispatch the compensation of the next step to undo, or finish the
+  // workflow once none is left. A compensation whose config can't be
+  // resolved fails without being dispatched.
+  private async compensateNextStep(workflow: Workflow): Promise<void> {
+    const [step] = getCompensationOrder(workflow)
+    if (!step) {
+      await this.finishCompensation(workflow)
+      return
+    }
+
+    const compensation = step.compensation!
+    const outcome: CompensationOutcome = {
+      status: 'in_progress',
+      taskId: uuidv4(),
+      action: compensation.action,
+      startedAt: this.clock.now(),
+    }
+    step.compensationOutcome = outcome
+    try {
+      outcome.input = resolveTemplate(
+        compensation.config ?? {},
+        buildExpressionContext(workflow, { result: step.result })
+      )
+    } catch (error) {
+      await this.completeCompensation(workflow, step, {
+        taskId: outcome.taskId,
+        success: false,
+        data: {},
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: this.clock.now(),
+      })
+      return
+    }
+
+    workflow.updatedAt = outcome.startedAt
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.compensation = structuredClone(outcome)
+    })
+    this.bus.publishEvent('workflow:step_compensating', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      agentType: step.agentType,
+      action: outcome.action,
+      taskId: outcome.taskId,
+    })
+
+    const task: AgentTask = {
+      id: outcome.taskId,
+      type: outcome.action,
+      priority: 1,
+      data: {
+        ...outcome.input,
+        workflowId: workflow.id,
+        stepId: step.id,
+        workflowData: workflow.data,
+      },
+      createdAt: outcome.startedAt,
+    }
+    this.bus.publishEvent(`task:${step.agentType}`, task)
+  }
+
+  // Record the result of a step's compensation and move on to the next one.
+  // A failed compensation doesn't stop the others.
+  private async completeCompensation(
+    workflow: Workflow,
+    step: WorkflowStep,
+    result: AgentResult
+  ): Promise<void> {
+    const outcome = step.compensationOutcome!
+    outcome.status = result.success ? 'completed' : 'failed'
+    outcome.completedAt = result.completedAt
+    outcome.result = result
+
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveResult({
+      ...result,
+      workflowId: workflow.id,
+      stepId: step.id,
+    })
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      entry.compensation = structuredClone(outcome)
+    })
+    this.bus.publishEvent('workflow:step_compensated', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      success: result.success,
+      error: result.error,
+    })
+
+    await this.compensateNextStep(workflow)
+  }
+
+  // A workflow whose compensations all succeeded ends compensated; one left
+  // partly undone ends failed
+  private async finishCompensation(workflow: Workflow): Promise<void> {
+    const compensation = workflow.compensation!
+    const failedStepIds = workflow.steps
+      .filter((step) => step.compensationOutcome?.status === 'failed')
+      .map((step) => step.id)
+
+    workflow.status = failedStepIds.length > 0 ? 'failed' : 'compensated'
+    workflow.completedAt = this.clock.now()
+    workflow.updatedAt = workflow.completedAt
+    compensation.completedAt = workflow.completedAt
+    compensation.failedStepIds = failedStepIds
+    await this.store.saveWorkflow(workflow)
+    await this.finishRun(
+      workflow,
+      compensation.reason === 'cancelled' ? 'cancelled' : 'failed'
+    )
+
+    this.bus.publishEvent('workflow:compensated', {
+      workflowId: workflow.id,
+      reason: compensation.reason,
+      success: failedStepIds.length === 0,
+      failedStepIds,
+    })
+    if (compensation.reason === 'failed') {
+      this.bus.publishEvent('workflow:completed', {
+        workflowId: workflow.id,
+        success: false,
+      })
+    }
+    await this.completeParentStep(workflow, compensation.reason === 'cancelled')
+  }
+
+  // Record the outcome of a step attempt, retrying it or advancing the
+  // workflow
+  private async completeStep(
+    workflow: Workflow,
+    step: WorkflowStep,
+    result: AgentResult,
+    retryable = true
+  ): Promise<void> {
+    this.clearStepTimer(workflow, step)
+
+    step.result = result
+    if (result.success && step.outputs) {
+      try {
+        this.applyStepOutputs(workflow, step)
+      } catch (error) {
+        result = {
+          ...result,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }
+        step.result = result
+        retryable = false
+      }
+    }
+
+    workflow.updatedAt = this.clock.now()
+    await this.store.saveResult({
+      ...result,
+      workflowId: workflow.id,
+      stepId: step.id,
+    })
+
+    const finishAttempt = (entry: RunStep) => {
+      const attempt = entry.attempts.find((a) => a.taskId === result.taskId)
+      if (attempt) {
+        attempt.finishedAt = result.completedAt
+        attempt.success = result.success
+        attempt.error = result.error
+      }
+    }
+
+    if (
+      !result.success &&
+      retryable &&
+      this.scheduleRetry(workflow, step, result.error)
+    ) {
+      await this.store.saveWorkflow(workflow)
+      await this.recordRunStep(workflow, step, finishAttempt)
+      return
+    }
+
+    // Update step status
+    step.status = result.success
+      ? WorkflowStepStatus.COMPLETED
+      : WorkflowStepStatus.FAILED
+    await this.store.saveWorkflow(workflow)
+    await this.recordRunStep(workflow, step, (entry) => {
+      finishAttempt(entry)
+      entry.finishedAt = result.completedAt
+      entry.result = result
+    })
+    this.bus.publishEvent('workflow:step_completed', {
+      workflowId: workflow.id,
+      stepId: step.id,
+      agentType: step.agentType,
+      success: result.success,
+      error: result.error,
+    })
+
+    if (!result.success && step.onFailure) {
+      this.bus.publishEvent('workflow:step_failure_routed', {
+        workflowId: workflow.id,
+        stepId: step.id,
+        handlerStepId: step.onFailure,
+        error: result.error,
+      })
+    }
+
+    // Dispatch or skip dependent steps and check if workflow is completed
+    await this.advanceWorkflow(workflow)
+  }
+}
+
+// Workflow step as defined, not yet run
+function createStep(step: Partial<WorkflowStep>): WorkflowStep {
+  return {
+    id: step.id || uuidv4(),
+    name: step.name!,
+    type: step.type,
+    agentType:
+      step.type === 'approval' || step.type === 'workflow'
+        ? AgentType.WORKFLOW
+        : step.agentType!,
+    action:
+      step.type === 'approval'
+        ? APPROVAL_ACTION
+        : step.type === 'workflow'
+        ? SUB_WORKFLOW_ACTION
+        : step.action!,
+    status: WorkflowStepStatus.PENDING,
+    config: step.config || {},
+    dependsOn: step.dependsOn || [],
+    when: step.when,
+    onSkippedDependency: step.onSkippedDependency,
+    onFailure: step.onFailure,
+    outputs: step.outputs,
+    retry: step.retry,
+    approval: step.approval,
+    subWorkflow: step.subWorkflow,
+    map: step.map,
+    compensation: step.compensation,
+    attempts: [],
+  }
+}
+
+function getTimerKey(
+  workflow: Workflow,
+  step: WorkflowStep,
+  item?: MapItem
+): string {
+  const key = `${workflow.id}:${step.id}`
+  return item ? `${key}:${item.index}` : key
+}
+
+// Definition a workflow was created from, with its current data
+export function getWorkflowDefinition(
+  workflow: Workflow
+): WorkflowDefinitionInput {
+  return structuredClone({
+    name: workflow.name,
+    description: workflow.description,
+    steps: workflow.steps.map((step) => ({
+      id: step.id,
+      name: step.name,
+      type: step.type,
+      agentType: step.agentType,
+      action: step.action,
+      config: step.config,
+      dependsOn: step.dependsOn,
+      when: step.when,
+      onSkippedDependency: step.onSkippedDependency,
+      onFailure: step.onFailure,
+      outputs: step.outputs,
+      retry: step.retry,
+      approval: step.approval,
+      subWorkflow: step.subWorkflow,
+      map: step.map,
+      compensation: step.compensation,
+    })),
+    data: workflow.data,
+    outputs: workflow.outputs,
+  })
+}
+
+// Create and export a workflow orchestrator factory function
+export function createWorkflowOrchestrator(
+  config: Record<string, any> = {}
+): WorkflowOrchestratorAgent {
+  const id = config.id || uuidv4()
+  const name = config.name || 'Workflow Orchestrator'
+  const description =
+    config.description ||
+    'Coordinates tasks between specialized agents and manages business processes'
+  const store = config.store || createWorkflowStore()
+
+  return new WorkflowOrchestratorAgent(
+    id,
+    name,
+    description,
+    store,
+    config.templates || new WorkflowTemplateRegistry(store),
+    { clock: config.clock, bus: config.bus, agents: config.agents }
+  )
+}
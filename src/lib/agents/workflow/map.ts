@@ -0,0 +1,151 @@
+/**
+ * Workflow Map Steps
+ *
+ * This module defines map steps, which run their action once per item of a
+ * collection, such as the leads returned by an upstream scraping step. Every
+ * item is dispatched as a task of its own, at most `concurrency` at a time,
+ * with `{{item}}` and `{{index}}` available to the step config, and the step
+ * result collects the item results in order. The failure policy decides
+ * whether a failed item fails the step at once, is tolerated, or fails it
+ * only once too few items can still succeed.
+ */
+
+import { z } from 'zod'
+import type { AgentResult } from '../index'
+
+// Items dispatched at once when a map step doesn't set its concurrency
+export const DEFAULT_MAP_CONCURRENCY = 5
+
+export type MapFailurePolicy = 'fail_fast' | 'continue' | 'min_success_ratio'
+
+// Settings of a map step
+export const mapStepConfigSchema = z
+  .object({
+    // Reference to the array to iterate over, e.g.
+    // `{{steps.scrape.result.data.leads}}`
+    items: z.string().regex(/^\{\{[^}]+\}\}$/, 'must be a single reference'),
+    concurrency: z.number().int().positive().optional(),
+    onItemFailure: z
+      .enum(['fail_fast', 'continue', 'min_success_ratio'])
+      .optional(),
+    // Share of the items that must succeed under 'min_success_ratio'
+    minSuccessRatio: z.number().min(0).max(1).optional(),
+  })
+  .superRefine((config, context) => {
+    if (
+      config.onItemFailure === 'min_success_ratio' &&
+      config.minSuccessRatio === undefined
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Required when onItemFailure is 'min_success_ratio'",
+        path: ['minSuccessRatio'],
+      })
+    }
+  })
+
+export type MapStepConfig = z.infer<typeof mapStepConfigSchema>
+
+export type MapItemStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  // Still open when the step failed
+  | 'cancelled'
+
+// One item of a map step and its task
+export interface MapItem {
+  index: number
+  value: unknown
+  status: MapItemStatus
+  attempts: number
+  // Task of the current attempt; unset while a retry waits for its delay
+  taskId?: string
+  startedAt?: Date
+  completedAt?: Date
+  result?: AgentResult
+}
+
+export function createMapItems(values: unknown[]): MapItem[] {
+  return values.map((value, index) => ({
+    index,
+    value,
+    status: 'pending',
+    attempts: 0,
+  }))
+}
+
+export function isMapItemOpen(item: MapItem): boolean {
+  return item.status === 'pending' || item.status === 'in_progress'
+}
+
+// Whether a map step is still running, or succeeded or failed under its
+// failure policy
+export function getMapOutcome(
+  config: MapStepConfig,
+  items: MapItem[]
+): { settled: false } | { settled: true; success: boolean; error?: string } {
+  const failed = items.filter((item) => item.status === 'failed')
+
+  switch (config.onItemFailure ?? 'fail_fast') {
+    case 'fail_fast':
+      if (failed.length > 0) {
+        return {
+          settled: true,
+          success: false,
+          error: `Item ${failed[0].index} failed: ${
+            failed[0].result?.error ?? 'Unknown error'
+          }`,
+        }
+      }
+      break
+    case 'min_success_ratio': {
+      // Fails as soon as the ratio is out of reach
+      const ratio = config.minSuccessRatio ?? 1
+      const reachable = items.length - failed.length
+      if (items.length > 0 && reachable / items.length < ratio) {
+        return {
+          settled: true,
+          success: false,
+          error: `${failed.length} of ${items.length} items failed; at least ${
+            Math.round(ratio * 100)
+          }% had to succeed`,
+        }
+      }
+      break
+    }
+  }
+
+  if (items.some(isMapItemOpen)) {
+    return { settled: false }
+  }
+  return { settled: true, success: true }
+}
+
+// Data of a map step's result: the item results in order, null for items
+// that didn't succeed, with a summary of the failures
+export function collectMapResults(items: MapItem[]): Record<string, unknown> {
+  return {
+    results: items.map((item) =>
+      item.status === 'completed' ? item.result?.data ?? null : null
+    ),
+    total: items.length,
+    succeeded: items.filter((item) => item.status === 'completed').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    errors: items
+      .filter((item) => item.status === 'failed')
+      .map((item) => ({ index: item.index, error: item.result?.error })),
+  }
+}
+
+export function reviveMapItem(raw: MapItem): MapItem {
+  return {
+    ...raw,
+    startedAt: raw.startedAt ? new Date(raw.startedAt) : undefined,
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    result: raw.result
+      ? { ...raw.result, completedAt: new Date(raw.result.completedAt) }
+      : undefined,
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * Postgres Workflow Store
+ *
+ * This module implements the workflow store on top of the Prisma client, using
+ * the Workflow, WorkflowStep, WorkflowVersion, WorkflowRun, AgentResult,
+ * WorkflowApproval, WorkflowTemplate, WorkflowTrigger and WorkflowTriggerEvent
+ * models in prisma/schema.prisma.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import type { AgentResult, AgentType } from '../index'
+import type { Workflow, WorkflowStep, WorkflowStepStatus } from './index'
+import type { StepAttempt } from './retry'
+import {
+  RunMigration,
+  WorkflowRun,
+  WorkflowRunStatus,
+  reviveRun,
+} from './runs'
+import type { Approval, ApprovalDecision, ApprovalStatus } from './approvals'
+import {
+  TemplateParameter,
+  WorkflowTemplate,
+  reviveTemplate,
+} from './templates'
+import { reviveWorkflow } from './store'
+import type { WorkflowTrigger } from './triggers'
+import { WorkflowVersion, reviveWorkflowVersion } from './versions'
+import type { WorkflowDefinitionInput } from './validation'
+import type { StepCondition } from './conditions'
+import type { StoredAgentResult, WorkflowStore } from './store'
+
+// Row shapes returned by the Prisma client. Step settings without a column of
+// their own (retry policy, conditions, outputs, ...) are kept in `options`.
+interface WorkflowStepRow {
+  id: string
+  name: string
+  agentType: string
+  action: string
+  status: string
+  config: unknown
+  dependsOn: string[]
+  options: unknown
+  attempts: unknown
+  result: unknown
+}
+
+interface WorkflowRow {
+  id: string
+  name: string
+  description: string
+  status: string
+  data: unknown
+  version: number
+  compensation: unknown
+  outputs: unknown
+  templateId: string | null
+  templateVersion: number | null
+  parentWorkflowId: string | null
+  parentStepId: string | null
+  createdAt: Date
+  updatedAt: Date
+  completedAt: Date | null
+  steps: WorkflowStepRow[]
+}
+
+interface WorkflowRunRow {
+  id: string
+  workflowId: string
+  status: string
+  replayOf: string | null
+  fromStep: string | null
+  version: number | null
+  migrations: unknown
+  startedAt: Date
+  completedAt: Date | null
+  steps: unknown
+}
+
+interface WorkflowVersionRow {
+  workflowId: string
+  version: number
+  definition: unknown
+  renamedSteps: unknown
+  createdAt: Date
+}
+
+interface WorkflowApprovalRow {
+  id: string
+  workflowId: string
+  workflowName: string
+  stepId: string
+  runId: string | null
+  title: string
+  message: string | null
+  assignees: string[]
+  status: string
+  onExpiry: string
+  requestedAt: Date
+  expiresAt: Date | null
+  decision: string | null
+  decidedBy: string | null
+  comment: string | null
+  decidedAt: Date | null
+}
+
+interface WorkflowTemplateRow {
+  id: string
+  version: number
+  name: string
+  description: string
+  parameters: unknown
+  definition: unknown
+  createdAt: Date
+}
+
+interface WorkflowTriggerRow {
+  id: string
+  name: string
+  event: string
+  when: unknown
+  data: unknown
+  dedupeKey: string | null
+  enabled: boolean
+  definition: unknown
+  lastFiredAt: Date | null
+  lastWorkflowId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface AgentResultRow {
+  taskId: string
+  workflowId: string
+  stepId: string
+  success: boolean
+  data: unknown
+  error: string | null
+  completedAt: Date
+}
+
+export class PrismaWorkflowStore implements WorkflowStore {
+  private prisma: PrismaClient
+
+  constructor(prisma: PrismaClient = new PrismaClient()) {
+    this.prisma = prisma
+  }
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    const rows: WorkflowRow[] = await this.prisma.workflow.findMany({
+      include: { steps: { orderBy: { position: 'asc' } } },
+    })
+    return rows.map(toWorkflow)
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    const fields = {
+      name: workflow.name,
+      description: workflow.description,
+      status: workflow.status,
+      data: workflow.data,
+      version: workflow.version,
+      // Json column; dates are serialized as ISO strings
+      compensation:
+        (workflow.compensation as unknown as Prisma.InputJsonObject) ??
+        Prisma.DbNull,
+      outputs: workflow.outputs ?? Prisma.DbNull,
+      templateId: workflow.template?.id ?? null,
+      templateVersion: workflow.template?.version ?? null,
+      parentWorkflowId: workflow.parent?.workflowId ?? null,
+      parentStepId: workflow.parent?.stepId ?? null,
+      updatedAt: workflow.updatedAt,
+      completedAt: workflow.completedAt ?? null,
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.workflow.upsert({
+        where: { id: workflow.id },
+        create: { id: workflow.id, createdAt: workflow.createdAt, ...fields },
+        update: fields,
+      }),
+      this.prisma.workflowStep.deleteMany({
+        where: {
+          workflowId: workflow.id,
+          id: { notIn: workflow.steps.map((step) => step.id) },
+        },
+      }),
+      ...workflow.steps.map((step, position) => {
+        const {
+          id,
+          name,
+          agentType,
+          action,
+          status,
+          config,
+          dependsOn,
+          attempts,
+          result,
+          ...options
+        } = step
+        const stepFields = {
+          name,
+          agentType,
+          action,
+          status,
+          config,
+          dependsOn,
+          // Json columns; dates are serialized as ISO strings
+          options: options as Prisma.InputJsonObject,
+          attempts: attempts as unknown as Prisma.InputJsonArray,
+          result: (result as unknown as Prisma.InputJsonObject) ?? undefined,
+          position,
+        }
+        return this.prisma.workflowStep.upsert({
+          where: { workflowId_id: { workflowId: workflow.id, id: step.id } },
+          create: { id, workflowId: workflow.id, ...stepFields },
+          update: stepFields,
+        })
+      }),
+    ])
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    await this.prisma.workflow.delete({ where: { id: workflowId } })
+  }
+
+  async loadVersions(): Promise<WorkflowVersion[]> {
+    const rows: WorkflowVersionRow[] =
+      await this.prisma.workflowVersion.findMany({
+        orderBy: [{ workflowId: 'asc' }, { version: 'asc' }],
+      })
+    return rows.map((row) =>
+      reviveWorkflowVersion({
+        workflowId: row.workflowId,
+        version: row.version,
+        definition: row.definition as WorkflowDefinitionInput,
+        renamedSteps:
+          (row.renamedSteps as Record<string, string> | null) ?? undefined,
+        createdAt: row.createdAt,
+      })
+    )
+  }
+
+  // Versions are never changed once saved
+  async saveVersion(version: WorkflowVersion): Promise<void> {
+    await this.prisma.workflowVersion.create({
+      data: {
+        workflowId: version.workflowId,
+        version: version.version,
+        definition: version.definition as unknown as Prisma.InputJsonObject,
+        renamedSteps: version.renamedSteps ?? Prisma.DbNull,
+        createdAt: version.createdAt,
+      },
+    })
+  }
+
+  async saveResult(result: StoredAgentResult): Promise<void> {
+    await this.prisma.agentResult.create({
+      data: {
+        taskId: result.taskId,
+        workflowId: result.workflowId,
+        stepId: result.stepId,
+        success: result.success,
+        data: result.data,
+        error: result.error ?? null,
+        completedAt: result.completedAt,
+      },
+    })
+  }
+
+  async listResults(workflowId: string): Promise<StoredAgentResult[]> {
+    const rows: AgentResultRow[] = await this.prisma.agentResult.findMany({
+      where: { workflowId },
+      orderBy: { completedAt: 'asc' },
+    })
+    return rows.map((row) => ({
+      taskId: row.taskId,
+      workflowId: row.workflowId,
+      stepId: row.stepId,
+      success: row.success,
+      data: row.data as StoredAgentResult['data'],
+      error: row.error ?? undefined,
+      completedAt: row.completedAt,
+    }))
+  }
+
+  async saveRun(run: WorkflowRun): Promise<void> {
+    const fields = {
+      status: run.status,
+      replayOf: run.replayOf ?? null,
+      fromStep: run.fromStep ?? null,
+      version: run.version ?? null,
+      completedAt: run.completedAt ?? null,
+      // Json columns; dates are serialized as ISO strings
+      migrations:
+        (run.migrations as unknown as Prisma.InputJsonArray) ?? Prisma.DbNull,
+      steps: run.steps as unknown as Prisma.InputJsonArray,
+    }
+    await this.prisma.workflowRun.upsert({
+      where: { id: run.id },
+      create: {
+        id: run.id,
+        workflowId: run.workflowId,
+        startedAt: run.startedAt,
+        ...fields,
+      },
+      update: fields,
+    })
+  }
+
+  async listRuns(workflowId: string): Promise<WorkflowRun[]> {
+    const rows: WorkflowRunRow[] = await this.prisma.workflowRun.findMany({
+      where: { workflowId },
+      orderBy: { startedAt: 'asc' },
+    })
+    return rows.map((row) =>
+      reviveRun({
+        id: row.id,
+        workflowId: row.workflowId,
+        status: row.status as WorkflowRunStatus,
+        replayOf: row.replayOf ?? undefined,
+        fromStep: row.fromStep ?? undefined,
+        version: row.version ?? undefined,
+        migrations: (row.migrations as RunMigration[] | null) ?? undefined,
+        startedAt: row.startedAt,
+        completedAt: row.completedAt ?? undefined,
+        steps: row.steps as WorkflowRun['steps'],
+      })
+    )
+  }
+
+  async loadApprovals(): Promise<Approval[]> {
+    const rows: WorkflowApprovalRow[] =
+      await this.prisma.workflowApproval.findMany({
+        orderBy: { requestedAt: 'asc' },
+      })
+    return rows.map((row) => ({
+      id: row.id,
+      workflowId: row.workflowId,
+      workflowName: row.workflowName,
+      stepId: row.stepId,
+      runId: row.runId ?? undefined,
+      title: row.title,
+      message: row.message ?? undefined,
+      assignees: row.assignees,
+      status: row.status as ApprovalStatus,
+      onExpiry: row.onExpiry as ApprovalDecision,
+      requestedAt: row.requestedAt,
+      expiresAt: row.expiresAt ?? undefined,
+      decision: (row.decision as ApprovalDecision | null) ?? undefined,
+      decidedBy: row.decidedBy ?? undefined,
+      comment: row.comment ?? undefined,
+      decidedAt: row.decidedAt ?? undefined,
+    }))
+  }
+
+  async saveApproval(approval: Approval): Promise<void> {
+    const fields = {
+      title: approval.title,
+      message: approval.message ?? null,
+      assignees: approval.assignees,
+      status: approval.status,
+      onExpiry: approval.onExpiry,
+      expiresAt: approval.expiresAt ?? null,
+      decision: approval.decision ?? null,
+      decidedBy: approval.decidedBy ?? null,
+      comment: approval.comment ?? null,
+      decidedAt: approval.decidedAt ?? null,
+    }
+    await this.prisma.workflowApproval.upsert({
+      where: { id: approval.id },
+      create: {
+        id: approval.id,
+        workflowId: approval.workflowId,
+        workflowName: approval.workflowName,
+        stepId: approval.stepId,
+        runId: approval.runId ?? null,
+        requestedAt: approval.requestedAt,
+        ...fields,
+      },
+      update: fields,
+    })
+  }
+
+  async loadTemplates(): Promise<WorkflowTemplate[]> {
+    const rows: WorkflowTemplateRow[] =
+      await this.prisma.workflowTemplate.findMany({
+        orderBy: [{ id: 'asc' }, { version: 'asc' }],
+      })
+    return rows.map((row) =>
+      reviveTemplate({
+        id: row.id,
+        version: row.version,
+        name: row.name,
+        description: row.description,
+        parameters: row.parameters as TemplateParameter[],
+        definition: row.definition as WorkflowDefinitionInput,
+        builtIn: false,
+        createdAt: row.createdAt,
+      })
+    )
+  }
+
+  // Versions are never changed once saved
+  async saveTemplate(template: WorkflowTemplate): Promise<void> {
+    await this.prisma.workflowTemplate.create({
+      data: {
+        id: template.id,
+        version: template.version,
+        name: template.name,
+        description: template.description,
+        parameters: template.parameters as Prisma.InputJsonArray,
+        definition: template.definition as unknown as Prisma.InputJsonObject,
+        createdAt: template.createdAt,
+      },
+    })
+  }
+
+  async loadTriggers(): Promise<WorkflowTrigger[]> {
+    const rows: WorkflowTriggerRow[] =
+      await this.prisma.workflowTrigger.findMany({
+        orderBy: { createdAt: 'asc' },
+      })
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      event: row.event,
+      when: (row.when as StepCondition | null) ?? undefined,
+      data: (row.data as Record<string, unknown> | null) ?? undefined,
+      dedupeKey: row.dedupeKey ?? undefined,
+      enabled: row.enabled,
+      definition: row.definition as WorkflowDefinitionInput,
+      lastFiredAt: row.lastFiredAt ?? undefined,
+      lastWorkflowId: row.lastWorkflowId ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }))
+  }
+
+  async saveTrigger(trigger: WorkflowTrigger): Promise<void> {
+    // Json columns; a missing condition or mapping is stored as null
+    const fields = {
+      name: trigger.name,
+      event: trigger.event,
+      when: (trigger.when as Prisma.InputJsonObject) ?? Prisma.DbNull,
+      data: (trigger.data as Prisma.InputJsonObject) ?? Prisma.DbNull,
+      dedupeKey: trigger.dedupeKey ?? null,
+      enabled: trigger.enabled,
+      definition: trigger.definition as unknown as Prisma.InputJsonObject,
+      lastFiredAt: trigger.lastFiredAt ?? null,
+      lastWorkflowId: trigger.lastWorkflowId ?? null,
+      updatedAt: trigger.updatedAt,
+    }
+    await this.prisma.workflowTrigger.upsert({
+      where: { id: trigger.id },
+      create: { id: trigger.id, createdAt: trigger.createdAt, ...fields },
+      update: fields,
+    })
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    await this.prisma.workflowTrigger.deleteMany({ where: { id: triggerId } })
+  }
+
+  // The primary key on (triggerId, dedupeKey) makes the claim atomic across
+  // processes
+  async claimTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<boolean> {
+    const { count } = await this.prisma.workflowTriggerEvent.createMany({
+      data: [{ triggerId, dedupeKey }],
+      skipDuplicates: true,
+    })
+    return count > 0
+  }
+
+  async releaseTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<void> {
+    await this.prisma.workflowTriggerEvent.deleteMany({
+      where: { triggerId, dedupeKey },
+    })
+  }
+}
+
+function toWorkflow(row: WorkflowRow): Workflow {
+  return reviveWorkflow({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    status: row.status as Workflow['status'],
+    data: row.data as Workflow['data'],
+    version: row.version,
+    compensation:
+      (row.compensation as Workflow['compensation'] | null) ?? undefined,
+    outputs: (row.outputs as Workflow['outputs'] | null) ?? undefined,
+    template:
+      row.templateId && row.templateVersion !== null
+        ? { id: row.templateId, version: row.templateVersion }
+        : undefined,
+    parent:
+      row.parentWorkflowId && row.parentStepId
+        ? { workflowId: row.parentWorkflowId, stepId: row.parentStepId }
+        : undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt ?? undefined,
+    steps: row.steps.map(
+      (step): WorkflowStep => ({
+        ...(step.options as Partial<WorkflowStep>),
+        id: step.id,
+        name: step.name,
+        agentType: step.agentType as AgentType,
+        action: step.action,
+        status: step.status as WorkflowStepStatus,
+        config: step.config as WorkflowStep['config'],
+        dependsOn: step.dependsOn,
+        attempts: step.attempts as StepAttempt[],
+        result: (step.result as AgentResult | null) ?? undefined,
+      })
+    ),
+  })
+}
@@ -0,0 +1,106 @@
+/**
+ * Workflow Step Retry Policies
+ *
+ * This module defines the retry policy a workflow step can declare, and the
+ * helpers the orchestrator uses to decide whether and when a failed or timed
+ * out attempt is dispatched again.
+ */
+
+import { z } from 'zod'
+
+// Backoff Strategy
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential'
+
+// Retry Policy Interface
+export interface RetryPolicy {
+  maxAttempts: number
+  backoff?: BackoffStrategy
+  initialDelayMs?: number
+  maxDelayMs?: number
+  // Per-attempt timeout; an attempt without a result by then is failed
+  timeoutMs?: number
+  // Error message fragments that may be retried; all errors when omitted
+  retryOn?: string[]
+}
+
+export const MAX_RETRY_ATTEMPTS = 100
+
+// Longest delay or timeout a policy may set, the longest a timer can wait
+export const MAX_RETRY_DELAY_MS = 2 ** 31 - 1
+
+const delaySchema = z.number().int().max(MAX_RETRY_DELAY_MS)
+
+// Retry policy as declared by a step, where unknown fields are rejected
+export const retryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().positive().max(MAX_RETRY_ATTEMPTS),
+    backoff: z.enum(['fixed', 'linear', 'exponential']).optional(),
+    initialDelayMs: delaySchema.nonnegative().optional(),
+    maxDelayMs: delaySchema.nonnegative().optional(),
+    timeoutMs: delaySchema.positive().optional(),
+    retryOn: z.array(z.string()).optional(),
+  })
+  .strict()
+
+// Record of a single dispatch of a workflow step
+export interface StepAttempt {
+  attempt: number
+  taskId: string
+  startedAt: Date
+  completedAt?: Date
+  success?: boolean
+  error?: string
+  timedOut?: boolean
+}
+
+// Error reported for attempts that exceed their timeout
+export function timeoutError(timeoutMs: number): string {
+  return `Step attempt timeout after ${timeoutMs}ms`
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 1000
+const DEFAULT_MAX_DELAY_MS = 60000
+
+// Delay before the attempt following `attemptsMade` attempts
+export function getRetryDelay(policy: RetryPolicy, attemptsMade: number): number {
+  const initialDelay = policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS
+  const maxDelay = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+
+  let delay: number
+  switch (policy.backoff ?? 'exponential') {
+    case 'fixed':
+      delay = initialDelay
+      break
+    case 'linear':
+      delay = initialDelay * attemptsMade
+      break
+    case 'exponential':
+      delay = initialDelay * Math.pow(2, attemptsMade - 1)
+      break
+  }
+
+  return Math.min(delay, maxDelay)
+}
+
+export function isRetryableError(policy: RetryPolicy, error?: string): boolean {
+  if (!policy.retryOn || policy.retryOn.length === 0) {
+    return true
+  }
+
+  const message = (error || '').toLowerCase()
+  return policy.retryOn.some((fragment) =>
+    message.includes(fragment.toLowerCase())
+  )
+}
+
+export function shouldRetry(
+  policy: RetryPolicy | undefined,
+  attemptsMade: number,
+  error?: string
+): boolean {
+  if (!policy) {
+    return false
+  }
+
+  return attemptsMade < policy.maxAttempts && isRetryableError(policy, error)
+}
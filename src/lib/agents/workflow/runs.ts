@@ -0,0 +1,216 @@
+/**
+ * Workflow Runs
+ *
+ * This module defines the record kept of each execution of a workflow: a run
+ * with a timeline per step of when it was queued, picked up by an agent and
+ * finished, every attempt made, the input sent and the result received. A run
+ * can be replayed from one of its steps, reusing the results of the steps
+ * that don't depend on it. A run is pinned to the definition version it
+ * started with, unless it is migrated to a newer one while paused. Approval
+ * steps record who decided and when, map steps how many of their items
+ * finished, and steps undone after a failure record their compensation.
+ */
+
+import type { AgentResult, AgentType } from '../index'
+import type { Workflow, WorkflowStepStatus } from './index'
+import type { ApprovalDecision, ApprovalStatus } from './approvals'
+import {
+  CompensationOutcome,
+  reviveCompensationOutcome,
+} from './compensation'
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+// Timing of one dispatch of a step
+export interface RunStepAttempt {
+  attempt: number
+  taskId: string
+  queuedAt: Date
+  // When an agent picked the task up
+  startedAt?: Date
+  finishedAt?: Date
+  success?: boolean
+  error?: string
+  // Index of the item a map step dispatched
+  item?: number
+}
+
+// Approval requested by an approval step, and its outcome
+export interface RunStepApproval {
+  approvalId: string
+  assignees: string[]
+  requestedAt: Date
+  expiresAt?: Date
+  status: ApprovalStatus
+  decision?: ApprovalDecision
+  decidedBy?: string
+  comment?: string
+  decidedAt?: Date
+}
+
+// Timeline of a step within a run
+export interface RunStep {
+  stepId: string
+  name: string
+  agentType: AgentType
+  status: WorkflowStepStatus
+  queuedAt?: Date
+  startedAt?: Date
+  finishedAt?: Date
+  attempts: RunStepAttempt[]
+  // Step config as resolved and sent to the agent
+  input?: Record<string, unknown>
+  result?: AgentResult
+  approval?: RunStepApproval
+  // Progress of a map step's items
+  map?: { total: number; completed: number; failed: number }
+  compensation?: CompensationOutcome
+  // Taken over from the replayed run rather than executed again
+  reused?: boolean
+}
+
+// Move of a paused run to a newer version of the workflow definition
+export interface RunMigration {
+  fromVersion: number
+  toVersion: number
+  migratedAt: Date
+}
+
+// Workflow Run Interface
+export interface WorkflowRun {
+  id: string
+  workflowId: string
+  status: WorkflowRunStatus
+  // Definition version the run executes; unset for runs recorded before
+  // definitions were versioned
+  version?: number
+  migrations?: RunMigration[]
+  // Run this one replays, and the step it was replayed from
+  replayOf?: string
+  fromStep?: string
+  startedAt: Date
+  completedAt?: Date
+  steps: RunStep[]
+}
+
+// Error raised when a run can't be replayed
+export class WorkflowReplayError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'conflict' | 'invalid'
+  ) {
+    super(message)
+    this.name = 'WorkflowReplayError'
+  }
+}
+
+// Run a replay starts from
+export interface ReplaySource {
+  run: WorkflowRun
+  fromStep: string
+  // Steps executed again; the others keep their timeline from `run`
+  replayedStepIds: Set<string>
+}
+
+// Start a run of a workflow as its steps currently stand
+export function createRun(
+  id: string,
+  workflow: Workflow,
+  startedAt: Date,
+  replay?: ReplaySource
+): WorkflowRun {
+  return {
+    id,
+    workflowId: workflow.id,
+    status: 'running',
+    version: workflow.version,
+    replayOf: replay?.run.id,
+    fromStep: replay?.fromStep,
+    startedAt,
+    steps: workflow.steps.map((step) => {
+      const previous = replay?.run.steps.find((s) => s.stepId === step.id)
+      if (previous && !replay?.replayedStepIds.has(step.id)) {
+        return { ...structuredClone(previous), reused: true }
+      }
+      return {
+        stepId: step.id,
+        name: step.name,
+        agentType: step.agentType,
+        status: step.status,
+        attempts: [],
+      }
+    }),
+  }
+}
+
+// A step and every step that runs after it, through dependencies or
+// failure handlers
+export function getDownstreamSteps(
+  workflow: Workflow,
+  stepId: string
+): Set<string> {
+  const downstream = new Set([stepId])
+  let added = true
+
+  while (added) {
+    added = false
+    for (const step of workflow.steps) {
+      if (downstream.has(step.id)) {
+        continue
+      }
+      const follows =
+        step.dependsOn.some((id) => downstream.has(id)) ||
+        workflow.steps.some(
+          (s) => s.onFailure === step.id && downstream.has(s.id)
+        )
+      if (follows) {
+        downstream.add(step.id)
+        added = true
+      }
+    }
+  }
+  return downstream
+}
+
+function reviveDate(value?: Date): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+// Revive date fields lost by JSON serialization
+export function reviveRun(raw: WorkflowRun): WorkflowRun {
+  return {
+    ...raw,
+    startedAt: new Date(raw.startedAt),
+    completedAt: reviveDate(raw.completedAt),
+    migrations: raw.migrations?.map((migration) => ({
+      ...migration,
+      migratedAt: new Date(migration.migratedAt),
+    })),
+    steps: raw.steps.map((step) => ({
+      ...step,
+      queuedAt: reviveDate(step.queuedAt),
+      startedAt: reviveDate(step.startedAt),
+      finishedAt: reviveDate(step.finishedAt),
+      attempts: step.attempts.map((attempt) => ({
+        ...attempt,
+        queuedAt: new Date(attempt.queuedAt),
+        startedAt: reviveDate(attempt.startedAt),
+        finishedAt: reviveDate(attempt.finishedAt),
+      })),
+      result: step.result
+        ? { ...step.result, completedAt: new Date(step.result.completedAt) }
+        : undefined,
+      approval: step.approval
+        ? {
+            ...step.approval,
+            requestedAt: new Date(step.approval.requestedAt),
+            expiresAt: reviveDate(step.approval.expiresAt),
+            decidedAt: reviveDate(step.approval.decidedAt),
+          }
+        : undefined,
+      compensation: step.compensation
+        ? reviveCompensationOutcome(step.compensation)
+        : undefined,
+    })),
+  }
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Unsubscribe, agentEventBus } from '../index'
+import { simulateWorkflow } from './simulation'
+import type { WorkflowDefinitionInput } from './validation'
+
+const HOUR = 60 * 60 * 1000
+
+// Invoice a customer, then email them the invoice
+const invoicing: WorkflowDefinitionInput = {
+  name: 'Invoicing',
+  description: 'Invoices a customer and emails the invoice',
+  data: { customerId: 'cus_1' },
+  steps: [
+    {
+      id: 'invoice',
+      agentType: 'billing',
+      action: 'invoice_generation',
+      config: { customerId: '{{workflow.data.customerId}}' },
+      dependsOn: [],
+    },
+    {
+      id: 'email',
+      agentType: 'customer_service',
+      action: 'customer_communication',
+      config: { invoiceId: '{{steps.invoice.result.data.invoiceId}}' },
+      dependsOn: ['invoice'],
+    },
+  ],
+}
+
+describe('simulateWorkflow', () => {
+  let leaked: string[]
+  let unsubscribe: Unsubscribe
+
+  beforeEach(() => {
+    leaked = []
+    unsubscribe = agentEventBus.subscribeToEvent('**', (_data, name) => {
+      leaked.push(name)
+    })
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it('runs the steps in order with their resolved inputs', async () => {
+    const simulation = await simulateWorkflow(invoicing, {
+      stubs: { invoice: { data: { invoiceId: 'inv_1' } } },
+      data: { customerId: 'cus_2' },
+    })
+
+    expect(simulation).toMatchObject({ state: 'completed', finished: true })
+    const [run] = simulation.runs
+    expect(run.steps.map((step) => [step.stepId, step.input])).toEqual([
+      ['invoice', { customerId: 'cus_2' }],
+      ['email', { invoiceId: 'inv_1' }],
+    ])
+    const completed = simulation.trace
+      .filter((entry) => entry.event === 'workflow:step_completed')
+      .map((entry) => (entry.data as { stepId: string }).stepId)
+    expect(completed).toEqual(['invoice', 'email'])
+  })
+
+  it('never reaches the real agents', async () => {
+    await simulateWorkflow(invoicing)
+
+    expect(leaked).toEqual([])
+  })
+
+  it('moves a virtual clock instead of waiting', async () => {
+    const started = Date.now()
+    const simulation = await simulateWorkflow(invoicing, {
+      stubs: {
+        invoice: { data: { invoiceId: 'inv_1' }, durationMs: 2 * HOUR },
+        email: { durationMs: 3 * HOUR },
+      },
+    })
+
+    expect(simulation.durationMs).toBe(5 * HOUR)
+    expect(Date.now() - started).toBeLessThan(HOUR)
+  })
+
+  it('retries failed attempts as the step policy says', async () => {
+    const simulation = await simulateWorkflow(
+      {
+        ...invoicing,
+        steps: [
+          {
+            ...invoicing.steps[0],
+            retry: { maxAttempts: 3, initialDelayMs: 60 * 1000 },
+          },
+          invoicing.steps[1],
+        ],
+      },
+      {
+        stubs: {
+          invoice: {
+            data: { invoiceId: 'inv_1' },
+            error: 'Ledger unavailable',
+            failAttempts: 2,
+          },
+        },
+      }
+    )
+
+    expect(simulation.state).toBe('completed')
+    const [invoice] = simulation.runs[0].steps
+    expect(invoice.attempts).toHaveLength(3)
+    expect(
+      simulation.trace.filter((entry) => entry.event === 'workflow:step_retry')
+    ).toHaveLength(2)
+  })
+
+  it('fails the workflow when a step keeps failing', async () => {
+    const simulation = await simulateWorkflow(invoicing, {
+      stubs: {
+        invoice: { data: { invoiceId: 'inv_1' } },
+        email: { error: 'Mailbox full' },
+      },
+    })
+
+    expect(simulation).toMatchObject({ state: 'failed', finished: true })
+    expect(
+      simulation.workflow.steps.find((step) => step.id === 'email')
+    ).toMatchObject({
+      status: 'failed',
+      result: { success: false, error: 'Mailbox full' },
+    })
+  })
+
+  it('decides approvals as the stubs say', async () => {
+    const approval: WorkflowDefinitionInput = {
+      name: 'Refund',
+      description: 'Refunds a customer once a manager approves',
+      data: {},
+      steps: [
+        {
+          id: 'approve',
+          type: 'approval',
+          approval: { assignees: ['manager@example.com'] },
+          dependsOn: [],
+        },
+      ],
+    }
+
+    const approved = await simulateWorkflow(approval)
+    const rejected = await simulateWorkflow(approval, {
+      stubs: { approve: { decision: 'reject' } },
+    })
+    const pending = await simulateWorkflow(approval, {
+      stubs: { approve: { decision: 'none' } },
+      maxDurationMs: HOUR,
+    })
+
+    expect(approved.state).toBe('completed')
+    expect(rejected.state).toBe('failed')
+    expect(pending.finished).toBe(false)
+  })
+})
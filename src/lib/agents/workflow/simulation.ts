@@ -0,0 +1,305 @@
+/**
+ * Workflow Simulation
+ *
+ * This module dry-runs a workflow definition before it is turned on for real
+ * customers. The workflow runs on an orchestrator of its own, with its own
+ * event bus and a virtual clock, and its tasks go to stub agents that answer
+ * with canned results or injected failures after a virtual delay, so no
+ * invoice, email or Slack message is ever sent. Approvals are decided as the
+ * stubs say. The simulation returns the runs of the workflow and of its
+ * sub-workflows, with the resolved input of every step, and each event
+ * published along the way.
+ */
+
+import { z } from 'zod'
+import {
+  AGENT_CAPABILITIES,
+  AgentEventBus,
+  AgentResult,
+  AgentStatus,
+  AgentTask,
+  AgentType,
+  BaseAgent,
+} from '../index'
+import { AgentPool, AgentPoolStatus } from '../pool'
+import { VirtualClock } from '../clock'
+import { WorkflowOrchestratorAgent } from './index'
+import { MemoryWorkflowStore } from './store'
+import { WorkflowTemplateRegistry } from './templates'
+import type { WorkflowRun } from './runs'
+import type { WorkflowSnapshot, WorkflowState } from './transitions'
+import type { WorkflowDefinitionInput } from './validation'
+import { v4 as uuidv4 } from 'uuid'
+
+// Virtual time a stub takes to answer a task or decide an approval
+export const DEFAULT_STUB_DURATION_MS = 1000
+
+// Virtual time after which a simulation stops, finished or not
+export const DEFAULT_SIMULATION_DURATION_MS = 7 * 24 * 60 * 60 * 1000
+
+const SIMULATED_FAILURE = 'Simulated failure'
+
+// How the stub agents answer the tasks of a step. Steps without a stub
+// succeed with empty data.
+export const stepStubSchema = z
+  .object({
+    // Data of a successful result
+    data: z.record(z.unknown()).optional(),
+    // Error the step's attempts fail with; only the first `failAttempts`
+    // attempts fail when it is set
+    error: z.string().min(1).optional(),
+    failAttempts: z.number().int().positive().optional(),
+    // Map steps: indexes of the items that fail
+    failItems: z.array(z.number().int().nonnegative()).optional(),
+    // Virtual time an attempt takes; longer than the step's timeout makes
+    // it time out
+    durationMs: z.number().int().nonnegative().optional(),
+    // Approval steps: the decision taken after `durationMs`, or none so the
+    // approval stays pending until it expires
+    decision: z.enum(['approve', 'reject', 'none']).optional(),
+    // Error the step's compensation fails with
+    compensationError: z.string().min(1).optional(),
+  })
+  .strict()
+
+export type StepStub = z.infer<typeof stepStubSchema>
+
+// Settings of a simulation as submitted by a client
+export const simulationOptionsSchema = z
+  .object({
+    // Stubs by step id; they apply to the steps of sub-workflows too
+    stubs: z.record(stepStubSchema).optional(),
+    // Merged into the workflow data
+    data: z.record(z.unknown()).optional(),
+    maxDurationMs: z.number().int().positive().optional(),
+  })
+  .strict()
+
+export type SimulationOptions = z.infer<typeof simulationOptionsSchema> & {
+  // Templates sub-workflow steps are created from
+  templates?: WorkflowTemplateRegistry
+}
+
+// Event published during a simulation
+export interface SimulationEvent {
+  at: Date
+  // Virtual time since the simulation started
+  elapsedMs: number
+  event: string
+  data: unknown
+}
+
+// Outcome of a simulation
+export interface WorkflowSimulation {
+  workflowId: string
+  state: WorkflowState
+  // Whether the workflow completed or failed before the simulation stopped
+  finished: boolean
+  startedAt: Date
+  completedAt?: Date
+  durationMs: number
+  // The workflow as it stood when the simulation stopped
+  workflow: WorkflowSnapshot
+  // Runs of the workflow and of its sub-workflows, in the order they started
+  runs: WorkflowRun[]
+  trace: SimulationEvent[]
+}
+
+const FINISHED_STATES: WorkflowState[] = ['completed', 'compensated', 'failed']
+
+// Run a workflow definition against stub agents on a virtual clock
+export async function simulateWorkflow(
+  definition: WorkflowDefinitionInput,
+  options: SimulationOptions = {}
+): Promise<WorkflowSimulation> {
+  const clock = new VirtualClock()
+  const bus = new AgentEventBus()
+  const startedAt = clock.now()
+  const stubs = options.stubs ?? {}
+  const elapsed = () => clock.now().getTime() - startedAt.getTime()
+
+  const trace: SimulationEvent[] = []
+  bus.subscribeToEvent('**', (data, event) => {
+    trace.push({
+      at: clock.now(),
+      elapsedMs: elapsed(),
+      event,
+      data: structuredClone(data),
+    })
+  })
+
+  // Compensation tasks are announced before they are dispatched
+  const compensationTaskIds = new Set<string>()
+  bus.subscribeToEvent('workflow:step_compensating', (event) => {
+    compensationTaskIds.add(event.taskId)
+  })
+
+  // Attempts made so far, by workflow, step and map item
+  const attempts = new Map<string, number>()
+  const answer = (task: AgentTask): AgentResult => {
+    const stub = stubs[task.data.stepId] ?? {}
+    const result = { taskId: task.id, data: {}, completedAt: clock.now() }
+    if (compensationTaskIds.has(task.id)) {
+      return stub.compensationError
+        ? { ...result, success: false, error: stub.compensationError }
+        : { ...result, success: true }
+    }
+
+    const key = [task.data.workflowId, task.data.stepId, task.data.itemIndex]
+      .filter((part) => part !== undefined)
+      .join(':')
+    const attempt = (attempts.get(key) ?? 0) + 1
+    attempts.set(key, attempt)
+    const fails =
+      stub.failItems?.includes(task.data.itemIndex) ||
+      ((stub.error !== undefined || stub.failAttempts !== undefined) &&
+        attempt <= (stub.failAttempts ?? Infinity))
+    return fails
+      ? { ...result, success: false, error: stub.error ?? SIMULATED_FAILURE }
+      : { ...result, success: true, data: structuredClone(stub.data ?? {}) }
+  }
+
+  const store = new MemoryWorkflowStore()
+  const orchestrator = new WorkflowOrchestratorAgent(
+    uuidv4(),
+    'Workflow Simulator',
+    'Runs workflows against stub agents on a virtual clock',
+    store,
+    options.templates ?? new WorkflowTemplateRegistry(store),
+    {
+      clock,
+      bus,
+      agents: Object.values(AgentType)
+        .filter((type) => type !== AgentType.WORKFLOW)
+        .map(
+          (type) =>
+            new StubAgent(type, bus, clock, answer, (task) =>
+              stubs[task.data.stepId]?.durationMs ?? DEFAULT_STUB_DURATION_MS
+            )
+        ),
+    }
+  )
+
+  // Approvals are decided by their first assignee
+  bus.subscribeToEvent('approval:requested', (event) => {
+    const stub = stubs[event.stepId] ?? {}
+    const decision = stub.decision ?? 'approve'
+    if (decision === 'none') {
+      return
+    }
+    clock.setTimeout(() => {
+      // The workflow may have been cancelled in the meantime
+      orchestrator
+        .decideApproval(event.approvalId, decision, {
+          by: event.assignees[0],
+          comment: 'Decided by the simulation',
+        })
+        .catch(() => undefined)
+    }, stub.durationMs ?? DEFAULT_STUB_DURATION_MS)
+  })
+
+  await orchestrator.initialize()
+  const { id } = await orchestrator.createWorkflow({
+    ...definition,
+    data: { ...definition.data, ...options.data },
+  })
+  await orchestrator.controlWorkflow(id, 'start')
+
+  // Move the clock from timer to timer until the workflow finishes
+  const deadline =
+    startedAt.getTime() +
+    (options.maxDurationMs ?? DEFAULT_SIMULATION_DURATION_MS)
+  for (;;) {
+    const { state } = orchestrator.getWorkflow(id)!
+    const next = clock.nextTimerAt()
+    if (
+      FINISHED_STATES.includes(state) ||
+      !next ||
+      next.getTime() > deadline
+    ) {
+      break
+    }
+    await clock.advanceTo(next)
+  }
+
+  const workflow = orchestrator.getWorkflow(id)!
+  const workflowIds = [
+    id,
+    ...trace
+      .filter((entry) => entry.event === 'workflow:sub_workflow_started')
+      .map((entry) => (entry.data as { childWorkflowId: string }))
+      .map(({ childWorkflowId }) => childWorkflowId),
+  ]
+  const runs = (
+    await Promise.all(
+      workflowIds.map((workflowId) => orchestrator.listRuns(workflowId))
+    )
+  )
+    .flat()
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+
+  return {
+    workflowId: id,
+    state: workflow.state,
+    finished: FINISHED_STATES.includes(workflow.state),
+    startedAt,
+    completedAt: workflow.completedAt,
+    durationMs:
+      (workflow.completedAt ?? clock.now()).getTime() - startedAt.getTime(),
+    workflow,
+    runs,
+    trace,
+  }
+}
+
+// Agent answering tasks on the simulation's bus, after a virtual delay
+class StubAgent implements BaseAgent {
+  id: string
+  name: string
+  description: string
+  capabilities: string[]
+  private pool: AgentPool
+
+  constructor(
+    readonly type: AgentType,
+    private bus: AgentEventBus,
+    private clock: VirtualClock,
+    private answer: (task: AgentTask) => AgentResult,
+    private durationOf: (task: AgentTask) => number
+  ) {
+    this.id = uuidv4()
+    this.name = `Simulated ${type} Agent`
+    this.description = `Answers ${type} tasks with stubbed results`
+    this.capabilities = AGENT_CAPABILITIES[type]
+    this.pool = new AgentPool(type, Infinity)
+  }
+
+  get status(): AgentStatus {
+    return this.pool.getStatus().status
+  }
+
+  async initialize(): Promise<void> {
+    this.bus.subscribeToEvent(`task:${this.type}`, (task) => {
+      this.bus.publishEvent('agent:task_started', {
+        taskId: task.id,
+        agentId: this.id,
+        agentType: this.type,
+      })
+      this.clock.setTimeout(() => {
+        this.bus.publishEvent(`result:${task.id}`, {
+          ...this.answer(task),
+          workflowId: task.data.workflowId,
+          stepId: task.data.stepId,
+        })
+      }, this.durationOf(task))
+    })
+  }
+
+  async execute(task: AgentTask): Promise<AgentResult> {
+    return this.answer(task)
+  }
+
+  getStatus(): AgentPoolStatus {
+    return this.pool.getStatus()
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * SQLite Workflow Store
+ *
+ * This module implements the workflow store on top of a SQLite database file,
+ * the default for single-process deployments. Workflows, versions, runs,
+ * agent results, approvals, templates and triggers are rows holding their
+ * JSON, so a save only writes what it changes. A new database starts with the
+ * content of the JSON file store it replaces, when there is one.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import type { Workflow } from './index'
+import { WorkflowRun, reviveRun } from './runs'
+import { Approval, reviveApproval } from './approvals'
+import { WorkflowTemplate, reviveTemplate } from './templates'
+import { WorkflowTrigger, reviveTrigger } from './triggers'
+import { WorkflowVersion, reviveWorkflowVersion } from './versions'
+import {
+  StoredAgentResult,
+  WorkflowStore,
+  WorkflowStoreSnapshot,
+  reviveResult,
+  reviveWorkflow,
+} from './store'
+
+// Bumped with each change to the tables below
+const SCHEMA_VERSION = 1
+
+const SCHEMA = `
+  CREATE TABLE workflows (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE workflow_versions (
+    workflow_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (workflow_id, version)
+  );
+  CREATE TABLE agent_results (workflow_id TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX agent_results_workflow_id ON agent_results (workflow_id);
+  CREATE TABLE workflow_runs (
+    id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX workflow_runs_workflow_id ON workflow_runs (workflow_id);
+  CREATE TABLE approvals (
+    id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE workflow_templates (data TEXT NOT NULL);
+  CREATE TABLE workflow_triggers (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE workflow_trigger_events (
+    trigger_id TEXT NOT NULL,
+    dedupe_key TEXT NOT NULL,
+    fired_at TEXT NOT NULL,
+    PRIMARY KEY (trigger_id, dedupe_key)
+  );
+`
+
+export class SqliteWorkflowStore implements WorkflowStore {
+  private database: Database.Database | null = null
+
+  // `importPath` is the JSON file store whose content a new database starts
+  // with
+  constructor(
+    private filePath: string,
+    private importPath?: string
+  ) {}
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    return this.all<Workflow>('SELECT data FROM workflows ORDER BY rowid').map(
+      reviveWorkflow
+    )
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    this.db()
+      .prepare(
+        `INSERT INTO workflows (id, data) VALUES (?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run(workflow.id, JSON.stringify(workflow))
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    const db = this.db()
+    db.transaction(() => {
+      db.prepare('DELETE FROM workflows WHERE id = ?').run(workflowId)
+      for (const table of [
+        'workflow_versions',
+        'agent_results',
+        'workflow_runs',
+        'approvals',
+      ]) {
+        db.prepare(`DELETE FROM ${table} WHERE workflow_id = ?`).run(workflowId)
+      }
+    })()
+  }
+
+  async loadVersions(): Promise<WorkflowVersion[]> {
+    return this.all<WorkflowVersion>(
+      'SELECT data FROM workflow_versions ORDER BY rowid'
+    ).map(reviveWorkflowVersion)
+  }
+
+  async saveVersion(version: WorkflowVersion): Promise<void> {
+    this.db()
+      .prepare(
+        `INSERT INTO workflow_versions (workflow_id, version, data)
+         VALUES (?, ?, ?)`
+      )
+      .run(version.workflowId, version.version, JSON.stringify(version))
+  }
+
+  async saveResult(result: StoredAgentResult): Promise<void> {
+    this.db()
+      .prepare('INSERT INTO agent_results (workflow_id, data) VALUES (?, ?)')
+      .run(result.workflowId, JSON.stringify(result))
+  }
+
+  async listResults(workflowId: string): Promise<StoredAgentResult[]> {
+    return this.all<StoredAgentResult>(
+      'SELECT data FROM agent_results WHERE workflow_id = ? ORDER BY rowid',
+      workflowId
+    ).map(reviveResult)
+  }
+
+  async saveRun(run: WorkflowRun): Promise<void> {
+    this.db()
+      .prepare(
+        `INSERT INTO workflow_runs (id, workflow_id, data) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run(run.id, run.workflowId, JSON.stringify(run))
+  }
+
+  async listRuns(workflowId: string): Promise<WorkflowRun[]> {
+    return this.all<WorkflowRun>(
+      'SELECT data FROM workflow_runs WHERE workflow_id = ? ORDER BY rowid',
+      workflowId
+    ).map(reviveRun)
+  }
+
+  async loadApprovals(): Promise<Approval[]> {
+    return this.all<Approval>('SELECT data FROM approvals ORDER BY rowid').map(
+      reviveApproval
+    )
+  }
+
+  async saveApproval(approval: Approval): Promise<void> {
+    this.db()
+      .prepare(
+        `INSERT INTO approvals (id, workflow_id, data) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run(approval.id, approval.workflowId, JSON.stringify(approval))
+  }
+
+  async loadTemplates(): Promise<WorkflowTemplate[]> {
+    return this.all<WorkflowTemplate>(
+      'SELECT data FROM workflow_templates ORDER BY rowid'
+    ).map(reviveTemplate)
+  }
+
+  async saveTemplate(template: WorkflowTemplate): Promise<void> {
+    this.db()
+      .prepare('INSERT INTO workflow_templates (data) VALUES (?)')
+      .run(JSON.stringify(template))
+  }
+
+  async loadTriggers(): Promise<WorkflowTrigger[]> {
+    return this.all<WorkflowTrigger>(
+      'SELECT data FROM workflow_triggers ORDER BY rowid'
+    ).map(reviveTrigger)
+  }
+
+  async saveTrigger(trigger: WorkflowTrigger): Promise<void> {
+    this.db()
+      .prepare(
+        `INSERT INTO workflow_triggers (id, data) VALUES (?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run(trigger.id, JSON.stringify(trigger))
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    const db = this.db()
+    db.transaction(() => {
+      db.prepare('DELETE FROM workflow_triggers WHERE id = ?').run(triggerId)
+      db.prepare(
+        'DELETE FROM workflow_trigger_events WHERE trigger_id = ?'
+      ).run(triggerId)
+    })()
+  }
+
+  // The primary key on (trigger_id, dedupe_key) makes the claim atomic across
+  // connections
+  async claimTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<boolean> {
+    const { changes } = this.db()
+      .prepare(
+        `INSERT OR IGNORE INTO workflow_trigger_events
+         (trigger_id, dedupe_key, fired_at) VALUES (?, ?, ?)`
+      )
+      .run(triggerId, dedupeKey, new Date().toISOString())
+    return changes > 0
+  }
+
+  async releaseTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<void> {
+    this.db()
+      .prepare(
+        `DELETE FROM workflow_trigger_events
+         WHERE trigger_id = ? AND dedupe_key = ?`
+      )
+      .run(triggerId, dedupeKey)
+  }
+
+  private all<T>(sql: string, ...params: string[]): T[] {
+    const rows = this.db()
+      .prepare(sql)
+      .all(...params) as { data: string }[]
+    return rows.map((row) => JSON.parse(row.data) as T)
+  }
+
+  // Open the database on first use, creating its tables if it is new
+  private db(): Database.Database {
+    if (this.database) {
+      return this.database
+    }
+
+    mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const db = new Database(this.filePath)
+    db.pragma('journal_mode = WAL')
+    if (db.pragma('user_version', { simple: true }) === 0) {
+      db.transaction(() => {
+        db.exec(SCHEMA)
+        if (this.importPath && existsSync(this.importPath)) {
+          importSnapshot(
+            db,
+            JSON.parse(readFileSync(this.importPath, 'utf8'))
+          )
+        }
+        db.pragma(`user_version = ${SCHEMA_VERSION}`)
+      })()
+    }
+    this.database = db
+    return db
+  }
+}
+
+// Copy the content of a JSON file store into a new database
+function importSnapshot(
+  db: Database.Database,
+  snapshot: Partial<WorkflowStoreSnapshot>
+): void {
+  const insert = (sql: string, rows: unknown[][] = []) => {
+    const statement = db.prepare(sql)
+    rows.forEach((row) => statement.run(...row))
+  }
+  const json = JSON.stringify
+
+  insert(
+    'INSERT INTO workflows (id, data) VALUES (?, ?)',
+    snapshot.workflows?.map((w) => [w.id, json(w)])
+  )
+  insert(
+    `INSERT OR REPLACE INTO workflow_versions (workflow_id, version, data)
+     VALUES (?, ?, ?)`,
+    snapshot.versions?.map((v) => [v.workflowId, v.version, json(v)])
+  )
+  insert(
+    'INSERT INTO agent_results (workflow_id, data) VALUES (?, ?)',
+    snapshot.results?.map((r) => [r.workflowId, json(r)])
+  )
+  insert(
+    'INSERT INTO workflow_runs (id, workflow_id, data) VALUES (?, ?, ?)',
+    snapshot.runs?.map((r) => [r.id, r.workflowId, json(r)])
+  )
+  insert(
+    'INSERT INTO approvals (id, workflow_id, data) VALUES (?, ?, ?)',
+    snapshot.approvals?.map((a) => [a.id, a.workflowId, json(a)])
+  )
+  insert(
+    'INSERT INTO workflow_templates (data) VALUES (?)',
+    snapshot.templates?.map((t) => [json(t)])
+  )
+  insert(
+    'INSERT INTO workflow_triggers (id, data) VALUES (?, ?)',
+    snapshot.triggers?.map((t) => [t.id, json(t)])
+  )
+  insert(
+    `INSERT INTO workflow_trigger_events (trigger_id, dedupe_key, fired_at)
+     VALUES (?, ?, ?)`,
+    snapshot.triggerEvents?.map((e) => [
+      e.triggerId,
+      e.dedupeKey,
+      new Date(e.firedAt).toISOString(),
+    ])
+  )
+}
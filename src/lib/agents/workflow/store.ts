@@ -0,0 +1,452 @@
+/**
+ * Workflow Persistence
+ *
+ * This module defines the pluggable store used by the workflow orchestrator to
+ * persist workflows, their steps, the versions of their definition, their
+ * runs and every agent result they receive, so that running workflows
+ * survive a process restart. The
+ * approvals requested by approval steps, saved workflow templates, workflow
+ * triggers and the events they already fired for are kept alongside.
+ */
+
+import path from 'path'
+import type { AgentResult } from '../index'
+import { JsonFile } from '../jsonFile'
+import type { Workflow } from './index'
+import { WorkflowRun, reviveRun } from './runs'
+import { Approval, reviveApproval } from './approvals'
+import { reviveCompensationOutcome } from './compensation'
+import { reviveMapItem } from './map'
+import { WorkflowTemplate, reviveTemplate } from './templates'
+import { WorkflowTrigger, reviveTrigger } from './triggers'
+import { WorkflowVersion, reviveWorkflowVersion } from './versions'
+import { PrismaWorkflowStore } from './prismaStore'
+import { SqliteWorkflowStore } from './sqliteStore'
+
+// Agent result recorded against a workflow step
+export interface StoredAgentResult extends AgentResult {
+  workflowId: string
+  stepId: string
+}
+
+// Workflow Store Interface
+export interface WorkflowStore {
+  loadWorkflows(): Promise<Workflow[]>
+  saveWorkflow(workflow: Workflow): Promise<void>
+  deleteWorkflow(workflowId: string): Promise<void>
+  // Definition versions of all workflows, oldest first
+  loadVersions(): Promise<WorkflowVersion[]>
+  saveVersion(version: WorkflowVersion): Promise<void>
+  saveResult(result: StoredAgentResult): Promise<void>
+  listResults(workflowId: string): Promise<StoredAgentResult[]>
+  saveRun(run: WorkflowRun): Promise<void>
+  // Runs of a workflow, oldest first
+  listRuns(workflowId: string): Promise<WorkflowRun[]>
+  loadApprovals(): Promise<Approval[]>
+  saveApproval(approval: Approval): Promise<void>
+  // Saved template versions, oldest first
+  loadTemplates(): Promise<WorkflowTemplate[]>
+  saveTemplate(template: WorkflowTemplate): Promise<void>
+  loadTriggers(): Promise<WorkflowTrigger[]>
+  saveTrigger(trigger: WorkflowTrigger): Promise<void>
+  deleteTrigger(triggerId: string): Promise<void>
+  // Record that a trigger fired for an event. Returns false when it already
+  // fired for the same deduplication key.
+  claimTriggerEvent(triggerId: string, dedupeKey: string): Promise<boolean>
+  // Forget a claim whose workflow couldn't be started, so the event can be
+  // delivered again
+  releaseTriggerEvent(triggerId: string, dedupeKey: string): Promise<void>
+}
+
+// Event a trigger fired for
+interface TriggerEventRecord {
+  triggerId: string
+  dedupeKey: string
+  firedAt: Date
+}
+
+// Serialized shape of the file store
+export interface WorkflowStoreSnapshot {
+  workflows: Workflow[]
+  versions: WorkflowVersion[]
+  results: StoredAgentResult[]
+  runs: WorkflowRun[]
+  approvals: Approval[]
+  templates: WorkflowTemplate[]
+  triggers: WorkflowTrigger[]
+  triggerEvents: TriggerEventRecord[]
+}
+
+// Revive date fields lost by JSON serialization
+export function reviveWorkflow(raw: Workflow): Workflow {
+  return {
+    ...raw,
+    // Workflows saved before definitions were versioned run version 1
+    version: raw.version ?? 1,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    compensation: raw.compensation
+      ? {
+          ...raw.compensation,
+          startedAt: new Date(raw.compensation.startedAt),
+          completedAt: raw.compensation.completedAt
+            ? new Date(raw.compensation.completedAt)
+            : undefined,
+        }
+      : undefined,
+    steps: raw.steps.map((step) => ({
+      ...step,
+      attempts: (step.attempts || []).map((attempt) => ({
+        ...attempt,
+        startedAt: new Date(attempt.startedAt),
+        completedAt: attempt.completedAt
+          ? new Date(attempt.completedAt)
+          : undefined,
+      })),
+      result: step.result ? reviveResult(step.result) : undefined,
+      mapItems: step.mapItems?.map(reviveMapItem),
+      compensationOutcome: step.compensationOutcome
+        ? reviveCompensationOutcome(step.compensationOutcome)
+        : undefined,
+    })),
+  }
+}
+
+export function reviveResult<T extends AgentResult>(raw: T): T {
+  return { ...raw, completedAt: new Date(raw.completedAt) }
+}
+
+// In-memory store, used for tests and short-lived orchestrators
+export class MemoryWorkflowStore implements WorkflowStore {
+  private workflows: Map<string, Workflow> = new Map()
+  private versions: WorkflowVersion[] = []
+  private results: StoredAgentResult[] = []
+  private runs: Map<string, WorkflowRun> = new Map()
+  private approvals: Map<string, Approval> = new Map()
+  private templates: WorkflowTemplate[] = []
+  private triggers: Map<string, WorkflowTrigger> = new Map()
+  private triggerEvents: Set<string> = new Set()
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    return Array.from(this.workflows.values()).map((workflow) =>
+      structuredClone(workflow)
+    )
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    this.workflows.set(workflow.id, structuredClone(workflow))
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    this.workflows.delete(workflowId)
+    this.versions = this.versions.filter((v) => v.workflowId !== workflowId)
+    this.results = this.results.filter((r) => r.workflowId !== workflowId)
+    for (const run of this.runs.values()) {
+      if (run.workflowId === workflowId) {
+        this.runs.delete(run.id)
+      }
+    }
+    for (const approval of this.approvals.values()) {
+      if (approval.workflowId === workflowId) {
+        this.approvals.delete(approval.id)
+      }
+    }
+  }
+
+  async loadVersions(): Promise<WorkflowVersion[]> {
+    return this.versions.map((version) => structuredClone(version))
+  }
+
+  async saveVersion(version: WorkflowVersion): Promise<void> {
+    this.versions.push(structuredClone(version))
+  }
+
+  async saveResult(result: StoredAgentResult): Promise<void> {
+    this.results.push(structuredClone(result))
+  }
+
+  async listResults(workflowId: string): Promise<StoredAgentResult[]> {
+    return this.results
+      .filter((r) => r.workflowId === workflowId)
+      .map((r) => structuredClone(r))
+  }
+
+  async saveRun(run: WorkflowRun): Promise<void> {
+    this.runs.set(run.id, structuredClone(run))
+  }
+
+  async listRuns(workflowId: string): Promise<WorkflowRun[]> {
+    return Array.from(this.runs.values())
+      .filter((run) => run.workflowId === workflowId)
+      .map((run) => structuredClone(run))
+  }
+
+  async loadApprovals(): Promise<Approval[]> {
+    return Array.from(this.approvals.values()).map((approval) =>
+      structuredClone(approval)
+    )
+  }
+
+  async saveApproval(approval: Approval): Promise<void> {
+    this.approvals.set(approval.id, structuredClone(approval))
+  }
+
+  async loadTemplates(): Promise<WorkflowTemplate[]> {
+    return this.templates.map((template) => structuredClone(template))
+  }
+
+  async saveTemplate(template: WorkflowTemplate): Promise<void> {
+    this.templates.push(structuredClone(template))
+  }
+
+  async loadTriggers(): Promise<WorkflowTrigger[]> {
+    return Array.from(this.triggers.values()).map((trigger) =>
+      structuredClone(trigger)
+    )
+  }
+
+  async saveTrigger(trigger: WorkflowTrigger): Promise<void> {
+    this.triggers.set(trigger.id, structuredClone(trigger))
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    this.triggers.delete(triggerId)
+    for (const key of this.triggerEvents) {
+      if (key.startsWith(`${triggerId}:`)) {
+        this.triggerEvents.delete(key)
+      }
+    }
+  }
+
+  async claimTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<boolean> {
+    const key = `${triggerId}:${dedupeKey}`
+    if (this.triggerEvents.has(key)) {
+      return false
+    }
+    this.triggerEvents.add(key)
+    return true
+  }
+
+  async releaseTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<void> {
+    this.triggerEvents.delete(`${triggerId}:${dedupeKey}`)
+  }
+}
+
+// Store kept in a single JSON file, rewritten on every save
+export class FileWorkflowStore implements WorkflowStore {
+  private snapshot: WorkflowStoreSnapshot | null = null
+  private file: JsonFile<WorkflowStoreSnapshot>
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath)
+  }
+
+  async loadWorkflows(): Promise<Workflow[]> {
+    const snapshot = await this.read()
+    return snapshot.workflows.map(reviveWorkflow)
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    const snapshot = await this.read()
+    const index = snapshot.workflows.findIndex((w) => w.id === workflow.id)
+    if (index === -1) {
+      snapshot.workflows.push(structuredClone(workflow))
+    } else {
+      snapshot.workflows[index] = structuredClone(workflow)
+    }
+    await this.write()
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.workflows = snapshot.workflows.filter((w) => w.id !== workflowId)
+    snapshot.versions = snapshot.versions.filter(
+      (v) => v.workflowId !== workflowId
+    )
+    snapshot.results = snapshot.results.filter(
+      (r) => r.workflowId !== workflowId
+    )
+    snapshot.runs = snapshot.runs.filter((r) => r.workflowId !== workflowId)
+    snapshot.approvals = snapshot.approvals.filter(
+      (a) => a.workflowId !== workflowId
+    )
+    await this.write()
+  }
+
+  async loadVersions(): Promise<WorkflowVersion[]> {
+    const snapshot = await this.read()
+    return snapshot.versions.map(reviveWorkflowVersion)
+  }
+
+  async saveVersion(version: WorkflowVersion): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.versions.push(structuredClone(version))
+    await this.write()
+  }
+
+  async saveResult(result: StoredAgentResult): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.results.push(structuredClone(result))
+    await this.write()
+  }
+
+  async listResults(workflowId: string): Promise<StoredAgentResult[]> {
+    const snapshot = await this.read()
+    return snapshot.results
+      .filter((r) => r.workflowId === workflowId)
+      .map(reviveResult)
+  }
+
+  async saveRun(run: WorkflowRun): Promise<void> {
+    const snapshot = await this.read()
+    const index = snapshot.runs.findIndex((r) => r.id === run.id)
+    if (index === -1) {
+      snapshot.runs.push(structuredClone(run))
+    } else {
+      snapshot.runs[index] = structuredClone(run)
+    }
+    await this.write()
+  }
+
+  async listRuns(workflowId: string): Promise<WorkflowRun[]> {
+    const snapshot = await this.read()
+    return snapshot.runs
+      .filter((r) => r.workflowId === workflowId)
+      .map(reviveRun)
+  }
+
+  async loadApprovals(): Promise<Approval[]> {
+    const snapshot = await this.read()
+    return snapshot.approvals.map(reviveApproval)
+  }
+
+  async saveApproval(approval: Approval): Promise<void> {
+    const snapshot = await this.read()
+    const index = snapshot.approvals.findIndex((a) => a.id === approval.id)
+    if (index === -1) {
+      snapshot.approvals.push(structuredClone(approval))
+    } else {
+      snapshot.approvals[index] = structuredClone(approval)
+    }
+    await this.write()
+  }
+
+  async loadTemplates(): Promise<WorkflowTemplate[]> {
+    const snapshot = await this.read()
+    return snapshot.templates.map(reviveTemplate)
+  }
+
+  async saveTemplate(template: WorkflowTemplate): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.templates.push(structuredClone(template))
+    await this.write()
+  }
+
+  async loadTriggers(): Promise<WorkflowTrigger[]> {
+    const snapshot = await this.read()
+    return snapshot.triggers.map(reviveTrigger)
+  }
+
+  async saveTrigger(trigger: WorkflowTrigger): Promise<void> {
+    const snapshot = await this.read()
+    const index = snapshot.triggers.findIndex((t) => t.id === trigger.id)
+    if (index === -1) {
+      snapshot.triggers.push(structuredClone(trigger))
+    } else {
+      snapshot.triggers[index] = structuredClone(trigger)
+    }
+    await this.write()
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.triggers = snapshot.triggers.filter((t) => t.id !== triggerId)
+    snapshot.triggerEvents = snapshot.triggerEvents.filter(
+      (e) => e.triggerId !== triggerId
+    )
+    await this.write()
+  }
+
+  async claimTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<boolean> {
+    const snapshot = await this.read()
+    if (
+      snapshot.triggerEvents.some(
+        (e) => e.triggerId === triggerId && e.dedupeKey === dedupeKey
+      )
+    ) {
+      return false
+    }
+    snapshot.triggerEvents.push({ triggerId, dedupeKey, firedAt: new Date() })
+    await this.write()
+    return true
+  }
+
+  async releaseTriggerEvent(
+    triggerId: string,
+    dedupeKey: string
+  ): Promise<void> {
+    const snapshot = await this.read()
+    snapshot.triggerEvents = snapshot.triggerEvents.filter(
+      (e) => e.triggerId !== triggerId || e.dedupeKey !== dedupeKey
+    )
+    await this.write()
+  }
+
+  private async read(): Promise<WorkflowStoreSnapshot> {
+    if (this.snapshot) {
+      return this.snapshot
+    }
+
+    // Stores written before versions, runs, approvals, templates and
+    // triggers were added have none
+    const snapshot = await this.file.read()
+    this.snapshot = {
+      workflows: snapshot?.workflows ?? [],
+      versions: snapshot?.versions ?? [],
+      results: snapshot?.results ?? [],
+      runs: snapshot?.runs ?? [],
+      approvals: snapshot?.approvals ?? [],
+      templates: snapshot?.templates ?? [],
+      triggers: snapshot?.triggers ?? [],
+      triggerEvents: snapshot?.triggerEvents ?? [],
+    }
+    return this.snapshot
+  }
+
+  private write(): Promise<void> {
+    return this.file.write(this.snapshot!)
+  }
+}
+
+// Create the store selected by the environment
+export function createWorkflowStore(
+  config: Record<string, string | undefined> = process.env
+): WorkflowStore {
+  const filePath =
+    config.WORKFLOW_STORE_PATH ||
+    path.join(process.cwd(), '.data', 'workflows.json')
+  switch (config.WORKFLOW_STORE) {
+    case 'memory':
+      return new MemoryWorkflowStore()
+    case 'postgres':
+      return new PrismaWorkflowStore()
+    case 'file':
+      return new FileWorkflowStore(filePath)
+    default:
+      return new SqliteWorkflowStore(
+        config.WORKFLOW_DB_PATH ||
+          path.join(process.cwd(), '.data', 'workflows.db'),
+        filePath
+      )
+  }
+}
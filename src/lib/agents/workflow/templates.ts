@@ -0,0 +1,313 @@
+/**
+ * Workflow Templates
+ *
+ * This module defines reusable workflow templates: named, versioned workflow
+ * definitions with typed parameters, referenced in the definition as
+ * `{{params.<name>}}`. Instantiating a template checks the parameters against
+ * their types, fills in defaults and substitutes them, leaving the workflow's
+ * own `{{workflow...}}` and `{{steps...}}` references for run time. Built-in
+ * templates ship with the platform; others are kept in the workflow store,
+ * where every change is saved as a new version. A sub-workflow step runs a
+ * template as a child workflow and waits for it.
+ */
+
+import { z } from 'zod'
+import { resolveTemplate } from './expressions'
+import type { WorkflowStore } from './store'
+import {
+  WorkflowDefinitionInput,
+  WorkflowValidationError,
+  normalizeWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './validation'
+import { BUILT_IN_TEMPLATES } from './builtInTemplates'
+
+// Action recorded on sub-workflow steps, which are handled by the
+// orchestrator itself rather than dispatched to an agent
+export const SUB_WORKFLOW_ACTION = 'sub_workflow'
+
+// Settings of a sub-workflow step
+export const subWorkflowStepConfigSchema = z.object({
+  templateId: z.string().min(1),
+  // Latest version when omitted
+  version: z.number().int().positive().optional(),
+  // Template parameters; may reference the parent workflow's data and
+  // upstream results with templates
+  params: z.record(z.unknown()).optional(),
+})
+
+export type SubWorkflowStepConfig = z.infer<typeof subWorkflowStepConfigSchema>
+
+export type TemplateParameterType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'array'
+  | 'object'
+
+const templateParameterSchema = z.object({
+  name: z.string().regex(/^\w+$/, 'must be a word'),
+  type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+  description: z.string().optional(),
+  // Parameters with a default are optional
+  default: z.unknown().optional(),
+})
+
+export type TemplateParameter = z.infer<typeof templateParameterSchema>
+
+// Workflow Template Interface
+export interface WorkflowTemplate {
+  id: string
+  version: number
+  name: string
+  description: string
+  parameters: TemplateParameter[]
+  // Definition with `{{params.<name>}}` references
+  definition: WorkflowDefinitionInput
+  builtIn: boolean
+  // Unset for built-in templates
+  createdAt?: Date
+}
+
+export function reviveTemplate(raw: WorkflowTemplate): WorkflowTemplate {
+  return {
+    ...raw,
+    createdAt: raw.createdAt ? new Date(raw.createdAt) : undefined,
+  }
+}
+
+// Error raised when a template doesn't exist, can't be saved or gets
+// parameters that don't match it
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'invalid' | 'conflict',
+    readonly errors: string[] = []
+  ) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+function matchesType(type: TemplateParameterType, value: unknown): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return (
+        value !== null && typeof value === 'object' && !Array.isArray(value)
+      )
+    default:
+      return typeof value === type
+  }
+}
+
+// Check parameter values against a template's parameters and fill in the
+// defaults of those left out
+export function resolveTemplateParams(
+  template: WorkflowTemplate,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const errors: string[] = []
+  const params: Record<string, unknown> = {}
+
+  for (const name of Object.keys(values)) {
+    if (!template.parameters.some((p) => p.name === name)) {
+      errors.push(`Unknown parameter '${name}'`)
+    }
+  }
+  for (const parameter of template.parameters) {
+    const value = values[parameter.name] ?? parameter.default
+    if (value === undefined) {
+      errors.push(`Parameter '${parameter.name}' is required`)
+    } else if (!matchesType(parameter.type, value)) {
+      errors.push(`Parameter '${parameter.name}' must be a ${parameter.type}`)
+    } else {
+      params[parameter.name] = value
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new TemplateError(
+      `Invalid parameters for template ${template.id}: ${errors.join('; ')}`,
+      'invalid',
+      errors
+    )
+  }
+  return params
+}
+
+// Substitute parameters into a template's definition
+export function instantiateTemplate(
+  template: WorkflowTemplate,
+  values: Record<string, unknown>
+): WorkflowDefinitionInput {
+  const params = resolveTemplateParams(template, values)
+  const context = {
+    workflow: { id: '', name: template.name, data: {} },
+    steps: {},
+    params,
+  }
+  try {
+    return resolveTemplate(structuredClone(template.definition), context, [
+      'params',
+    ])
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new TemplateError(message, 'invalid', [message])
+  }
+}
+
+// Values standing in for parameters without a default when a new template's
+// definition is validated
+const SAMPLE_VALUES: Record<TemplateParameterType, unknown> = {
+  string: 'sample',
+  number: 0,
+  boolean: false,
+  array: [],
+  object: {},
+}
+
+// Template as submitted by a client
+export interface TemplateInput {
+  id: string
+  name: string
+  description?: string
+  parameters: TemplateParameter[]
+  definition: WorkflowDefinitionInput
+}
+
+const templateInputSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      'must be lowercase letters, digits and dashes'
+    ),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  parameters: z.array(templateParameterSchema).default([]),
+  definition: z.record(z.unknown()),
+})
+
+export function parseTemplateInput(body: unknown): TemplateInput {
+  const parsed = templateInputSchema.safeParse(body)
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map(
+      (issue) => `${issue.path.join('.') || 'template'}: ${issue.message}`
+    )
+    throw new TemplateError(
+      `Invalid template: ${errors.join('; ')}`,
+      'invalid',
+      errors
+    )
+  }
+  return {
+    ...parsed.data,
+    definition: normalizeWorkflowDefinition(parsed.data.definition),
+  }
+}
+
+export class WorkflowTemplateRegistry {
+  // Versions of the templates saved in the store, oldest first
+  private saved: WorkflowTemplate[] = []
+  private started = false
+
+  constructor(
+    private store: WorkflowStore,
+    private builtIns: WorkflowTemplate[] = BUILT_IN_TEMPLATES
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return
+    }
+    this.started = true
+    this.saved = await this.store.loadTemplates()
+  }
+
+  // Latest version of every template
+  listTemplates(): WorkflowTemplate[] {
+    const ids = new Set(this.getAll().map((t) => t.id))
+    return Array.from(ids)
+      .sort()
+      .map((id) => this.getTemplate(id)!)
+  }
+
+  // A version of a template, by default its latest
+  getTemplate(id: string, version?: number): WorkflowTemplate | null {
+    const versions = this.getAll().filter((t) => t.id === id)
+    const template =
+      version === undefined
+        ? versions[versions.length - 1]
+        : versions.find((t) => t.version === version)
+    return template ? structuredClone(template) : null
+  }
+
+  listVersions(id: string): number[] {
+    return this.getAll()
+      .filter((t) => t.id === id)
+      .map((t) => t.version)
+  }
+
+  // Save a template, as the next version when one with the same id exists.
+  // Built-in templates can't be changed.
+  async createTemplate(input: TemplateInput): Promise<WorkflowTemplate> {
+    if (this.builtIns.some((t) => t.id === input.id)) {
+      throw new TemplateError(
+        `Template ${input.id} is built in and can't be changed`,
+        'conflict'
+      )
+    }
+
+    const template: WorkflowTemplate = {
+      id: input.id,
+      version: this.listVersions(input.id).length + 1,
+      name: input.name,
+      description: input.description ?? '',
+      parameters: input.parameters,
+      definition: input.definition,
+      builtIn: false,
+      createdAt: new Date(),
+    }
+
+    const samples = Object.fromEntries(
+      template.parameters.map((p) => [
+        p.name,
+        p.default ?? SAMPLE_VALUES[p.type],
+      ])
+    )
+    const validation = validateWorkflowDefinition(
+      instantiateTemplate(template, samples)
+    )
+    if (!validation.valid) {
+      throw new WorkflowValidationError(validation.errors)
+    }
+
+    await this.store.saveTemplate(template)
+    this.saved.push(template)
+    return structuredClone(template)
+  }
+
+  // Definition of a workflow created from a template
+  instantiate(
+    id: string,
+    params: Record<string, unknown>,
+    version?: number
+  ): { template: WorkflowTemplate; definition: WorkflowDefinitionInput } {
+    const template = this.getTemplate(id, version)
+    if (!template) {
+      throw new TemplateError(
+        version === undefined
+          ? `Template not found: ${id}`
+          : `Template not found: ${id} version ${version}`,
+        'not_found'
+      )
+    }
+    return { template, definition: instantiateTemplate(template, params) }
+  }
+
+  private getAll(): WorkflowTemplate[] {
+    return [...this.builtIns, ...this.saved]
+  }
+}
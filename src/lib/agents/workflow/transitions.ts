@@ -0,0 +1,87 @@
+/**
+ * Workflow Transitions
+ *
+ * This module defines the control actions a workflow accepts (start, pause,
+ * resume and cancel) and the states of a workflow each action applies to.
+ */
+
+import type { Workflow } from './index'
+
+export type WorkflowAction = 'start' | 'pause' | 'resume' | 'cancel'
+
+export const WORKFLOW_ACTIONS: WorkflowAction[] = [
+  'start',
+  'pause',
+  'resume',
+  'cancel',
+]
+
+// Lifecycle state of a workflow. `created` workflows haven't been started;
+// `waiting` workflows are running but hold on an approval. `compensating`
+// workflows are undoing their completed steps after a failure or a
+// cancellation, and end `compensated` once all of them were undone.
+export type WorkflowState =
+  | 'created'
+  | 'running'
+  | 'waiting'
+  | 'paused'
+  | 'compensating'
+  | 'completed'
+  | 'compensated'
+  | 'failed'
+
+// Workflow with the state that decides which actions it accepts, and the
+// latest version of its definition, which it may not run yet
+export type WorkflowSnapshot = Workflow & {
+  state: WorkflowState
+  latestVersion: number
+}
+
+const ALLOWED_STATES: Record<WorkflowAction, WorkflowState[]> = {
+  start: ['created'],
+  pause: ['created', 'running', 'waiting'],
+  resume: ['paused'],
+  cancel: ['created', 'running', 'waiting', 'paused'],
+}
+
+// Error raised when a workflow doesn't exist, already exists or can't take
+// an action
+export class WorkflowTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'conflict',
+    readonly state?: WorkflowState
+  ) {
+    super(message)
+    this.name = 'WorkflowTransitionError'
+  }
+}
+
+// A workflow has started once it has a run or any step left pending
+export function getWorkflowState(
+  workflow: Workflow,
+  hasRun = false
+): WorkflowState {
+  switch (workflow.status) {
+    case 'completed':
+    case 'failed':
+    case 'paused':
+    case 'compensating':
+    case 'compensated':
+      return workflow.status
+    default:
+      if (workflow.steps.some((step) => step.status === 'waiting')) {
+        return 'waiting'
+      }
+      return hasRun || workflow.steps.some((step) => step.status !== 'pending')
+        ? 'running'
+        : 'created'
+  }
+}
+
+export function canTransition(
+  state: WorkflowState,
+  action: WorkflowAction
+): boolean {
+  return ALLOWED_STATES[action].includes(state)
+}
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Unsubscribe, agentEventBus } from '../index'
+import { MemoryWorkflowStore } from './store'
+import { TriggerInput, WorkflowTriggerManager } from './triggers'
+import type { WorkflowDefinitionInput } from './validation'
+
+const definition: WorkflowDefinitionInput = {
+  name: 'Overdue invoice',
+  description: 'Reminds a customer of an overdue invoice',
+  data: { channel: 'email' },
+  steps: [
+    {
+      id: 'remind',
+      agentType: 'customer_service',
+      action: 'customer_communication',
+      config: { invoiceId: '{{workflow.data.invoiceId}}' },
+      dependsOn: [],
+    },
+  ],
+}
+
+const overdue: TriggerInput = {
+  name: 'Remind overdue invoices',
+  event: 'invoice:overdue',
+  when: { path: 'event.amountDue', operator: 'gt', value: 100 },
+  data: { invoiceId: '{{event.invoiceId}}' },
+  dedupeKey: '{{event.invoiceId}}',
+  definition,
+}
+
+// Let the manager's store calls and launches run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+describe('WorkflowTriggerManager', () => {
+  let store: MemoryWorkflowStore
+  let launched: WorkflowDefinitionInput[]
+  let failLaunches: boolean
+  let manager: WorkflowTriggerManager
+  let events: Array<{ name: string; data: unknown }>
+  let unsubscribe: Unsubscribe
+
+  beforeEach(async () => {
+    store = new MemoryWorkflowStore()
+    launched = []
+    failLaunches = false
+    manager = new WorkflowTriggerManager(store, async (launchedDefinition) => {
+      if (failLaunches) {
+        throw new Error('Orchestrator unavailable')
+      }
+      launched.push(launchedDefinition)
+      return `workflow-${launched.length}`
+    })
+    await manager.start()
+    events = []
+    unsubscribe = agentEventBus.subscribeToEvent('trigger:*', (data, name) => {
+      events.push({ name, data })
+    })
+  })
+
+  afterEach(() => {
+    manager.stop()
+    unsubscribe()
+  })
+
+  it('starts workflows for events that match its condition', async () => {
+    await manager.createTrigger(overdue)
+
+    agentEventBus.publishEvent('invoice:overdue', {
+      invoiceId: 'inv_1',
+      amountDue: 250,
+    })
+    agentEventBus.publishEvent('invoice:overdue', {
+      invoiceId: 'inv_2',
+      amountDue: 50,
+    })
+    agentEventBus.publishEvent('invoice:paid', {
+      invoiceId: 'inv_3',
+      amountDue: 250,
+    })
+    await settle()
+
+    expect(launched).toHaveLength(1)
+    expect(launched[0].data).toEqual({ channel: 'email', invoiceId: 'inv_1' })
+  })
+
+  it('passes the payload as event when nothing is mapped', async () => {
+    const trigger = await manager.createTrigger({
+      ...overdue,
+      event: 'invoice:*',
+      when: undefined,
+      data: undefined,
+    })
+
+    agentEventBus.publishEvent('invoice:overdue', { invoiceId: 'inv_1' })
+    await settle()
+
+    expect(launched[0].data).toEqual({
+      channel: 'email',
+      event: { invoiceId: 'inv_1' },
+    })
+    expect(manager.getTrigger(trigger.id)).toMatchObject({
+      lastWorkflowId: 'workflow-1',
+    })
+  })
+
+  it('starts one workflow for an event delivered twice', async () => {
+    const trigger = await manager.createTrigger(overdue)
+
+    const event = { invoiceId: 'inv_1', amountDue: 250 }
+    agentEventBus.publishEvent('invoice:overdue', event)
+    await settle()
+    agentEventBus.publishEvent('invoice:overdue', { ...event, retried: true })
+    await settle()
+
+    expect(launched).toHaveLength(1)
+    expect(events).toContainEqual({
+      name: 'trigger:duplicate',
+      data: {
+        triggerId: trigger.id,
+        eventName: 'invoice:overdue',
+        dedupeKey: 'inv_1',
+      },
+    })
+  })
+
+  it('lets an event that failed to start a workflow try again', async () => {
+    await manager.createTrigger(overdue)
+    const event = { invoiceId: 'inv_1', amountDue: 250 }
+
+    failLaunches = true
+    agentEventBus.publishEvent('invoice:overdue', event)
+    await settle()
+    expect(events).toContainEqual({
+      name: 'trigger:failed',
+      data: expect.objectContaining({ error: 'Orchestrator unavailable' }),
+    })
+
+    failLaunches = false
+    agentEventBus.publishEvent('invoice:overdue', event)
+    await settle()
+
+    expect(launched).toHaveLength(1)
+    expect(events.map((e) => e.name)).not.toContain('trigger:duplicate')
+  })
+
+  it('rejects triggers on the platform events', async () => {
+    await expect(
+      manager.createTrigger({ ...overdue, event: 'workflow:*' })
+    ).rejects.toThrow('Triggers cannot listen to workflow events')
+  })
+})
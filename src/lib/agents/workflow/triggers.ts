@@ -0,0 +1,389 @@
+/**
+ * Workflow Triggers
+ *
+ * This module defines triggers that start a workflow when a matching event is
+ * published on the agent event bus, e.g. an invoice becoming overdue. A
+ * trigger filters events on their payload with a step condition, maps the
+ * payload into the new workflow's data and derives a deduplication key, so
+ * the same event never starts two workflows. The trigger manager keeps the
+ * triggers in the workflow store and listens to the bus for them.
+ */
+
+import { createHash } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { Unsubscribe, agentEventBus, compileEventPattern } from '../index'
+import { PLATFORM_NAMESPACES } from '../events'
+import { StepCondition, evaluateCondition } from './conditions'
+import { ExpressionContext, resolveTemplate } from './expressions'
+import type { WorkflowStore } from './store'
+import {
+  WorkflowDefinitionInput,
+  WorkflowValidationIssue,
+  normalizeWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './validation'
+
+// Workflow Trigger Interface
+export interface WorkflowTrigger {
+  id: string
+  name: string
+  // Event name or pattern, e.g. `invoice:overdue` or `lead:*`
+  event: string
+  // Condition on the event, referenced as `event` (payload) and `eventName`
+  when?: StepCondition
+  // Workflow data mapped from the event, e.g. `{ "invoiceId":
+  // "{{event.invoiceId}}" }`. Without it the payload is passed as `event`.
+  data?: Record<string, unknown>
+  // Template identifying an event, e.g. `{{event.invoiceId}}`. Defaults to a
+  // hash of the event name and payload.
+  dedupeKey?: string
+  enabled: boolean
+  // Definition each triggered workflow is created from
+  definition: WorkflowDefinitionInput
+  lastFiredAt?: Date
+  lastWorkflowId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export function reviveTrigger(raw: WorkflowTrigger): WorkflowTrigger {
+  return {
+    ...raw,
+    lastFiredAt: raw.lastFiredAt ? new Date(raw.lastFiredAt) : undefined,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  }
+}
+
+function buildTriggerContext(
+  trigger: WorkflowTrigger,
+  eventName: string,
+  payload: unknown
+): ExpressionContext {
+  return {
+    workflow: {
+      id: '',
+      name: trigger.definition.name,
+      data: trigger.definition.data,
+    },
+    steps: {},
+    event: payload,
+    eventName,
+  }
+}
+
+// Whether an event starts the trigger's workflow
+export function matchesTrigger(
+  trigger: WorkflowTrigger,
+  eventName: string,
+  payload: unknown
+): boolean {
+  if (!trigger.enabled || !compileEventPattern(trigger.event).test(eventName)) {
+    return false
+  }
+  return (
+    !trigger.when ||
+    evaluateCondition(
+      trigger.when,
+      buildTriggerContext(trigger, eventName, payload)
+    )
+  )
+}
+
+// Data of the workflow started for an event: the definition's data with the
+// mapped event fields on top
+export function getTriggerData(
+  trigger: WorkflowTrigger,
+  eventName: string,
+  payload: unknown
+): Record<string, unknown> {
+  const mapped = trigger.data
+    ? resolveTemplate(
+        trigger.data,
+        buildTriggerContext(trigger, eventName, payload)
+      )
+    : { event: payload }
+  return { ...trigger.definition.data, ...mapped }
+}
+
+export function getDedupeKey(
+  trigger: WorkflowTrigger,
+  eventName: string,
+  payload: unknown
+): string {
+  if (trigger.dedupeKey) {
+    const key = resolveTemplate(
+      trigger.dedupeKey,
+      buildTriggerContext(trigger, eventName, payload)
+    )
+    return typeof key === 'string' ? key : JSON.stringify(key)
+  }
+  return createHash('sha256')
+    .update(`${eventName}:${JSON.stringify(payload)}`)
+    .digest('hex')
+}
+
+// First platform namespace whose events a trigger pattern matches, e.g.
+// `workflow` for `workflow:created`, `*:created` or `**`
+function matchedPlatformNamespace(pattern: string): string | undefined {
+  // The namespace is matched by the pattern's first segment, or by what
+  // comes before a `**` that can span it
+  const wildcard = pattern.indexOf('**')
+  const separator = pattern.indexOf(':')
+  const head =
+    wildcard !== -1 && (separator === -1 || wildcard < separator)
+      ? pattern.slice(0, wildcard + 2)
+      : pattern.split(':')[0]
+  const matcher = compileEventPattern(head)
+  return PLATFORM_NAMESPACES.find((namespace) => matcher.test(namespace))
+}
+
+// Fields a client sets on a trigger
+export interface TriggerInput {
+  name: string
+  event: string
+  when?: StepCondition
+  data?: Record<string, unknown>
+  dedupeKey?: string
+  enabled?: boolean
+  definition: WorkflowDefinitionInput
+}
+
+// Creates and starts a workflow for an event, returning the workflow id
+export type TriggerLauncher = (
+  definition: WorkflowDefinitionInput,
+  trigger: { triggerId: string; eventName: string }
+) => Promise<string>
+
+// Error raised for triggers that can't be saved
+export class TriggerValidationError extends Error {
+  constructor(
+    message: string,
+    readonly errors: WorkflowValidationIssue[] = []
+  ) {
+    super(message)
+    this.name = 'TriggerValidationError'
+  }
+}
+
+// Read the trigger fields present in a JSON request body
+export function parseTriggerInput(
+  body: Record<string, unknown>
+): Partial<TriggerInput> {
+  const input: Partial<TriggerInput> = {}
+  if ('name' in body) input.name = body.name as string
+  if ('event' in body) input.event = body.event as string
+  if ('when' in body) input.when = (body.when as StepCondition) || undefined
+  if ('data' in body) {
+    input.data = (body.data as Record<string, unknown>) || undefined
+  }
+  if ('dedupeKey' in body) {
+    input.dedupeKey = (body.dedupeKey as string) || undefined
+  }
+  if ('enabled' in body) input.enabled = Boolean(body.enabled)
+  if (body.definition && typeof body.definition === 'object') {
+    input.definition = normalizeWorkflowDefinition(body.definition)
+  }
+  return input
+}
+
+export class WorkflowTriggerManager {
+  private triggers: Map<string, WorkflowTrigger> = new Map()
+  private unsubscribe?: Unsubscribe
+
+  constructor(
+    private store: WorkflowStore,
+    private launch: TriggerLauncher
+  ) {}
+
+  // Load the saved triggers and start listening for their events
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      return
+    }
+    const triggers = await this.store.loadTriggers()
+    this.triggers = new Map(triggers.map((t) => [t.id, t]))
+    this.unsubscribe = agentEventBus.subscribeToEvent('**', (data, name) =>
+      this.handleEvent(name, data)
+    )
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+  }
+
+  listTriggers(): WorkflowTrigger[] {
+    return Array.from(this.triggers.values()).map((t) => structuredClone(t))
+  }
+
+  getTrigger(id: string): WorkflowTrigger | null {
+    const trigger = this.triggers.get(id)
+    return trigger ? structuredClone(trigger) : null
+  }
+
+  async createTrigger(input: TriggerInput): Promise<WorkflowTrigger> {
+    const now = new Date()
+    const trigger: WorkflowTrigger = {
+      id: uuidv4(),
+      name: input.name,
+      event: input.event,
+      when: input.when,
+      data: input.data,
+      dedupeKey: input.dedupeKey,
+      enabled: input.enabled ?? true,
+      definition: input.definition,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.validate(trigger)
+
+    await this.store.saveTrigger(trigger)
+    this.triggers.set(trigger.id, trigger)
+    return structuredClone(trigger)
+  }
+
+  async updateTrigger(
+    id: string,
+    changes: Partial<TriggerInput>
+  ): Promise<WorkflowTrigger | null> {
+    const existing = this.triggers.get(id)
+    if (!existing) {
+      return null
+    }
+
+    const updated: WorkflowTrigger = {
+      ...existing,
+      ...changes,
+      id,
+      updatedAt: new Date(),
+    }
+    this.validate(updated)
+
+    await this.store.saveTrigger(updated)
+    this.triggers.set(id, updated)
+    return structuredClone(updated)
+  }
+
+  async deleteTrigger(id: string): Promise<boolean> {
+    if (!this.triggers.has(id)) {
+      return false
+    }
+    await this.store.deleteTrigger(id)
+    this.triggers.delete(id)
+    return true
+  }
+
+  private validate(trigger: WorkflowTrigger): void {
+    if (!trigger.name) {
+      throw new TriggerValidationError('Trigger name is required')
+    }
+    if (!trigger.event || typeof trigger.event !== 'string') {
+      throw new TriggerValidationError('Trigger event is required')
+    }
+    const namespace = matchedPlatformNamespace(trigger.event)
+    if (namespace) {
+      throw new TriggerValidationError(
+        `Triggers cannot listen to ${namespace} events`
+      )
+    }
+    if (trigger.when !== undefined && typeof trigger.when !== 'object') {
+      throw new TriggerValidationError('when must be a condition object')
+    }
+    if (trigger.data !== undefined && typeof trigger.data !== 'object') {
+      throw new TriggerValidationError('data must be an object')
+    }
+
+    const validation = validateWorkflowDefinition(trigger.definition)
+    if (!validation.valid) {
+      throw new TriggerValidationError(
+        'Invalid workflow definition',
+        validation.errors
+      )
+    }
+  }
+
+  private handleEvent(eventName: string, payload: unknown): void {
+    // The platform's own events never start workflows, so triggers can't loop
+    if (PLATFORM_NAMESPACES.includes(eventName.split(':')[0])) {
+      return
+    }
+
+    for (const trigger of this.triggers.values()) {
+      let matched: boolean
+      try {
+        matched = matchesTrigger(trigger, eventName, payload)
+      } catch (error) {
+        this.publishFailure(trigger, eventName, error)
+        continue
+      }
+      if (matched) {
+        void this.fire(trigger, eventName, payload)
+      }
+    }
+  }
+
+  private async fire(
+    trigger: WorkflowTrigger,
+    eventName: string,
+    payload: unknown
+  ): Promise<void> {
+    try {
+      const dedupeKey = getDedupeKey(trigger, eventName, payload)
+      const definition = {
+        ...trigger.definition,
+        data: getTriggerData(trigger, eventName, payload),
+      }
+
+      if (!(await this.store.claimTriggerEvent(trigger.id, dedupeKey))) {
+        agentEventBus.publishEvent('trigger:duplicate', {
+          triggerId: trigger.id,
+          eventName,
+          dedupeKey,
+        })
+        return
+      }
+
+      let workflowId: string
+      try {
+        workflowId = await this.launch(definition, {
+          triggerId: trigger.id,
+          eventName,
+        })
+      } catch (error) {
+        // The event didn't start a workflow, so a redelivery may try again
+        await this.store.releaseTriggerEvent(trigger.id, dedupeKey)
+        throw error
+      }
+
+      // The trigger may have been updated or deleted in the meantime
+      const current = this.triggers.get(trigger.id)
+      if (current) {
+        current.lastFiredAt = new Date()
+        current.lastWorkflowId = workflowId
+        await this.store.saveTrigger(current)
+      }
+
+      agentEventBus.publishEvent('trigger:fired', {
+        triggerId: trigger.id,
+        eventName,
+        dedupeKey,
+        workflowId,
+      })
+    } catch (error) {
+      this.publishFailure(trigger, eventName, error)
+    }
+  }
+
+  private publishFailure(
+    trigger: WorkflowTrigger,
+    eventName: string,
+    error: unknown
+  ): void {
+    agentEventBus.publishEvent('trigger:failed', {
+      triggerId: trigger.id,
+      eventName,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
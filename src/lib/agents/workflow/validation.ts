@@ -0,0 +1,562 @@
+/**
+ * Workflow Definition Validation
+ *
+ * This module checks a workflow definition before it is accepted: the shape
+ * is validated against the zod workflow schema, then the step graph is checked
+ * for duplicate ids, dangling references, cycles and missing roots, and every
+ * step action and compensating action against the capabilities of its agent
+ * type. Approval and sub-workflow steps are checked for their own settings
+ * instead, and can't be compensated; map steps are checked for their
+ * settings on top. Retry policies, conditions and output mappings are checked
+ * for every step. Each error points at the offending step so the API and the
+ * workflow editor can report it inline.
+ */
+
+import { z } from 'zod'
+import { AGENT_CAPABILITIES, AgentType } from '../index'
+import { workflowDefinitionSchema } from '../../db/schema'
+import { APPROVAL_ACTION, approvalStepConfigSchema } from './approvals'
+import { SUB_WORKFLOW_ACTION, subWorkflowStepConfigSchema } from './templates'
+import { stepCompensationSchema } from './compensation'
+import { mapStepConfigSchema } from './map'
+import { checkWritablePath } from './expressions'
+import { retryPolicySchema } from './retry'
+import { stepConditionSchema } from './conditions'
+import { v4 as uuidv4 } from 'uuid'
+
+// Validation Error Codes
+export type WorkflowValidationCode =
+  | 'invalid_schema'
+  | 'duplicate_step_id'
+  | 'unknown_dependency'
+  | 'unknown_failure_step'
+  | 'dependency_cycle'
+  | 'unreachable_step'
+  | 'no_root_step'
+  | 'unsupported_action'
+  | 'invalid_approval'
+  | 'invalid_sub_workflow'
+  | 'invalid_map'
+  | 'invalid_compensation'
+  | 'invalid_output'
+  | 'invalid_retry'
+  | 'invalid_condition'
+  // Workflow files only: the file isn't valid YAML or JSON
+  | 'invalid_syntax'
+
+// Validation Error Interface
+export interface WorkflowValidationIssue {
+  code: WorkflowValidationCode
+  message: string
+  stepId?: string
+  path: (string | number)[]
+}
+
+// Validation Result Interface
+export interface WorkflowValidationResult {
+  valid: boolean
+  errors: WorkflowValidationIssue[]
+}
+
+// Error thrown when an invalid definition reaches the orchestrator
+export class WorkflowValidationError extends Error {
+  errors: WorkflowValidationIssue[]
+
+  constructor(errors: WorkflowValidationIssue[]) {
+    super(
+      `Invalid workflow definition: ${errors.map((e) => e.message).join('; ')}`
+    )
+    this.name = 'WorkflowValidationError'
+    this.errors = errors
+  }
+}
+
+// Step fields the graph checks rely on
+interface StepDefinition {
+  id?: string
+  type?: string
+  agentType?: string
+  action?: string
+  dependsOn?: string[]
+  onFailure?: string
+  approval?: unknown
+  subWorkflow?: unknown
+  map?: unknown
+  compensation?: unknown
+  retry?: unknown
+  when?: unknown
+  outputs?: unknown
+}
+
+// Output mappings, from paths to expressions
+const outputsSchema = z.record(z.string())
+
+// Definition as submitted by a client, with the defaults filled in by
+// normalizeWorkflowDefinition. It still has to be validated.
+export interface WorkflowDefinitionInput {
+  name: string
+  description: string
+  steps: Record<string, unknown>[]
+  data: Record<string, unknown>
+  // Values the workflow hands to a parent workflow that runs it as a
+  // sub-workflow, as expressions resolved when it completes
+  outputs?: Record<string, string>
+}
+
+// Fill in what clients may leave out of a definition: step ids, configs and
+// dependency lists, the description and the workflow data. Steps that aren't
+// objects are left as they are for validation to report.
+export function normalizeWorkflowDefinition(body: {
+  name?: unknown
+  description?: unknown
+  steps?: unknown
+  data?: unknown
+  outputs?: unknown
+}): WorkflowDefinitionInput {
+  return {
+    name: body.name as string,
+    description: (body.description as string) || 'Automated business workflow',
+    steps: Array.isArray(body.steps)
+      ? body.steps.map((step) =>
+          step !== null && typeof step === 'object' && !Array.isArray(step)
+            ? {
+                ...step,
+                id: step.id || uuidv4(),
+                config: step.config || {},
+                dependsOn: step.dependsOn || [],
+              }
+            : step
+        )
+      : (body.steps as WorkflowDefinitionInput['steps']),
+    data: (body.data as WorkflowDefinitionInput['data']) || {},
+    outputs: body.outputs as WorkflowDefinitionInput['outputs'],
+  }
+}
+
+export interface WorkflowValidationOptions {
+  capabilities?: Partial<Record<AgentType, string[]>>
+}
+
+export function validateWorkflowDefinition(
+  definition: unknown,
+  options: WorkflowValidationOptions = {}
+): WorkflowValidationResult {
+  const errors: WorkflowValidationIssue[] = []
+  const steps: StepDefinition[] = Array.isArray(
+    (definition as { steps?: unknown })?.steps
+  )
+    ? (definition as { steps: StepDefinition[] }).steps
+    : []
+
+  // Shape. Approval and sub-workflow steps run on the orchestrator, whatever
+  // agent type and action they name.
+  const parsed = workflowDefinitionSchema.safeParse(
+    steps.some(getOrchestratorAction)
+      ? {
+          ...(definition as object),
+          steps: steps.map((step) =>
+            getOrchestratorAction(step)
+              ? {
+                  ...step,
+                  agentType: AgentType.WORKFLOW,
+                  action: getOrchestratorAction(step),
+                }
+              : step
+          ),
+        }
+      : definition
+  )
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const stepIndex =
+        issue.path[0] === 'steps' && typeof issue.path[1] === 'number'
+          ? issue.path[1]
+          : undefined
+      errors.push({
+        code: 'invalid_schema',
+        message: `${issue.path.join('.') || 'workflow'}: ${issue.message}`,
+        stepId: stepIndex !== undefined ? steps[stepIndex]?.id : undefined,
+        path: issue.path,
+      })
+    }
+  }
+
+  // Duplicate ids
+  const stepsById = new Map<string, StepDefinition>()
+  steps.forEach((step, index) => {
+    if (!step?.id) {
+      return
+    }
+    if (stepsById.has(step.id)) {
+      errors.push({
+        code: 'duplicate_step_id',
+        message: `Step id '${step.id}' is used by more than one step`,
+        stepId: step.id,
+        path: ['steps', index, 'id'],
+      })
+      return
+    }
+    stepsById.set(step.id, step)
+  })
+
+  // Dangling references
+  steps.forEach((step, index) => {
+    const dependsOn = step?.dependsOn || []
+    dependsOn.forEach((dependencyId, dependencyIndex) => {
+      if (!stepsById.has(dependencyId)) {
+        errors.push({
+          code: 'unknown_dependency',
+          message: `Step '${step.id}' depends on unknown step '${dependencyId}'`,
+          stepId: step.id,
+          path: ['steps', index, 'dependsOn', dependencyIndex],
+        })
+      }
+    })
+    if (step?.onFailure && !stepsById.has(step.onFailure)) {
+      errors.push({
+        code: 'unknown_failure_step',
+        message: `Step '${step.id}' routes failures to unknown step '${step.onFailure}'`,
+        stepId: step.id,
+        path: ['steps', index, 'onFailure'],
+      })
+    }
+  })
+
+  errors.push(...validateStepGraph(steps, stepsById))
+
+  // Actions against agent capabilities
+  const capabilities = { ...AGENT_CAPABILITIES, ...options.capabilities }
+  steps.forEach((step, index) => {
+    if (getOrchestratorAction(step)) {
+      return
+    }
+    const supported = capabilities[step?.agentType as AgentType]
+    if (!supported || !step.action || supported.includes(step.action)) {
+      return
+    }
+    errors.push({
+      code: 'unsupported_action',
+      message: `Action '${step.action}' is not supported by ${
+        step.agentType
+      } agents (supported: ${supported.join(', ')})`,
+      stepId: step.id,
+      path: ['steps', index, 'action'],
+    })
+  })
+
+  // Approval settings
+  steps.forEach((step, index) => {
+    if (!isApprovalStep(step)) {
+      return
+    }
+    const approval = approvalStepConfigSchema.safeParse(step.approval)
+    if (approval.success) {
+      return
+    }
+    for (const issue of approval.error.issues) {
+      const path = ['approval', ...issue.path]
+      errors.push({
+        code: 'invalid_approval',
+        message: `${path.join('.')}: ${issue.message}`,
+        stepId: step.id,
+        path: ['steps', index, ...path],
+      })
+    }
+  })
+
+  // Compensating actions, against the same capabilities
+  steps.forEach((step, index) => {
+    if (step?.compensation === undefined) {
+      return
+    }
+    const path = ['steps', index, 'compensation']
+    if (getOrchestratorAction(step)) {
+      errors.push({
+        code: 'invalid_compensation',
+        message: `Step '${step.id}' is a ${step.type} step and can't be compensated`,
+        stepId: step.id,
+        path,
+      })
+      return
+    }
+    const compensation = stepCompensationSchema.safeParse(step.compensation)
+    if (!compensation.success) {
+      for (const issue of compensation.error.issues) {
+        errors.push({
+          code: 'invalid_compensation',
+          message: `${['compensation', ...issue.path].join('.')}: ${
+            issue.message
+          }`,
+          stepId: step.id,
+          path: [...path, ...issue.path],
+        })
+      }
+      return
+    }
+    const supported = capabilities[step.agentType as AgentType]
+    const { action } = compensation.data
+    if (supported && !supported.includes(action)) {
+      errors.push({
+        code: 'unsupported_action',
+        message: `Compensating action '${action}' is not supported by ${
+          step.agentType
+        } agents (supported: ${supported.join(', ')})`,
+        stepId: step.id,
+        path: [...path, 'action'],
+      })
+    }
+  })
+
+  // Sub-workflow settings
+  steps.forEach((step, index) => {
+    if (step?.type !== 'workflow') {
+      return
+    }
+    const subWorkflow = subWorkflowStepConfigSchema.safeParse(
+      step.subWorkflow
+    )
+    if (subWorkflow.success) {
+      return
+    }
+    for (const issue of subWorkflow.error.issues) {
+      const path = ['subWorkflow', ...issue.path]
+      errors.push({
+        code: 'invalid_sub_workflow',
+        message: `${path.join('.')}: ${issue.message}`,
+        stepId: step.id,
+        path: ['steps', index, ...path],
+      })
+    }
+  })
+
+  // Map settings
+  steps.forEach((step, index) => {
+    if (step?.type !== 'map') {
+      return
+    }
+    const map = mapStepConfigSchema.safeParse(step.map)
+    if (map.success) {
+      return
+    }
+    for (const issue of map.error.issues) {
+      const path = ['map', ...issue.path]
+      errors.push({
+        code: 'invalid_map',
+        message: `${path.join('.')}: ${issue.message}`,
+        stepId: step.id,
+        path: ['steps', index, ...path],
+      })
+    }
+  })
+
+  // Retry policies, conditions and output mappings
+  const fieldChecks = [
+    { field: 'retry', code: 'invalid_retry', schema: retryPolicySchema },
+    { field: 'when', code: 'invalid_condition', schema: stepConditionSchema },
+    { field: 'outputs', code: 'invalid_output', schema: outputsSchema },
+  ] as const
+  steps.forEach((step, index) => {
+    for (const { field, code, schema } of fieldChecks) {
+      if (step?.[field] === undefined) {
+        continue
+      }
+      const parsed = schema.safeParse(step[field])
+      if (parsed.success) {
+        continue
+      }
+      for (const issue of flattenIssues(parsed.error.issues)) {
+        const path = [field, ...issue.path]
+        errors.push({
+          code,
+          message: `${path.join('.')}: ${issue.message}`,
+          stepId: step.id,
+          path: [
+            'steps',
+            index,
+            ...(issue.code === 'unrecognized_keys'
+              ? [...path, issue.keys[0]]
+              : path),
+          ],
+        })
+      }
+    }
+  })
+  const outputs = (definition as { outputs?: unknown })?.outputs
+  if (outputs !== undefined) {
+    const parsed = outputsSchema.safeParse(outputs)
+    for (const issue of parsed.success ? [] : parsed.error.issues) {
+      const path = ['outputs', ...issue.path]
+      errors.push({
+        code: 'invalid_output',
+        message: `${path.join('.')}: ${issue.message}`,
+        path,
+      })
+    }
+  }
+
+  // Paths step outputs are written to in the workflow data
+  steps.forEach((step, index) => {
+    if (step?.outputs === null || typeof step?.outputs !== 'object') {
+      return
+    }
+    for (const path of Object.keys(step.outputs)) {
+      const reason = checkWritablePath(path)
+      if (reason) {
+        errors.push({
+          code: 'invalid_output',
+          message: `Step '${step.id}' outputs: ${reason}`,
+          stepId: step.id,
+          path: ['steps', index, 'outputs', path],
+        })
+      }
+    }
+  })
+
+  return { valid: errors.length === 0, errors }
+}
+
+// Issues of the alternative of a union that came closest to matching, such
+// as the comparison among the kinds of conditions
+export function flattenIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code !== 'invalid_union') {
+      return [issue]
+    }
+    const closest = issue.unionErrors.reduce((best, error) =>
+      error.issues.length < best.issues.length ? error : best
+    )
+    return flattenIssues(closest.issues)
+  })
+}
+
+function isApprovalStep(step: StepDefinition | undefined): boolean {
+  return step?.type === 'approval'
+}
+
+// Action of the step types the orchestrator runs itself
+function getOrchestratorAction(
+  step: StepDefinition | undefined
+): string | undefined {
+  switch (step?.type) {
+    case 'approval':
+      return APPROVAL_ACTION
+    case 'workflow':
+      return SUB_WORKFLOW_ACTION
+    default:
+      return undefined
+  }
+}
+
+// Check that every step can be reached from a root step. A step handling
+// another step's failure runs after that step, so it counts as a dependency.
+function validateStepGraph(
+  steps: StepDefinition[],
+  stepsById: Map<string, StepDefinition>
+): WorkflowValidationIssue[] {
+  const errors: WorkflowValidationIssue[] = []
+  const indexById = new Map<string, number>()
+  steps.forEach((step, index) => {
+    if (step?.id && !indexById.has(step.id)) {
+      indexById.set(step.id, index)
+    }
+  })
+
+  const upstream = new Map<string, string[]>()
+  for (const id of stepsById.keys()) {
+    upstream.set(id, [])
+  }
+  for (const step of stepsById.values()) {
+    for (const dependencyId of step.dependsOn || []) {
+      if (stepsById.has(dependencyId)) {
+        upstream.get(step.id!)!.push(dependencyId)
+      }
+    }
+    if (step.onFailure && stepsById.has(step.onFailure)) {
+      upstream.get(step.onFailure)!.push(step.id!)
+    }
+  }
+
+  if (stepsById.size === 0) {
+    return errors
+  }
+
+  const roots = Array.from(stepsById.keys()).filter(
+    (id) => upstream.get(id)!.length === 0
+  )
+  if (roots.length === 0) {
+    errors.push({
+      code: 'no_root_step',
+      message: 'Workflow has no root step: every step depends on another step',
+      path: ['steps'],
+    })
+  }
+
+  // Depth-first search for cycles
+  const visiting = new Set<string>()
+  const visited = new Set<string>()
+  const inCycle = new Set<string>()
+  const trail: string[] = []
+
+  const visit = (id: string) => {
+    if (visited.has(id)) {
+      return
+    }
+    if (visiting.has(id)) {
+      const cycle = [...trail.slice(trail.indexOf(id)), id]
+      const newSteps = cycle.slice(0, -1).filter((s) => !inCycle.has(s))
+      for (const stepId of newSteps) {
+        inCycle.add(stepId)
+        errors.push({
+          code: 'dependency_cycle',
+          message: `Step '${stepId}' is part of a dependency cycle: ${cycle.join(
+            ' -> '
+          )}`,
+          stepId,
+          path: ['steps', indexById.get(stepId)!, 'dependsOn'],
+        })
+      }
+      return
+    }
+
+    visiting.add(id)
+    trail.push(id)
+    for (const dependencyId of upstream.get(id)!) {
+      visit(dependencyId)
+    }
+    trail.pop()
+    visiting.delete(id)
+    visited.add(id)
+  }
+  for (const id of stepsById.keys()) {
+    visit(id)
+  }
+
+  // Steps downstream of a cycle can never run either
+  const runnable = new Set<string>()
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const [id, dependencies] of upstream) {
+      if (
+        !runnable.has(id) &&
+        !inCycle.has(id) &&
+        dependencies.every((dependencyId) => runnable.has(dependencyId))
+      ) {
+        runnable.add(id)
+        changed = true
+      }
+    }
+  }
+  for (const id of stepsById.keys()) {
+    if (!runnable.has(id) && !inCycle.has(id)) {
+      errors.push({
+        code: 'unreachable_step',
+        message: `Step '${id}' can never run because it depends on a cycle`,
+        stepId: id,
+        path: ['steps', indexById.get(id)!, 'dependsOn'],
+      })
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest'
+import { Workflow, WorkflowStepStatus } from './index'
+import type { WorkflowDefinitionInput } from './validation'
+import {
+  WorkflowVersion,
+  checkMigration,
+  checkRenamedSteps,
+  getStepMapping,
+} from './versions'
+
+function step(
+  id: string,
+  settings: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    id,
+    agentType: 'billing',
+    action: 'invoice_generation',
+    config: {},
+    dependsOn: [],
+    ...settings,
+  }
+}
+
+function definition(
+  steps: Record<string, unknown>[]
+): WorkflowDefinitionInput {
+  return {
+    name: 'Invoicing',
+    description: 'Invoices a customer',
+    data: {},
+    steps,
+  }
+}
+
+function version(
+  number: number,
+  steps: Record<string, unknown>[],
+  renamedSteps?: Record<string, string>
+): WorkflowVersion {
+  return {
+    workflowId: 'workflow-1',
+    version: number,
+    definition: definition(steps),
+    renamedSteps,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  }
+}
+
+// Workflow paused with its steps in the given statuses
+function pausedWorkflow(
+  steps: Record<string, unknown>[],
+  statuses: Record<string, WorkflowStepStatus>
+): Workflow {
+  return {
+    id: 'workflow-1',
+    steps: steps.map((s) => ({
+      ...s,
+      status: statuses[s.id as string] ?? WorkflowStepStatus.PENDING,
+    })),
+  } as unknown as Workflow
+}
+
+const invoice = step('invoice')
+const email = step('email', {
+  agentType: 'customer_service',
+  action: 'customer_communication',
+  dependsOn: ['invoice'],
+})
+
+describe('getStepMapping', () => {
+  // invoice becomes bill in version 2 and charge in version 3, which also
+  // drops email
+  const versions = [
+    version(1, [invoice, email]),
+    version(2, [step('bill'), { ...email, dependsOn: ['bill'] }], {
+      invoice: 'bill',
+    }),
+    version(3, [step('charge')], { bill: 'charge' }),
+  ]
+
+  it('follows renames across several versions', () => {
+    expect(getStepMapping(versions, 1, 2)).toEqual(
+      new Map([
+        ['invoice', 'bill'],
+        ['email', 'email'],
+      ])
+    )
+    expect(getStepMapping(versions, 1, 3)).toEqual(
+      new Map([['invoice', 'charge']])
+    )
+    expect(getStepMapping(versions, 2, 3)).toEqual(
+      new Map([['bill', 'charge']])
+    )
+  })
+})
+
+describe('checkRenamedSteps', () => {
+  const previous = definition([invoice, email])
+
+  it('accepts renames from old steps to new ones', () => {
+    const next = definition([step('bill'), { ...email, dependsOn: ['bill'] }])
+
+    expect(checkRenamedSteps(previous, next, { invoice: 'bill' })).toEqual([])
+  })
+
+  it('rejects renames of steps that do not exist', () => {
+    const next = definition([step('bill'), email])
+
+    expect(checkRenamedSteps(previous, next, { quote: 'receipt' })).toEqual([
+      "renamedSteps: 'quote' is not a step of the workflow",
+      "renamedSteps: 'receipt' is not a step of the new definition",
+    ])
+  })
+
+  it('rejects two steps becoming one', () => {
+    const next = definition([invoice])
+
+    expect(checkRenamedSteps(previous, next, { email: 'invoice' })).toEqual([
+      "Steps 'invoice' and 'email' would both become 'invoice'",
+    ])
+  })
+})
+
+describe('checkMigration', () => {
+  const identity = new Map([
+    ['invoice', 'invoice'],
+    ['email', 'email'],
+  ])
+
+  it('accepts a version that fits what already ran', () => {
+    const workflow = pausedWorkflow([invoice, email], {
+      invoice: WorkflowStepStatus.COMPLETED,
+    })
+    const target = definition([
+      step('bill'),
+      { ...email, config: { template: 'reminder' }, dependsOn: ['bill'] },
+    ])
+
+    expect(
+      checkMigration(
+        workflow,
+        target,
+        new Map([
+          ['invoice', 'bill'],
+          ['email', 'email'],
+        ])
+      )
+    ).toEqual([])
+  })
+
+  it('rejects removing a step that completed', () => {
+    const workflow = pausedWorkflow([invoice, email], {
+      invoice: WorkflowStepStatus.COMPLETED,
+    })
+
+    expect(
+      checkMigration(workflow, definition([step('email')]), new Map())
+    ).toEqual(["Step 'invoice' is completed and can't be removed"])
+  })
+
+  it('rejects changing the settings of a step in flight', () => {
+    const workflow = pausedWorkflow([invoice, email], {
+      invoice: WorkflowStepStatus.COMPLETED,
+      email: WorkflowStepStatus.IN_PROGRESS,
+    })
+    const target = definition([
+      { ...invoice, config: { currency: 'EUR' } },
+      { ...email, action: 'lead_scoring', retry: { maxAttempts: 2 } },
+    ])
+
+    // A completed step's config no longer matters
+    expect(checkMigration(workflow, target, identity)).toEqual([
+      "Step 'email' is in_progress and can't change its action",
+      "Step 'email' is in_progress and can't change its retry",
+    ])
+  })
+
+  it('rejects a started step depending on one that has not', () => {
+    const workflow = pausedWorkflow([invoice, step('reminder')], {
+      invoice: WorkflowStepStatus.IN_PROGRESS,
+    })
+    const target = definition([
+      { ...invoice, dependsOn: ['reminder'] },
+      step('reminder'),
+    ])
+
+    expect(
+      checkMigration(
+        workflow,
+        target,
+        new Map([
+          ['invoice', 'invoice'],
+          ['reminder', 'reminder'],
+        ])
+      )
+    ).toEqual([
+      "Step 'invoice' has started and can't depend on 'reminder', which hasn't",
+    ])
+  })
+})
@@ -0,0 +1,325 @@
+/**
+ * Workflow Definition Versions
+ *
+ * This module defines the numbered, immutable versions of a workflow's
+ * definition. Creating a workflow records version 1 and every edit records
+ * the next version; a workflow that has started keeps running the version it
+ * started with. An edit may give steps new ids, and the renames are kept with
+ * the version so steps can be matched up between any two versions, to diff
+ * them or to move a paused workflow to a newer version. A move is rejected
+ * when the newer version doesn't fit what already ran.
+ */
+
+import type { Workflow } from './index'
+import {
+  WorkflowDefinitionInput,
+  normalizeWorkflowDefinition,
+} from './validation'
+
+// Workflow Version Interface
+export interface WorkflowVersion {
+  workflowId: string
+  version: number
+  definition: WorkflowDefinitionInput
+  // Steps of the previous version that have a new id in this one, from old
+  // id to new id
+  renamedSteps?: Record<string, string>
+  createdAt: Date
+}
+
+// Error raised when a version doesn't exist, an edit renames steps that
+// don't exist or a workflow can't move to a version
+export class WorkflowVersionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'conflict' | 'invalid',
+    readonly errors: string[] = []
+  ) {
+    super(message)
+    this.name = 'WorkflowVersionError'
+  }
+}
+
+// Edit of a workflow's definition as submitted by a client. Fields left out
+// keep their value from the latest version, and `data` is merged into it.
+export interface WorkflowVersionInput {
+  name?: string
+  description?: string
+  steps?: Record<string, unknown>[]
+  data?: Record<string, unknown>
+  outputs?: Record<string, string>
+  renamedSteps?: Record<string, string>
+}
+
+export function parseWorkflowVersionInput(
+  body: Record<string, unknown>
+): WorkflowVersionInput {
+  const errors: string[] = []
+  if (body.steps !== undefined && !Array.isArray(body.steps)) {
+    errors.push('steps must be an array')
+  }
+  for (const field of ['data', 'outputs', 'renamedSteps']) {
+    const value = body[field]
+    if (
+      value !== undefined &&
+      (value === null || typeof value !== 'object' || Array.isArray(value))
+    ) {
+      errors.push(`${field} must be an object`)
+    }
+  }
+  const renamed = (body.renamedSteps ?? {}) as Record<string, unknown>
+  if (Object.values(renamed).some((id) => typeof id !== 'string')) {
+    errors.push('renamedSteps must map step ids to step ids')
+  }
+  if (errors.length > 0) {
+    throw new WorkflowVersionError(
+      `Invalid workflow edit: ${errors.join('; ')}`,
+      'invalid',
+      errors
+    )
+  }
+
+  return {
+    name: body.name as string | undefined,
+    description: body.description as string | undefined,
+    steps: body.steps as WorkflowVersionInput['steps'],
+    data: body.data as WorkflowVersionInput['data'],
+    outputs: body.outputs as WorkflowVersionInput['outputs'],
+    renamedSteps: body.renamedSteps as WorkflowVersionInput['renamedSteps'],
+  }
+}
+
+// Definition of the version following `latest` after an edit. It still has
+// to be validated.
+export function applyVersionInput(
+  latest: WorkflowDefinitionInput,
+  input: WorkflowVersionInput
+): WorkflowDefinitionInput {
+  return normalizeWorkflowDefinition({
+    name: input.name ?? latest.name,
+    description: input.description ?? latest.description,
+    steps: input.steps ?? structuredClone(latest.steps),
+    data: input.data ? { ...latest.data, ...input.data } : latest.data,
+    outputs: input.outputs ?? latest.outputs,
+  })
+}
+
+// Check that the renames of an edit go from steps of the previous version to
+// steps of the new one, and don't give two steps the same id
+export function checkRenamedSteps(
+  previous: WorkflowDefinitionInput,
+  next: WorkflowDefinitionInput,
+  renamedSteps: Record<string, string>
+): string[] {
+  const errors: string[] = []
+  const previousIds = previous.steps.map((step) => step.id as string)
+  const nextIds = new Set(next.steps.map((step) => step.id as string))
+
+  for (const [from, to] of Object.entries(renamedSteps)) {
+    if (!previousIds.includes(from)) {
+      errors.push(`renamedSteps: '${from}' is not a step of the workflow`)
+    }
+    if (!nextIds.has(to)) {
+      errors.push(`renamedSteps: '${to}' is not a step of the new definition`)
+    }
+  }
+
+  const sources = new Map<string, string>()
+  for (const id of previousIds) {
+    const target = renamedSteps[id] ?? id
+    const other = sources.get(target)
+    if (other !== undefined && nextIds.has(target)) {
+      errors.push(`Steps '${other}' and '${id}' would both become '${target}'`)
+    }
+    sources.set(target, id)
+  }
+  return errors
+}
+
+// Ids of the steps of version `from` in version `to`, following the renames
+// of the versions in between. Steps removed along the way are left out.
+export function getStepMapping(
+  versions: WorkflowVersion[],
+  from: number,
+  to: number
+): Map<string, string> {
+  const source = versions.find((v) => v.version === from)
+  const mapping = new Map<string, string>(
+    (source?.definition.steps ?? []).map((step) => [
+      step.id as string,
+      step.id as string,
+    ])
+  )
+
+  for (const version of versions) {
+    if (version.version <= from || version.version > to) {
+      continue
+    }
+    const ids = new Set(version.definition.steps.map((step) => step.id))
+    for (const [stepId, id] of mapping) {
+      const next = version.renamedSteps?.[id] ?? id
+      if (ids.has(next)) {
+        mapping.set(stepId, next)
+      } else {
+        mapping.delete(stepId)
+      }
+    }
+  }
+  return mapping
+}
+
+// Differences between two versions of a workflow
+export interface WorkflowVersionDiff {
+  workflowId: string
+  from: number
+  to: number
+  // Workflow fields that differ: name, description, data or outputs
+  changed: string[]
+  steps: {
+    // Ids in version `to`
+    added: string[]
+    // Ids in version `from`
+    removed: string[]
+    renamed: Record<string, string>
+    // Steps whose settings differ, by their id in version `to`
+    changed: { stepId: string; fields: string[] }[]
+  }
+}
+
+export function diffWorkflowVersions(
+  from: WorkflowVersion,
+  to: WorkflowVersion,
+  mapping: Map<string, string>
+): WorkflowVersionDiff {
+  const diff: WorkflowVersionDiff = {
+    workflowId: to.workflowId,
+    from: from.version,
+    to: to.version,
+    changed: (['name', 'description', 'data', 'outputs'] as const).filter(
+      (field) => !isSameValue(from.definition[field], to.definition[field])
+    ),
+    steps: { added: [], removed: [], renamed: {}, changed: [] },
+  }
+
+  const mapped = new Set(mapping.values())
+  for (const step of from.definition.steps) {
+    const id = step.id as string
+    const next = to.definition.steps.find((s) => s.id === mapping.get(id))
+    if (!next) {
+      diff.steps.removed.push(id)
+      continue
+    }
+    if (next.id !== id) {
+      diff.steps.renamed[id] = next.id as string
+    }
+    const fields = Array.from(
+      new Set([...Object.keys(step), ...Object.keys(next)])
+    ).filter(
+      (field) => field !== 'id' && !isSameValue(step[field], next[field])
+    )
+    if (fields.length > 0) {
+      diff.steps.changed.push({ stepId: next.id as string, fields })
+    }
+  }
+  diff.steps.added = to.definition.steps
+    .map((step) => step.id as string)
+    .filter((id) => !mapped.has(id))
+  return diff
+}
+
+// Settings a step can't change once it is in flight
+const IN_FLIGHT_FIELDS = [
+  'config',
+  'retry',
+  'approval',
+  'subWorkflow',
+  'map',
+] as const
+
+// Reasons a paused workflow can't move to a version's definition, given the
+// ids its steps have there. Steps that already ran have to remain, doing
+// the same thing; steps in flight can't change their settings either; and a
+// step that started can't come to depend on one that hasn't.
+export function checkMigration(
+  workflow: Workflow,
+  target: WorkflowDefinitionInput,
+  mapping: Map<string, string>
+): string[] {
+  const errors: string[] = []
+  const sourceIds = new Map(
+    Array.from(mapping, ([stepId, id]) => [id, stepId])
+  )
+
+  for (const step of workflow.steps) {
+    if (step.status === 'pending') {
+      continue
+    }
+    const next = target.steps.find((s) => s.id === mapping.get(step.id))
+    if (!next) {
+      errors.push(`Step '${step.id}' is ${step.status} and can't be removed`)
+      continue
+    }
+
+    const fields: string[] = []
+    if ((step.type ?? 'task') !== (next.type ?? 'task')) {
+      fields.push('type')
+    } else if (step.type !== 'approval' && step.type !== 'workflow') {
+      fields.push(
+        ...(['agentType', 'action'] as const).filter(
+          (field) => step[field] !== next[field]
+        )
+      )
+    }
+    if (step.status === 'in_progress' || step.status === 'waiting') {
+      fields.push(
+        ...IN_FLIGHT_FIELDS.filter(
+          (field) => !isSameValue(step[field], next[field])
+        )
+      )
+    }
+    for (const field of fields) {
+      errors.push(
+        `Step '${step.id}' is ${step.status} and can't change its ${field}`
+      )
+    }
+
+    const dependsOn = (next.dependsOn as string[] | undefined) ?? []
+    for (const dependencyId of dependsOn) {
+      const dependency = workflow.steps.find(
+        (s) => s.id === sourceIds.get(dependencyId)
+      )
+      if (!dependency || dependency.status === 'pending') {
+        errors.push(
+          `Step '${step.id}' has started and can't depend on ` +
+            `'${dependencyId}', which hasn't`
+        )
+      }
+    }
+  }
+  return errors
+}
+
+// Compare JSON values regardless of key order
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b))
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize)
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => [key, canonicalize(record[key])])
+    )
+  }
+  return value
+}
+
+export function reviveWorkflowVersion(raw: WorkflowVersion): WorkflowVersion {
+  return { ...raw, createdAt: new Date(raw.createdAt) }
+}
@@ -0,0 +1,511 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+/////////////////////////////////////////
+// HELPER FUNCTIONS
+/////////////////////////////////////////
+
+// JSON
+//------------------------------------------------------
+
+export type NullableJsonInput = Prisma.JsonValue | null | 'JsonNull' | 'DbNull' | Prisma.NullTypes.DbNull | Prisma.NullTypes.JsonNull;
+
+export const transformJsonNull = (v?: NullableJsonInput) => {
+  if (!v || v === 'DbNull') return Prisma.DbNull;
+  if (v === 'JsonNull') return Prisma.JsonNull;
+  return v;
+};
+
+export const JsonValueSchema: z.ZodType<Prisma.JsonValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.literal(null),
+    z.record(z.lazy(() => JsonValueSchema.optional())),
+    z.array(z.lazy(() => JsonValueSchema)),
+  ])
+);
+
+export type JsonValueType = z.infer<typeof JsonValueSchema>;
+
+export const NullableJsonValue = z
+  .union([JsonValueSchema, z.literal('DbNull'), z.literal('JsonNull')])
+  .nullable()
+  .transform((v) => transformJsonNull(v));
+
+export type NullableJsonValueType = z.infer<typeof NullableJsonValue>;
+
+export const InputJsonValueSchema: z.ZodType<Prisma.InputJsonValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.object({ toJSON: z.function(z.tuple([]), z.any()) }),
+    z.record(z.lazy(() => z.union([InputJsonValueSchema, z.literal(null)]))),
+    z.array(z.lazy(() => z.union([InputJsonValueSchema, z.literal(null)]))),
+  ])
+);
+
+export type InputJsonValueType = z.infer<typeof InputJsonValueSchema>;
+
+
+/////////////////////////////////////////
+// ENUMS
+/////////////////////////////////////////
+
+export const TransactionIsolationLevelSchema = z.enum(['ReadUncommitted','ReadCommitted','RepeatableRead','Serializable']);
+
+export const TeamMemberScalarFieldEnumSchema = z.enum(['id','name','email','role','createdAt','updatedAt']);
+
+export const CustomerScalarFieldEnumSchema = z.enum(['id','name','email','phone','company','address','notes','createdAt','updatedAt']);
+
+export const LeadScalarFieldEnumSchema = z.enum(['id','source','status','createdAt','updatedAt','customerId']);
+
+export const ProposalScalarFieldEnumSchema = z.enum(['id','title','description','status','amount','createdAt','updatedAt','leadId','customerId']);
+
+export const FeedbackScalarFieldEnumSchema = z.enum(['id','content','sentiment','keyConcern','action','upsellOpportunity','createdAt','updatedAt','customerId']);
+
+export const AgentScalarFieldEnumSchema = z.enum(['id','type','name','description','capabilities','config','createdAt','updatedAt']);
+
+export const TaskScalarFieldEnumSchema = z.enum(['id','agentId','workflowId','assignedToId','type','title','description','status','priority','data','result','error','createdAt','startedAt','completedAt','deadline']);
+
+export const WorkflowScalarFieldEnumSchema = z.enum(['id','name','description','status','data','version','compensation','outputs','templateId','templateVersion','parentWorkflowId','parentStepId','createdAt','updatedAt','completedAt']);
+
+export const WorkflowVersionScalarFieldEnumSchema = z.enum(['workflowId','version','definition','renamedSteps','createdAt']);
+
+export const WorkflowStepScalarFieldEnumSchema = z.enum(['id','workflowId','name','agentType','action','status','config','dependsOn','options','attempts','result','position']);
+
+export const AgentResultScalarFieldEnumSchema = z.enum(['id','taskId','workflowId','stepId','success','data','error','completedAt']);
+
+export const WorkflowRunScalarFieldEnumSchema = z.enum(['id','workflowId','status','replayOf','fromStep','version','migrations','startedAt','completedAt','steps']);
+
+export const WorkflowApprovalScalarFieldEnumSchema = z.enum(['id','workflowId','workflowName','stepId','runId','title','message','assignees','status','onExpiry','requestedAt','expiresAt','decision','decidedBy','comment','decidedAt']);
+
+export const WorkflowTemplateScalarFieldEnumSchema = z.enum(['id','version','name','description','parameters','definition','createdAt']);
+
+export const WorkflowTriggerScalarFieldEnumSchema = z.enum(['id','name','event','when','data','dedupeKey','enabled','definition','lastFiredAt','lastWorkflowId','createdAt','updatedAt']);
+
+export const WorkflowTriggerEventScalarFieldEnumSchema = z.enum(['triggerId','dedupeKey','firedAt']);
+
+export const ServiceScalarFieldEnumSchema = z.enum(['id','name','description','price','duration','category','createdAt','updatedAt']);
+
+export const AppointmentScalarFieldEnumSchema = z.enum(['id','customerId','serviceId','startTime','endTime','status','notes','createdAt','updatedAt']);
+
+export const InvoiceScalarFieldEnumSchema = z.enum(['id','customerId','amount','status','dueDate','createdAt','updatedAt','paidAt']);
+
+export const InvoiceItemScalarFieldEnumSchema = z.enum(['id','invoiceId','description','quantity','unitPrice','amount','position']);
+
+export const DocumentScalarFieldEnumSchema = z.enum(['id','customerId','name','type','content','metadata','createdAt','updatedAt']);
+
+export const SortOrderSchema = z.enum(['asc','desc']);
+
+export const JsonNullValueInputSchema = z.enum(['JsonNull',]).transform((value) => (value === 'JsonNull' ? Prisma.JsonNull : value));
+
+export const NullableJsonNullValueInputSchema = z.enum(['DbNull','JsonNull',]).transform((value) => value === 'JsonNull' ? Prisma.JsonNull : value === 'DbNull' ? Prisma.DbNull : value);
+
+export const QueryModeSchema = z.enum(['default','insensitive']);
+
+export const NullsOrderSchema = z.enum(['first','last']);
+
+export const JsonNullValueFilterSchema = z.enum(['DbNull','JsonNull','AnyNull',]).transform((value) => value === 'JsonNull' ? Prisma.JsonNull : value === 'DbNull' ? Prisma.JsonNull : value === 'AnyNull' ? Prisma.AnyNull : value);
+
+export const AgentTypeSchema = z.enum(['customer_service','scheduling','billing','document','workflow']);
+
+export type AgentTypeType = `${z.infer<typeof AgentTypeSchema>}`
+
+export const TaskStatusSchema = z.enum(['pending','in_progress','completed','failed']);
+
+export type TaskStatusType = `${z.infer<typeof TaskStatusSchema>}`
+
+export const AppointmentStatusSchema = z.enum(['scheduled','confirmed','completed','cancelled']);
+
+export type AppointmentStatusType = `${z.infer<typeof AppointmentStatusSchema>}`
+
+export const InvoiceStatusSchema = z.enum(['draft','sent','paid','overdue','cancelled']);
+
+export type InvoiceStatusType = `${z.infer<typeof InvoiceStatusSchema>}`
+
+/////////////////////////////////////////
+// MODELS
+/////////////////////////////////////////
+
+/////////////////////////////////////////
+// TEAM MEMBER SCHEMA
+/////////////////////////////////////////
+
+export const TeamMemberSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  email: z.string(),
+  role: z.string(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type TeamMember = z.infer<typeof TeamMemberSchema>
+
+/////////////////////////////////////////
+// CUSTOMER SCHEMA
+/////////////////////////////////////////
+
+export const CustomerSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  email: z.string().email(),
+  phone: z.string().nullable(),
+  company: z.string().nullable(),
+  address: z.string().nullable(),
+  notes: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type Customer = z.infer<typeof CustomerSchema>
+
+/////////////////////////////////////////
+// LEAD SCHEMA
+/////////////////////////////////////////
+
+export const LeadSchema = z.object({
+  id: z.string().uuid(),
+  source: z.string().nullable(),
+  status: z.string(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  customerId: z.string().nullable(),
+})
+
+export type Lead = z.infer<typeof LeadSchema>
+
+/////////////////////////////////////////
+// PROPOSAL SCHEMA
+/////////////////////////////////////////
+
+export const ProposalSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  description: z.string().nullable(),
+  status: z.string(),
+  amount: z.number(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  leadId: z.string().nullable(),
+  customerId: z.string().nullable(),
+})
+
+export type Proposal = z.infer<typeof ProposalSchema>
+
+/////////////////////////////////////////
+// FEEDBACK SCHEMA
+/////////////////////////////////////////
+
+export const FeedbackSchema = z.object({
+  id: z.string().uuid(),
+  content: z.string(),
+  sentiment: z.string().nullable(),
+  keyConcern: z.string().nullable(),
+  action: z.string().nullable(),
+  upsellOpportunity: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  customerId: z.string().nullable(),
+})
+
+export type Feedback = z.infer<typeof FeedbackSchema>
+
+/////////////////////////////////////////
+// AGENT SCHEMA
+/////////////////////////////////////////
+
+export const AgentSchema = z.object({
+  type: AgentTypeSchema,
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500),
+  capabilities: z.string().array(),
+  config: z.record(z.any()),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type Agent = z.infer<typeof AgentSchema>
+
+/////////////////////////////////////////
+// TASK SCHEMA
+/////////////////////////////////////////
+
+export const TaskSchema = z.object({
+  status: TaskStatusSchema,
+  id: z.string().uuid(),
+  agentId: z.string().uuid().nullable(),
+  workflowId: z.string().nullable(),
+  assignedToId: z.string().nullable(),
+  type: z.string(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  priority: z.number().int().min(1).max(5),
+  data: z.record(z.any()),
+  result: z.record(z.any()).nullable().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  startedAt: z.coerce.date().nullable(),
+  completedAt: z.coerce.date().nullable(),
+  deadline: z.coerce.date().nullable(),
+})
+
+export type Task = z.infer<typeof TaskSchema>
+
+/////////////////////////////////////////
+// WORKFLOW SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500),
+  status: z.string(),
+  data: z.record(z.any()),
+  version: z.number().int(),
+  compensation: z.record(z.any()).nullable().nullable(),
+  outputs: z.record(z.string()).nullable().nullable(),
+  templateId: z.string().nullable(),
+  templateVersion: z.number().int().nullable(),
+  parentWorkflowId: z.string().nullable(),
+  parentStepId: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  completedAt: z.coerce.date().nullable(),
+})
+
+export type Workflow = z.infer<typeof WorkflowSchema>
+
+/////////////////////////////////////////
+// WORKFLOW VERSION SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowVersionSchema = z.object({
+  workflowId: z.string(),
+  version: z.number().int(),
+  definition: z.record(z.any()),
+  renamedSteps: z.record(z.string()).nullable().nullable(),
+  createdAt: z.coerce.date(),
+})
+
+export type WorkflowVersion = z.infer<typeof WorkflowVersionSchema>
+
+/////////////////////////////////////////
+// WORKFLOW STEP SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowStepSchema = z.object({
+  agentType: AgentTypeSchema,
+  id: z.string().min(1),
+  workflowId: z.string(),
+  name: z.string(),
+  action: z.string().min(1),
+  status: z.string(),
+  config: z.record(z.any()),
+  dependsOn: z.string().array(),
+  options: z.record(z.any()),
+  attempts: z.array(z.record(z.any())),
+  result: z.record(z.any()).nullable().nullable(),
+  position: z.number().int(),
+})
+
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>
+
+/////////////////////////////////////////
+// AGENT RESULT SCHEMA
+/////////////////////////////////////////
+
+export const AgentResultSchema = z.object({
+  id: z.string().uuid(),
+  taskId: z.string(),
+  workflowId: z.string(),
+  stepId: z.string(),
+  success: z.boolean(),
+  data: z.record(z.any()),
+  error: z.string().nullable(),
+  completedAt: z.coerce.date(),
+})
+
+export type AgentResult = z.infer<typeof AgentResultSchema>
+
+/////////////////////////////////////////
+// WORKFLOW RUN SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowRunSchema = z.object({
+  id: z.string(),
+  workflowId: z.string(),
+  status: z.string(),
+  replayOf: z.string().nullable(),
+  fromStep: z.string().nullable(),
+  version: z.number().int().nullable(),
+  migrations: z.array(z.record(z.any())).nullable().nullable(),
+  startedAt: z.coerce.date(),
+  completedAt: z.coerce.date().nullable(),
+  steps: z.array(z.record(z.any())),
+})
+
+export type WorkflowRun = z.infer<typeof WorkflowRunSchema>
+
+/////////////////////////////////////////
+// WORKFLOW APPROVAL SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowApprovalSchema = z.object({
+  id: z.string(),
+  workflowId: z.string(),
+  workflowName: z.string(),
+  stepId: z.string(),
+  runId: z.string().nullable(),
+  title: z.string(),
+  message: z.string().nullable(),
+  assignees: z.string().array(),
+  status: z.string(),
+  onExpiry: z.string(),
+  requestedAt: z.coerce.date(),
+  expiresAt: z.coerce.date().nullable(),
+  decision: z.string().nullable(),
+  decidedBy: z.string().nullable(),
+  comment: z.string().nullable(),
+  decidedAt: z.coerce.date().nullable(),
+})
+
+export type WorkflowApproval = z.infer<typeof WorkflowApprovalSchema>
+
+/////////////////////////////////////////
+// WORKFLOW TEMPLATE SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowTemplateSchema = z.object({
+  id: z.string(),
+  version: z.number().int(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500),
+  parameters: z.array(z.record(z.any())),
+  definition: z.record(z.any()),
+  createdAt: z.coerce.date(),
+})
+
+export type WorkflowTemplate = z.infer<typeof WorkflowTemplateSchema>
+
+/////////////////////////////////////////
+// WORKFLOW TRIGGER SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowTriggerSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  event: z.string().min(1),
+  when: z.record(z.any()).nullable().nullable(),
+  data: z.record(z.any()).nullable().nullable(),
+  dedupeKey: z.string().nullable(),
+  enabled: z.boolean(),
+  definition: z.record(z.any()),
+  lastFiredAt: z.coerce.date().nullable(),
+  lastWorkflowId: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type WorkflowTrigger = z.infer<typeof WorkflowTriggerSchema>
+
+/////////////////////////////////////////
+// WORKFLOW TRIGGER EVENT SCHEMA
+/////////////////////////////////////////
+
+export const WorkflowTriggerEventSchema = z.object({
+  triggerId: z.string(),
+  dedupeKey: z.string(),
+  firedAt: z.coerce.date(),
+})
+
+export type WorkflowTriggerEvent = z.infer<typeof WorkflowTriggerEventSchema>
+
+/////////////////////////////////////////
+// SERVICE SCHEMA
+/////////////////////////////////////////
+
+export const ServiceSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500),
+  price: z.number().positive(),
+  duration: z.number().int().positive(),
+  category: z.string(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type Service = z.infer<typeof ServiceSchema>
+
+/////////////////////////////////////////
+// APPOINTMENT SCHEMA
+/////////////////////////////////////////
+
+export const AppointmentSchema = z.object({
+  status: AppointmentStatusSchema,
+  id: z.string().uuid(),
+  customerId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  notes: z.string().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type Appointment = z.infer<typeof AppointmentSchema>
+
+/////////////////////////////////////////
+// INVOICE SCHEMA
+/////////////////////////////////////////
+
+export const InvoiceSchema = z.object({
+  status: InvoiceStatusSchema,
+  id: z.string().uuid(),
+  customerId: z.string().uuid(),
+  amount: z.number().positive(),
+  dueDate: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  paidAt: z.coerce.date().nullable(),
+})
+
+export type Invoice = z.infer<typeof InvoiceSchema>
+
+/////////////////////////////////////////
+// INVOICE ITEM SCHEMA
+/////////////////////////////////////////
+
+export const InvoiceItemSchema = z.object({
+  id: z.string().uuid(),
+  invoiceId: z.string(),
+  description: z.string(),
+  quantity: z.number().positive(),
+  unitPrice: z.number().positive(),
+  amount: z.number().positive(),
+  position: z.number().int(),
+})
+
+export type InvoiceItem = z.infer<typeof InvoiceItemSchema>
+
+/////////////////////////////////////////
+// DOCUMENT SCHEMA
+/////////////////////////////////////////
+
+export const DocumentSchema = z.object({
+  id: z.string().uuid(),
+  customerId: z.string().uuid().nullable(),
+  name: z.string().min(1).max(100),
+  type: z.string(),
+  content: z.string(),
+  metadata: z.record(z.any()),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export type Document = z.infer<typeof DocumentSchema>
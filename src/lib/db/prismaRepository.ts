@@ -0,0 +1,159 @@
+/**
+ * Postgres Repository
+ *
+ * This module implements the repository layer on top of the Prisma client,
+ * using the models in prisma/schema.prisma. Rows are parsed with the zod
+ * schemas before they are returned. Workflows go through the Postgres
+ * workflow store so they share the orchestrator's tables.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { z } from 'zod'
+import {
+  Invoice,
+  agentSchema,
+  appointmentSchema,
+  customerSchema,
+  documentSchema,
+  invoiceSchema,
+  serviceSchema,
+  taskSchema,
+} from './schema'
+import { PrismaWorkflowStore } from '../agents/workflow/prismaStore'
+import { EntityRepository, Repository, WorkflowRepository } from './repository'
+
+// The subset of a Prisma model delegate the repository uses
+interface PrismaModelDelegate {
+  findMany(args: { where?: object }): Promise<unknown[]>
+  findUnique(args: { where: { id: string } }): Promise<unknown | null>
+  create(args: { data: never }): Promise<unknown>
+  update(args: { where: { id: string }; data: never }): Promise<unknown>
+  deleteMany(args: { where: { id: string } }): Promise<{ count: number }>
+}
+
+export class PrismaEntityRepository<T extends { id: string }>
+  implements EntityRepository<T>
+{
+  constructor(
+    private model: PrismaModelDelegate,
+    private schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ) {}
+
+  async list(where?: Partial<T>): Promise<T[]> {
+    const rows = await this.model.findMany({ where })
+    return rows.map((row) => this.schema.parse(row))
+  }
+
+  async get(id: string): Promise<T | null> {
+    const row = await this.model.findUnique({ where: { id } })
+    return row ? this.schema.parse(row) : null
+  }
+
+  async create(entity: T): Promise<T> {
+    const row = await this.model.create({ data: entity as never })
+    return this.schema.parse(row)
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<T | null> {
+    if (!(await this.model.findUnique({ where: { id } }))) {
+      return null
+    }
+    const data = { ...changes }
+    delete data.id
+    const row = await this.model.update({
+      where: { id },
+      data: data as never,
+    })
+    return this.schema.parse(row)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await this.model.deleteMany({ where: { id } })
+    return count > 0
+  }
+}
+
+// Invoices keep their line items in the InvoiceItem model
+export class PrismaInvoiceRepository implements EntityRepository<Invoice> {
+  private include = { items: { orderBy: { position: 'asc' as const } } }
+
+  constructor(private prisma: PrismaClient) {}
+
+  async list(where?: Partial<Invoice>): Promise<Invoice[]> {
+    const rows = await this.prisma.invoice.findMany({
+      // Line items can't be matched on
+      where: { ...where, items: undefined },
+      include: this.include,
+    })
+    return rows.map((row) => invoiceSchema.parse(row))
+  }
+
+  async get(id: string): Promise<Invoice | null> {
+    const row = await this.prisma.invoice.findUnique({
+      where: { id },
+      include: this.include,
+    })
+    return row ? invoiceSchema.parse(row) : null
+  }
+
+  async create(invoice: Invoice): Promise<Invoice> {
+    const { items, ...fields } = invoice
+    const row = await this.prisma.invoice.create({
+      data: { ...fields, items: { create: toItemRows(items) } },
+      include: this.include,
+    })
+    return invoiceSchema.parse(row)
+  }
+
+  async update(id: string, changes: Partial<Invoice>): Promise<Invoice | null> {
+    if (!(await this.prisma.invoice.findUnique({ where: { id } }))) {
+      return null
+    }
+    const { items, ...fields } = changes
+    delete fields.id
+    const row = await this.prisma.invoice.update({
+      where: { id },
+      data: {
+        ...fields,
+        // Line items are replaced as a whole
+        ...(items && {
+          items: { deleteMany: {}, create: toItemRows(items) },
+        }),
+      },
+      include: this.include,
+    })
+    return invoiceSchema.parse(row)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await this.prisma.invoice.deleteMany({ where: { id } })
+    return count > 0
+  }
+}
+
+function toItemRows(
+  items: Invoice['items']
+): Prisma.InvoiceItemCreateWithoutInvoiceInput[] {
+  return items.map((item, position) => ({ ...item, position }))
+}
+
+export function createPrismaRepository(
+  prisma: PrismaClient = new PrismaClient()
+): Repository {
+  const workflowStore = new PrismaWorkflowStore(prisma)
+
+  return {
+    agents: new PrismaEntityRepository(prisma.agent, agentSchema),
+    tasks: new PrismaEntityRepository(prisma.task, taskSchema),
+    workflows: new WorkflowRepository(workflowStore),
+    customers: new PrismaEntityRepository(prisma.customer, customerSchema),
+    services: new PrismaEntityRepository(prisma.service, serviceSchema),
+    appointments: new PrismaEntityRepository(
+      prisma.appointment,
+      appointmentSchema
+    ),
+    invoices: new PrismaInvoiceRepository(prisma),
+    documents: new PrismaEntityRepository(prisma.document, documentSchema),
+    workflowStore,
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Repository Layer
+ *
+ * This module defines the repositories the API routes and agents read and
+ * write business data through, typed by the zod schemas in `./schema`.
+ * Workflows are served from the workflow orchestrator's own store, so the
+ * routes see the same workflows the orchestrator runs.
+ */
+
+import type {
+  Agent,
+  Appointment,
+  Customer,
+  Document,
+  Invoice,
+  Service,
+  Task,
+} from './schema'
+import type { Workflow } from '../agents/workflow'
+import {
+  MemoryWorkflowStore,
+  WorkflowStore,
+  createWorkflowStore,
+} from '../agents/workflow/store'
+import { createPrismaRepository } from './prismaRepository'
+
+// Entity Repository Interface
+export interface EntityRepository<T extends { id: string }> {
+  // Entities whose fields equal every field of `where`
+  list(where?: Partial<T>): Promise<T[]>
+  get(id: string): Promise<T | null>
+  create(entity: T): Promise<T>
+  // Returns null when no entity has the id
+  update(id: string, changes: Partial<T>): Promise<T | null>
+  delete(id: string): Promise<boolean>
+}
+
+// Repository Interface
+export interface Repository {
+  agents: EntityRepository<Agent>
+  tasks: EntityRepository<Task>
+  workflows: EntityRepository<Workflow>
+  customers: EntityRepository<Customer>
+  services: EntityRepository<Service>
+  appointments: EntityRepository<Appointment>
+  invoices: EntityRepository<Invoice>
+  documents: EntityRepository<Document>
+  // Store the workflow orchestrator persists to, backing `workflows`
+  workflowStore: WorkflowStore
+}
+
+export function matchesWhere<T>(entity: T, where: Partial<T> = {}): boolean {
+  return (Object.keys(where) as (keyof T)[]).every(
+    (key) => entity[key] === where[key]
+  )
+}
+
+// In-memory repository, used for tests and single-process deployments
+export class MemoryEntityRepository<T extends { id: string }>
+  implements EntityRepository<T>
+{
+  private entities: Map<string, T> = new Map()
+
+  async list(where?: Partial<T>): Promise<T[]> {
+    return Array.from(this.entities.values())
+      .filter((entity) => matchesWhere(entity, where))
+      .map((entity) => structuredClone(entity))
+  }
+
+  async get(id: string): Promise<T | null> {
+    const entity = this.entities.get(id)
+    return entity ? structuredClone(entity) : null
+  }
+
+  async create(entity: T): Promise<T> {
+    this.entities.set(entity.id, structuredClone(entity))
+    return structuredClone(entity)
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<T | null> {
+    const entity = this.entities.get(id)
+    if (!entity) {
+      return null
+    }
+    const updated = { ...entity, ...structuredClone(changes), id }
+    this.entities.set(id, updated)
+    return structuredClone(updated)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entities.delete(id)
+  }
+}
+
+// Workflows as stored by the workflow orchestrator
+export class WorkflowRepository implements EntityRepository<Workflow> {
+  constructor(private store: WorkflowStore) {}
+
+  async list(where?: Partial<Workflow>): Promise<Workflow[]> {
+    const workflows = await this.store.loadWorkflows()
+    return workflows.filter((workflow) => matchesWhere(workflow, where))
+  }
+
+  async get(id: string): Promise<Workflow | null> {
+    const workflows = await this.store.loadWorkflows()
+    return workflows.find((workflow) => workflow.id === id) ?? null
+  }
+
+  async create(workflow: Workflow): Promise<Workflow> {
+    await this.store.saveWorkflow(workflow)
+    return workflow
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Workflow>
+  ): Promise<Workflow | null> {
+    const workflow = await this.get(id)
+    if (!workflow) {
+      return null
+    }
+    const updated = { ...workflow, ...changes, id, updatedAt: new Date() }
+    await this.store.saveWorkflow(updated)
+    return updated
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await this.get(id))) {
+      return false
+    }
+    await this.store.deleteWorkflow(id)
+    return true
+  }
+}
+
+export function createMemoryRepository(
+  workflowStore: WorkflowStore = new MemoryWorkflowStore()
+): Repository {
+  return {
+    agents: new MemoryEntityRepository<Agent>(),
+    tasks: new MemoryEntityRepository<Task>(),
+    workflows: new WorkflowRepository(workflowStore),
+    customers: new MemoryEntityRepository<Customer>(),
+    services: new MemoryEntityRepository<Service>(),
+    appointments: new MemoryEntityRepository<Appointment>(),
+    invoices: new MemoryEntityRepository<Invoice>(),
+    documents: new MemoryEntityRepository<Document>(),
+    workflowStore,
+  }
+}
+
+// Create the repository selected by the environment. Outside Postgres,
+// workflows keep using the store selected by `WORKFLOW_STORE`.
+export function createRepository(
+  config: Record<string, string | undefined> = process.env
+): Repository {
+  switch (config.DATA_STORE) {
+    case 'postgres':
+      return createPrismaRepository()
+    default:
+      return createMemoryRepository(createWorkflowStore(config))
+  }
+}
@@ -3,147 +3,116 @@
  *
  * This module defines the database schema for the automation platform using Prisma.
  * It includes models for agents, tasks, workflows, customers, and business data.
+ * The validators build on the ones generated from prisma/schema.prisma, so API
+ * payloads and database rows are checked against the same model.
  */
 
 import { z } from 'zod'
+import {
+  AgentSchema,
+  AgentTypeSchema,
+  AppointmentSchema,
+  CustomerSchema,
+  DocumentSchema,
+  FeedbackSchema,
+  InvoiceItemSchema,
+  InvoiceSchema,
+  LeadSchema,
+  ProposalSchema,
+  ServiceSchema,
+  TaskSchema,
+  TeamMemberSchema,
+  WorkflowSchema,
+  WorkflowStepSchema,
+} from './generated'
+
+// Team Member Schema
+export const teamMemberSchema = TeamMemberSchema
 
 // Agent Schema
-export const agentSchema = z.object({
-  id: z.string().uuid(),
-  type: z.enum([
-    'customer_service',
-    'scheduling',
-    'billing',
-    'document',
-    'workflow',
-  ]),
-  name: z.string().min(1).max(100),
-  description: z.string().max(500),
-  capabilities: z.array(z.string()),
-  config: z.record(z.any()),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-})
+export const agentSchema = AgentSchema
 
 // Task Schema
-export const taskSchema = z.object({
-  id: z.string().uuid(),
-  agentId: z.string().uuid().nullable(),
-  workflowId: z.string().uuid().nullable(),
-  type: z.string(),
-  status: z.enum(['pending', 'in_progress', 'completed', 'failed']),
-  priority: z.number().int().min(1).max(5),
-  data: z.record(z.any()),
-  result: z.record(z.any()).nullable(),
-  error: z.string().nullable(),
-  createdAt: z.date(),
-  startedAt: z.date().nullable(),
-  completedAt: z.date().nullable(),
-  deadline: z.date().nullable(),
+export const taskSchema = TaskSchema
+
+// Workflow Step Schema
+export const workflowStepSchema = z.object({
+  id: WorkflowStepSchema.shape.id,
+  agentType: AgentTypeSchema,
+  action: WorkflowStepSchema.shape.action,
+  config: WorkflowStepSchema.shape.config,
+  dependsOn: WorkflowStepSchema.shape.dependsOn.optional(),
 })
 
 // Workflow Schema
-export const workflowSchema = z.object({
-  id: z.string().uuid(),
-  name: z.string().min(1).max(100),
-  description: z.string().max(500),
-  status: z.enum(['active', 'paused', 'completed', 'failed']),
-  steps: z.array(
-    z.object({
-      id: z.string(),
-      agentType: z.enum([
-        'customer_service',
-        'scheduling',
-        'billing',
-        'document',
-        'workflow',
-      ]),
-      action: z.string(),
-      config: z.record(z.any()),
-      dependsOn: z.array(z.string()).optional(),
-    })
-  ),
-  data: z.record(z.any()),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-  completedAt: z.date().nullable(),
+export const workflowSchema = WorkflowSchema.extend({
+  status: z.enum([
+    'active',
+    'paused',
+    'completed',
+    'failed',
+    'compensating',
+    'compensated',
+  ]),
+  steps: z.array(workflowStepSchema),
 })
 
-// Customer Schema
-export const customerSchema = z.object({
-  id: z.string().uuid(),
-  name: z.string().min(1).max(100),
-  email: z.string().email(),
-  phone: z.string().optional(),
-  company: z.string().optional(),
-  notes: z.string().optional(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
+// Workflow Definition Schema, for workflows submitted by clients before the
+// server assigns an id, status and timestamps
+export const workflowDefinitionSchema = z.object({
+  name: workflowSchema.shape.name,
+  description: workflowSchema.shape.description.optional(),
+  steps: z
+    .array(
+      workflowStepSchema.extend({
+        config: workflowStepSchema.shape.config.optional(),
+      })
+    )
+    .min(1),
+  data: workflowSchema.shape.data.optional(),
 })
 
+// Customer Schema
+export const customerSchema = CustomerSchema
+
+// Lead, Proposal and Feedback Schemas
+export const leadSchema = LeadSchema
+export const proposalSchema = ProposalSchema
+export const feedbackSchema = FeedbackSchema
+
 // Service Schema
-export const serviceSchema = z.object({
-  id: z.string().uuid(),
-  name: z.string().min(1).max(100),
-  description: z.string().max(500),
-  price: z.number().positive(),
-  duration: z.number().int().positive(), // in minutes
-  category: z.string(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-})
+export const serviceSchema = ServiceSchema
 
 // Appointment Schema
-export const appointmentSchema = z.object({
-  id: z.string().uuid(),
-  customerId: z.string().uuid(),
-  serviceId: z.string().uuid(),
-  startTime: z.date(),
-  endTime: z.date(),
-  status: z.enum(['scheduled', 'confirmed', 'completed', 'cancelled']),
-  notes: z.string().optional(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
+export const appointmentSchema = AppointmentSchema
+
+// Invoice Schema, with its line items
+export const invoiceItemSchema = InvoiceItemSchema.pick({
+  description: true,
+  quantity: true,
+  unitPrice: true,
+  amount: true,
 })
 
-// Invoice Schema
-export const invoiceSchema = z.object({
-  id: z.string().uuid(),
-  customerId: z.string().uuid(),
-  amount: z.number().positive(),
-  status: z.enum(['draft', 'sent', 'paid', 'overdue', 'cancelled']),
-  dueDate: z.date(),
-  items: z.array(
-    z.object({
-      description: z.string(),
-      quantity: z.number().positive(),
-      unitPrice: z.number().positive(),
-      amount: z.number().positive(),
-    })
-  ),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-  paidAt: z.date().nullable(),
+export const invoiceSchema = InvoiceSchema.extend({
+  items: z.array(invoiceItemSchema),
 })
 
 // Document Schema
-export const documentSchema = z.object({
-  id: z.string().uuid(),
-  customerId: z.string().uuid().nullable(),
-  name: z.string().min(1).max(100),
-  type: z.string(),
-  content: z.string(),
-  metadata: z.record(z.any()),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-})
+export const documentSchema = DocumentSchema
 
 // Types derived from schemas
+export type TeamMember = z.infer<typeof teamMemberSchema>
 export type Agent = z.infer<typeof agentSchema>
 export type Task = z.infer<typeof taskSchema>
 export type Workflow = z.infer<typeof workflowSchema>
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>
 export type Customer = z.infer<typeof customerSchema>
+export type Lead = z.infer<typeof leadSchema>
+export type Proposal = z.infer<typeof proposalSchema>
+export type Feedback = z.infer<typeof feedbackSchema>
 export type Service = z.infer<typeof serviceSchema>
 export type Appointment = z.infer<typeof appointmentSchema>
+export type InvoiceItem = z.infer<typeof invoiceItemSchema>
 export type Invoice = z.infer<typeof invoiceSchema>
 export type Document = z.infer<typeof documentSchema>
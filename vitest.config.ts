@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+const config = defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})
+
+export default config